@@ -0,0 +1,60 @@
+import { parseArgs } from 'node:util';
+import { subscriptionPlans } from '../src/config/plans.js';
+import { apiKeyService } from '../src/services/apiKeys.js';
+import { databaseService } from '../src/services/database.js';
+import { logger } from '../src/utils/logger.js';
+
+/**
+ * Issue a subscription API key
+ *
+ * Usage: pnpm api-key:create --name "billing-service" --plan growth [--quota 50000] [--rate-limit 120]
+ */
+async function createApiKey() {
+  const { values } = parseArgs({
+    options: {
+      name: { type: 'string' },
+      plan: { type: 'string', default: 'starter' },
+      quota: { type: 'string' },
+      'rate-limit': { type: 'string' },
+    },
+  });
+
+  if (!values.name) {
+    logger.error(`--name is required (plans: ${Object.keys(subscriptionPlans).join(', ')})`);
+    process.exit(1);
+  }
+
+  await databaseService.connect();
+
+  if (!databaseService.connected) {
+    logger.error('❌ Could not connect to database, check DATABASE_URL');
+    process.exit(1);
+  }
+
+  try {
+    const { apiKey, key } = await apiKeyService.createKey({
+      name: values.name,
+      plan: values.plan ?? 'starter',
+      monthlyQuota: values.quota ? Number(values.quota) : undefined,
+      rateLimitMax: values['rate-limit'] ? Number(values['rate-limit']) : undefined,
+    });
+
+    logger.info({
+      id: apiKey.id,
+      name: apiKey.name,
+      plan: apiKey.plan,
+      monthlyQuota: apiKey.monthlyQuota,
+      rateLimitMax: apiKey.rateLimitMax,
+    }, '✅ API key created');
+
+    // The raw key is never stored, so this is the only time it can be shown
+    console.log(`\n${key}\n`);
+  } catch (error) {
+    logger.error({ error }, '❌ Failed to create API key');
+    process.exitCode = 1;
+  } finally {
+    await databaseService.disconnect();
+  }
+}
+
+createApiKey();
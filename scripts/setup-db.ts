@@ -0,0 +1,178 @@
+import { databaseService } from '../src/services/database.js';
+import { logger } from '../src/utils/logger.js';
+
+/** Database schema, applied in order (every statement is idempotent) */
+const SCHEMA: string[] = [
+  // Verified x402 payments, keyed by transaction signature (replay protection)
+  `CREATE TABLE IF NOT EXISTS payment_proofs (
+    id SERIAL PRIMARY KEY,
+    nonce VARCHAR(128) NOT NULL UNIQUE,
+    wallet_address VARCHAR(64) NOT NULL,
+    amount_usdc NUMERIC(18, 6) NOT NULL,
+    endpoint TEXT NOT NULL,
+    proof_data JSONB NOT NULL,
+    verified_at TIMESTAMPTZ NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_payment_proofs_wallet ON payment_proofs (wallet_address)`,
+
+  // Issued x402 challenges, keyed by memo, until they are paid or expire (Redis is the fast path)
+  `CREATE TABLE IF NOT EXISTS payment_challenges (
+    memo VARCHAR(64) PRIMARY KEY,
+    requirement JSONB NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_payment_challenges_expires_at ON payment_challenges (expires_at)`,
+
+  // Settlement attempts for verified payments (pending until the provider settles)
+  `CREATE TABLE IF NOT EXISTS payment_settlements (
+    id SERIAL PRIMARY KEY,
+    signature VARCHAR(128) NOT NULL,
+    mode VARCHAR(16) NOT NULL,
+    network VARCHAR(32),
+    endpoint TEXT NOT NULL,
+    wallet_address VARCHAR(64) NOT NULL,
+    amount_usdc NUMERIC(18, 6) NOT NULL,
+    status VARCHAR(16) NOT NULL CHECK (status IN ('pending', 'settled', 'failed')),
+    tx_hash VARCHAR(128),
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_payment_settlements_status ON payment_settlements (status, id DESC)`,
+  `CREATE INDEX IF NOT EXISTS idx_payment_proofs_verified_at ON payment_proofs (verified_at)`,
+
+  // Paid requests that failed upstream, and how the client was compensated
+  `CREATE TABLE IF NOT EXISTS payment_compensations (
+    id SERIAL PRIMARY KEY,
+    kind VARCHAR(16) NOT NULL CHECK (kind IN ('retry_token', 'credit_refund', 'quota_refund')),
+    status VARCHAR(16) NOT NULL CHECK (status IN ('issued', 'redeemed', 'applied')),
+    payment_reference VARCHAR(128) NOT NULL,
+    mode VARCHAR(16) NOT NULL,
+    endpoint TEXT NOT NULL,
+    body_hash CHAR(64),
+    wallet_address VARCHAR(64),
+    amount_usdc NUMERIC(18, 6) NOT NULL,
+    request_id VARCHAR(64) NOT NULL,
+    status_code INTEGER NOT NULL,
+    token_hash CHAR(64) UNIQUE,
+    expires_at TIMESTAMPTZ,
+    redeemed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+
+  // Each payment is compensated with at most one retry token
+  `CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_compensations_retry_reference
+   ON payment_compensations (payment_reference) WHERE kind = 'retry_token'`,
+
+  // Prepaid credit accounts, funded by on-chain deposits
+  `CREATE TABLE IF NOT EXISTS credit_accounts (
+    id SERIAL PRIMARY KEY,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    wallet_address VARCHAR(64) NOT NULL,
+    balance_usdc NUMERIC(18, 6) NOT NULL DEFAULT 0 CHECK (balance_usdc >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS credit_transactions (
+    id SERIAL PRIMARY KEY,
+    account_id INTEGER NOT NULL REFERENCES credit_accounts (id),
+    kind VARCHAR(16) NOT NULL CHECK (kind IN ('deposit', 'debit', 'refund')),
+    amount_usdc NUMERIC(18, 6) NOT NULL,
+    balance_after_usdc NUMERIC(18, 6) NOT NULL,
+    reference VARCHAR(128) NOT NULL,
+    resource TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_credit_transactions_account ON credit_transactions (account_id, id DESC)`,
+
+  // Subscription API keys and their monthly usage
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    key_prefix VARCHAR(16) NOT NULL,
+    name VARCHAR(128) NOT NULL,
+    plan VARCHAR(32) NOT NULL,
+    monthly_quota INTEGER NOT NULL CHECK (monthly_quota >= 0),
+    rate_limit_max INTEGER NOT NULL CHECK (rate_limit_max > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    revoked_at TIMESTAMPTZ
+  )`,
+  `CREATE TABLE IF NOT EXISTS api_key_usage (
+    api_key_id INTEGER NOT NULL REFERENCES api_keys (id),
+    period CHAR(7) NOT NULL,
+    request_count INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (api_key_id, period)
+  )`,
+
+  // Dynamic pricing rules (the latest row is active)
+  `CREATE TABLE IF NOT EXISTS pricing_rules (
+    id SERIAL PRIMARY KEY,
+    rules JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`,
+  // 30-day spend per payer wallet, for volume tiers
+  `CREATE INDEX IF NOT EXISTS idx_payment_proofs_wallet_verified_at ON payment_proofs (wallet_address, verified_at)`,
+
+  // Async analytics jobs, claimed by the worker pool
+  `CREATE TABLE IF NOT EXISTS analytics_jobs (
+    id UUID PRIMARY KEY,
+    status VARCHAR(16) NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    request JSONB NOT NULL,
+    result JSONB,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    payment JSONB,
+    compensation JSONB,
+    webhook_url TEXT,
+    webhook_status VARCHAR(16) CHECK (webhook_status IN ('pending', 'delivered', 'failed')),
+    webhook_attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_analytics_jobs_queue ON analytics_jobs (status, run_after)`,
+
+  // Computed portfolio value series, by wallet and time window
+  `CREATE TABLE IF NOT EXISTS portfolio_history (
+    wallet_address VARCHAR(44) NOT NULL,
+    interval VARCHAR(8) NOT NULL,
+    from_ts BIGINT NOT NULL,
+    to_ts BIGINT NOT NULL,
+    series JSONB NOT NULL,
+    computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (wallet_address, interval, from_ts, to_ts)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_portfolio_history_expires_at ON portfolio_history (expires_at)`,
+];
+
+/** Create or update the database schema */
+async function setupDatabase() {
+  await databaseService.connect();
+
+  if (!databaseService.connected) {
+    logger.error('❌ Could not connect to database, check DATABASE_URL');
+    process.exit(1);
+  }
+
+  try {
+    for (const statement of SCHEMA) {
+      await databaseService.query(statement);
+    }
+
+    logger.info(`✅ Database schema up to date (${SCHEMA.length} statements applied)`);
+  } catch (error) {
+    logger.error({ error }, '❌ Failed to set up database schema');
+    process.exitCode = 1;
+  } finally {
+    await databaseService.disconnect();
+  }
+}
+
+setupDatabase();
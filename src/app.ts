@@ -6,8 +6,34 @@ import rateLimit from '@fastify/rate-limit';
 import { config } from './config/index.js';
 import { x402PaymentMiddleware } from './middleware/x402Payment.js';
 import { validateWalletAddress } from './middleware/validation.js';
+import { apiKeyAuthMiddleware, rateLimitKey, rateLimitMax } from './middleware/apiKeyAuth.js';
+import { compensateFailedPaymentHook } from './middleware/compensation.js';
+import { storePaidResponseHook } from './middleware/idempotency.js';
 import { endpointPricing } from './config/pricing.js';
+import { activityQuerySchema, historyQuerySchema, pnlQuerySchema, portfolioQuerySchema, transactionsQuerySchema } from './schemas/wallet.js';
+import { errorJsonSchema, walletRouteJsonSchemas } from './schemas/jsonSchema.js';
 import { solanaService } from './services/solana.js';
+import { pnlService } from './services/pnl.js';
+import { portfolioHistoryService } from './services/portfolioHistory.js';
+import { creditRoutes } from './routes/credits.js';
+import { paymentRoutes } from './routes/payments.js';
+import { adminRoutes } from './routes/admin.js';
+import { manifestRoutes } from './routes/manifest.js';
+import { docsRoutes } from './routes/docs.js';
+import { batchRoutes } from './routes/batch.js';
+import { jobRoutes } from './routes/jobs.js';
+
+/**
+ * Fastify schema of a paid wallet route, for query validation and response serialization
+ * The address is checked by `validateWalletAddress` once the payment middleware has run.
+ */
+function walletRouteSchema(path: string) {
+  const schemas = walletRouteJsonSchemas[path]!;
+  return {
+    querystring: schemas.querystring,
+    response: { 200: schemas.response, 500: errorJsonSchema },
+  };
+}
 
 /** Create and configure Fastify application */
 export async function createApp(): Promise<FastifyInstance> {
@@ -51,18 +77,18 @@ export async function createApp(): Promise<FastifyInstance> {
     credentials: true,
   });
 
+  // Authenticate subscription API keys before rate limiting, so limits apply per key
+  app.addHook('onRequest', apiKeyAuthMiddleware);
+
   // Rate limiting - protect against abuse
   await app.register(rateLimit, {
     global: false, // Don't apply globally, we'll enable per-route
-    max: config.rateLimit.maxRequestsBeforePayment,
+    max: rateLimitMax,
     timeWindow: config.rateLimit.windowMs,
     cache: 10000, // Cache size for storing rate limit data
     allowList: ['127.0.0.1'], // Allow localhost in development
     skipOnError: false, // Don't skip rate limiting on errors
-    keyGenerator: (request) => {
-      // Use IP address for rate limiting
-      return request.ip || 'unknown';
-    },
+    keyGenerator: rateLimitKey, // Per API key, falling back to IP address
     errorResponseBuilder: (_request, _context) => {
       return {
         error: 'Too Many Requests',
@@ -75,6 +101,12 @@ export async function createApp(): Promise<FastifyInstance> {
   // Register x402 payment middleware globally
   app.addHook('preHandler', x402PaymentMiddleware);
 
+  // Refund or issue a retry token when a paid request fails
+  app.addHook('onSend', compensateFailedPaymentHook);
+
+  // Keep paid responses so retries are replayed instead of paying again
+  app.addHook('onSend', storePaidResponseHook);
+
   // Health check endpoint (no payment required)
   app.get('/health', async (_request, reply) => {
     const health = {
@@ -147,6 +179,9 @@ export async function createApp(): Promise<FastifyInstance> {
           {
             path,
             price: `${pricing.priceUSDC} USDC`,
+            ...(pricing.depth && {
+              depthPricing: `+${pricing.depth.stepPriceUSDC} USDC per ${pricing.depth.step} ${pricing.depth.param} beyond ${pricing.depth.included}`,
+            }),
             method: 'GET',
           },
         ])
@@ -154,7 +189,23 @@ export async function createApp(): Promise<FastifyInstance> {
       freeEndpoints: {
         health: 'GET /health',
         root: 'GET /',
+        x402Manifest: 'GET /.well-known/x402',
+        openApi: 'GET /openapi.json',
+        docs: 'GET /docs',
+      },
+      batch: {
+        path: 'POST /api/v1/wallets/batch',
+        price: 'Sum of the analyses prices, per address',
       },
+      jobs: {
+        create: 'POST /api/v1/jobs (priced like a batch)',
+        status: 'GET /api/v1/jobs/:id',
+      },
+      credits: {
+        deposit: 'POST /api/v1/credits/deposit',
+        balance: 'GET /api/v1/credits',
+      },
+      paymentHistory: 'GET /api/v1/payments/:wallet (signed by the wallet)',
       paymentProtocol: 'x402',
       documentation: 'https://github.com/halfkey/wallet-analytics-api-x402',
     });
@@ -221,8 +272,9 @@ export async function createApp(): Promise<FastifyInstance> {
   app.get(
     '/api/v1/wallet/:address/overview',
     {
+      schema: walletRouteSchema('/api/v1/wallet/:address/overview'),
       preHandler: validateWalletAddress,
-      config: { rateLimit: { max: config.rateLimit.maxRequestsBeforePayment, timeWindow: config.rateLimit.windowMs } }
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
     },
     async (request, reply) => {
       const { address } = request.params as { address: string };
@@ -252,15 +304,18 @@ export async function createApp(): Promise<FastifyInstance> {
   app.get(
     '/api/v1/wallet/:address/portfolio',
     {
+      schema: walletRouteSchema('/api/v1/wallet/:address/portfolio'),
       preHandler: validateWalletAddress,
-      config: { rateLimit: { max: config.rateLimit.maxRequestsBeforePayment, timeWindow: config.rateLimit.windowMs } }
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
     },
     async (request, reply) => {
       const { address } = request.params as { address: string };
+      // Validated (and priced) by the payment middleware
+      const query = portfolioQuerySchema.parse(request.query);
 
       try {
         // Fetch detailed portfolio data
-        const portfolio = await solanaService.getWalletPortfolio(address);
+        const portfolio = await solanaService.getWalletPortfolio(address, query);
 
         return reply.send({
           success: true,
@@ -285,15 +340,18 @@ export async function createApp(): Promise<FastifyInstance> {
   app.get(
     '/api/v1/wallet/:address/activity',
     {
+      schema: walletRouteSchema('/api/v1/wallet/:address/activity'),
       preHandler: validateWalletAddress,
-      config: { rateLimit: { max: config.rateLimit.maxRequestsBeforePayment, timeWindow: config.rateLimit.windowMs } }
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
     },
     async (request, reply) => {
       const { address } = request.params as { address: string };
+      // Validated (and priced) by the payment middleware
+      const query = activityQuerySchema.parse(request.query);
 
       try {
         // Fetch wallet activity data
-        const activity = await solanaService.getWalletActivity(address);
+        const activity = await solanaService.getWalletActivity(address, query.limit, query.before);
 
         return reply.send({
           success: true,
@@ -312,14 +370,120 @@ export async function createApp(): Promise<FastifyInstance> {
     }
   );
 
+  /**
+   * Transactions Endpoint - Page through a wallet's full transaction history ($0.02 USDC per page)
+   */
+  app.get(
+    '/api/v1/wallet/:address/transactions',
+    {
+      schema: walletRouteSchema('/api/v1/wallet/:address/transactions'),
+      preHandler: validateWalletAddress,
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
+    },
+    async (request, reply) => {
+      const { address } = request.params as { address: string };
+      // Validated (and priced) by the payment middleware
+      const query = transactionsQuerySchema.parse(request.query);
+
+      try {
+        const history = await solanaService.getWalletTransactions(address, query);
+
+        return reply.send({
+          success: true,
+          wallet: address,
+          payment: (request as any).payment,
+          data: history,
+        });
+      } catch (error) {
+        app.log.error({ error, address }, 'Error fetching wallet transactions');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch transaction history',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  /**
+   * History Endpoint - Portfolio value over time ($0.25 USDC)
+   */
+  app.get(
+    '/api/v1/wallet/:address/history',
+    {
+      schema: walletRouteSchema('/api/v1/wallet/:address/history'),
+      preHandler: validateWalletAddress,
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
+    },
+    async (request, reply) => {
+      const { address } = request.params as { address: string };
+      // Validated (and priced) by the payment middleware
+      const window = historyQuerySchema.parse(request.query);
+
+      try {
+        const history = await portfolioHistoryService.getHistory(address, window);
+
+        return reply.send({
+          success: true,
+          wallet: address,
+          payment: (request as any).payment,
+          data: history,
+        });
+      } catch (error) {
+        app.log.error({ error, address }, 'Error fetching portfolio history');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch portfolio history',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
+  /**
+   * PnL Endpoint - Realized and unrealized PnL with cost basis ($0.50 USDC)
+   */
+  app.get(
+    '/api/v1/wallet/:address/pnl',
+    {
+      schema: walletRouteSchema('/api/v1/wallet/:address/pnl'),
+      preHandler: validateWalletAddress,
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
+    },
+    async (request, reply) => {
+      const { address } = request.params as { address: string };
+      // Validated (and priced) by the payment middleware
+      const query = pnlQuerySchema.parse(request.query);
+
+      try {
+        const pnl = await pnlService.getPnl(address, query);
+
+        return reply.send({
+          success: true,
+          wallet: address,
+          payment: (request as any).payment,
+          data: pnl,
+        });
+      } catch (error) {
+        app.log.error({ error, address }, 'Error computing PnL');
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to compute PnL',
+          statusCode: 500,
+        });
+      }
+    }
+  );
+
   /**
    * Risk Endpoint - Get wallet risk assessment ($0.10 USDC)
    */
   app.get(
     '/api/v1/wallet/:address/risk',
     {
+      schema: walletRouteSchema('/api/v1/wallet/:address/risk'),
       preHandler: validateWalletAddress,
-      config: { rateLimit: { max: config.rateLimit.maxRequestsBeforePayment, timeWindow: config.rateLimit.windowMs } }
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } }
     },
     async (request, reply) => {
       const { address } = request.params as { address: string };
@@ -345,6 +509,27 @@ export async function createApp(): Promise<FastifyInstance> {
     }
   );
 
+  // Many wallets and analyses under one payment
+  await app.register(batchRoutes);
+
+  // Async analytics jobs (polling and webhooks)
+  await app.register(jobRoutes);
+
+  // Prepaid credit accounts
+  await app.register(creditRoutes);
+
+  // Payment receipts per wallet
+  await app.register(paymentRoutes);
+
+  // Operator revenue and settlement reports
+  await app.register(adminRoutes);
+
+  // x402 service manifest for agent clients
+  await app.register(manifestRoutes);
+
+  // OpenAPI document and interactive docs
+  await app.register(docsRoutes);
+
   // 404 handler
   app.setNotFoundHandler((_request, reply) => {
     return reply.code(404).send({
@@ -356,6 +541,16 @@ export async function createApp(): Promise<FastifyInstance> {
 
   // Global error handler
   app.setErrorHandler((error, _request, reply) => {
+    // Request schema validation failures (query parameters of the wallet routes)
+    if (error.validation) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: error.message,
+        statusCode: 400,
+        details: error.validation.map((issue) => `${issue.instancePath || '/'}: ${issue.message}`),
+      });
+    }
+
     app.log.error(error);
 
     // Don't leak error details in production
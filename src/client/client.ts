@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import type {
+  X402Payment,
+  X402PaymentRequired,
+  X402PaymentRequirement,
+  X402PaymentResponse,
+} from '../services/x402.js';
+import type { ActivityQuery, HistoryQueryInput, PnlQuery, PortfolioQuery, TransactionsQueryInput } from '../schemas/wallet.js';
+import type { PaymentCurrency } from '../types/payment.js';
+import type { PortfolioHistory, TransactionHistory, WalletActivity, WalletOverview, WalletPnl, WalletPortfolio, WalletRisk } from '../types/wallet.js';
+import { PaymentRequiredError, SpendCapError, WalletAnalyticsError } from './errors.js';
+import type { PaymentSigner } from './signers.js';
+
+/** Currencies priced 1:1 in USD, so spend caps can be enforced on them */
+export type StablecoinCurrency = Extract<PaymentCurrency, 'USDC' | 'USDT'>;
+
+/** Options for {@link WalletAnalyticsClient} */
+export interface WalletAnalyticsClientOptions {
+  /** API origin, e.g. https://api.example.com */
+  baseUrl: string;
+  /** Pays 402 challenges; without one, paid calls fail with {@link PaymentRequiredError} */
+  signer?: PaymentSigner;
+  /** Most a single call may pay, in USD */
+  maxPaymentPerCallUSD?: number;
+  /** Most this client may pay in total, in USD */
+  maxSessionSpendUSD?: number;
+  /** Currencies to pay in, by preference (default: USDC) */
+  currencies?: StablecoinCurrency[];
+  /** Subscription API key, sent as X-API-KEY instead of paying per call */
+  apiKey?: string;
+  /** Prepaid credit token, sent as X-CREDIT-TOKEN instead of paying per call */
+  creditToken?: string;
+  /** Fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/** Successful wallet route response */
+export interface WalletAnalyticsResponse<T> {
+  wallet: string;
+  data: T;
+  /** How the request was paid for, as reported by the API */
+  payment?: Record<string, unknown>;
+  /** Decoded X-PAYMENT-RESPONSE, when this call paid with X-PAYMENT */
+  settlement?: X402PaymentResponse;
+  /** What this call paid with X-PAYMENT, in USD (0 if it didn't) */
+  paidUSD: number;
+}
+
+/**
+ * Typed client for the paid wallet routes
+ *
+ * Handles the x402 flow: a 402 challenge is paid with the signer and the request retried
+ * with X-PAYMENT. Each call sends a new Idempotency-Key, which only its paid retry reuses:
+ * calling a method again is a new request and is charged again.
+ */
+export class WalletAnalyticsClient {
+  private readonly baseUrl: string;
+  private readonly fetch: typeof fetch;
+  private readonly currencies: StablecoinCurrency[];
+  private spent = 0;
+
+  constructor(private readonly options: WalletAnalyticsClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetch = options.fetch ?? fetch;
+    this.currencies = options.currencies ?? ['USDC'];
+  }
+
+  /** USD paid with X-PAYMENT so far (including payments whose request then failed) */
+  get spentUSD(): number {
+    return this.spent;
+  }
+
+  /** Balances, top tokens and activity status */
+  async getOverview(address: string): Promise<WalletAnalyticsResponse<WalletOverview>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/overview`);
+  }
+
+  /** Token and NFT holdings with their value breakdown */
+  async getPortfolio(
+    address: string,
+    query: Partial<PortfolioQuery> = {}
+  ): Promise<WalletAnalyticsResponse<WalletPortfolio>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/portfolio`, query);
+  }
+
+  /** Transaction history (`nextBefore` pages further back) */
+  async getActivity(
+    address: string,
+    query: Partial<ActivityQuery> = {}
+  ): Promise<WalletAnalyticsResponse<WalletActivity>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/activity`, query);
+  }
+
+  /** One page of the full transaction history, filtered (`nextBefore` pages further back) */
+  async getTransactions(
+    address: string,
+    query: Partial<TransactionsQueryInput> = {}
+  ): Promise<WalletAnalyticsResponse<TransactionHistory>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/transactions`, query);
+  }
+
+  /** Portfolio value over time, one point per interval */
+  async getHistory(
+    address: string,
+    query: Partial<HistoryQueryInput> = {}
+  ): Promise<WalletAnalyticsResponse<PortfolioHistory>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/history`, query);
+  }
+
+  /** Realized and unrealized PnL per token, with the cost basis of the remaining lots */
+  async getPnl(
+    address: string,
+    query: Partial<PnlQuery> = {}
+  ): Promise<WalletAnalyticsResponse<WalletPnl>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/pnl`, query);
+  }
+
+  /** Risk score and the factors behind it */
+  async getRisk(address: string): Promise<WalletAnalyticsResponse<WalletRisk>> {
+    return this.request(`/api/v1/wallet/${encodeURIComponent(address)}/risk`);
+  }
+
+  /**
+   * Call a paid route, paying its 402 challenge once if needed
+   * @param path Route path
+   * @param query Query parameters (undefined values are skipped)
+   */
+  async request<T>(
+    path: string,
+    query: Record<string, string | number | boolean | undefined> = {}
+  ): Promise<WalletAnalyticsResponse<T>> {
+    const url = new URL(path, this.baseUrl);
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Idempotency-Key': randomUUID(),
+    };
+    if (this.options.apiKey) {
+      headers['X-API-KEY'] = this.options.apiKey;
+    }
+    if (this.options.creditToken) {
+      headers['X-CREDIT-TOKEN'] = this.options.creditToken;
+    }
+
+    let response = await this.fetch(url, { headers });
+    let paidUSD = 0;
+
+    if (response.status === 402) {
+      const challenge = (await response.json()) as X402PaymentRequired;
+      const { requirement, priceUSD } = this.selectRequirement(challenge);
+      const payment = await this.pay(requirement, priceUSD);
+      paidUSD = priceUSD;
+
+      response = await this.fetch(url, {
+        headers: { ...headers, 'X-PAYMENT': encodePayment(payment) },
+      });
+    }
+
+    const body: unknown = await response.json().catch(() => null);
+    const fields = isRecord(body) ? body : {};
+
+    if (response.status === 402) {
+      throw new PaymentRequiredError(
+        stringField(fields, 'error') || 'Payment was not accepted',
+        body as X402PaymentRequired
+      );
+    }
+    if (!response.ok) {
+      throw new WalletAnalyticsError(
+        stringField(fields, 'message') || `Request failed with status ${response.status}`,
+        response.status,
+        body
+      );
+    }
+
+    const wallet = stringField(fields, 'wallet');
+    if (wallet === undefined || !('data' in fields)) {
+      throw new WalletAnalyticsError('Unexpected response body', response.status, body);
+    }
+
+    const payment = fields['payment'];
+    const paymentResponse = response.headers.get('x-payment-response');
+
+    return {
+      wallet,
+      data: fields['data'] as T,
+      payment: isRecord(payment) ? payment : undefined,
+      settlement: paymentResponse ? decodePaymentResponse(paymentResponse) : undefined,
+      paidUSD,
+    };
+  }
+
+  /** Pick the payable requirement in the most preferred currency */
+  private selectRequirement(challenge: X402PaymentRequired): {
+    requirement: X402PaymentRequirement;
+    priceUSD: number;
+  } {
+    const signer = this.options.signer;
+    if (!signer) {
+      throw new PaymentRequiredError('Payment required but no signer is configured', challenge);
+    }
+
+    for (const currency of this.currencies) {
+      const requirement = challenge.accepts.find(
+        (accept) => accept.extra?.currency === currency && signer.networks.includes(accept.network)
+      );
+      if (requirement) {
+        return { requirement, priceUSD: requirementPriceUSD(requirement) };
+      }
+    }
+
+    throw new PaymentRequiredError(
+      `No payment option in ${this.currencies.join(', ')} on ${signer.networks.join(', ')}`,
+      challenge
+    );
+  }
+
+  /** Enforce the spend caps, then pay */
+  private async pay(requirement: X402PaymentRequirement, priceUSD: number): Promise<X402Payment> {
+    const { maxPaymentPerCallUSD, maxSessionSpendUSD } = this.options;
+
+    if (maxPaymentPerCallUSD !== undefined && priceUSD > maxPaymentPerCallUSD) {
+      throw new SpendCapError(
+        `Price ${priceUSD} USD exceeds the per-call cap of ${maxPaymentPerCallUSD} USD`,
+        requirement,
+        priceUSD
+      );
+    }
+    if (maxSessionSpendUSD !== undefined && this.spent + priceUSD > maxSessionSpendUSD) {
+      throw new SpendCapError(
+        `Price ${priceUSD} USD would exceed the session cap of ${maxSessionSpendUSD} USD (${this.spent} USD spent)`,
+        requirement,
+        priceUSD
+      );
+    }
+
+    // Counted before paying so concurrent calls can't overshoot the cap. A failed signer
+    // stays counted: the transfer may have been sent.
+    this.spent += priceUSD;
+
+    const payload = await this.options.signer!.pay(requirement);
+
+    return {
+      x402Version: 1,
+      scheme: requirement.scheme,
+      network: requirement.network,
+      payload: { ...payload, memo: requirement.memo },
+    };
+  }
+}
+
+/** Whether a parsed JSON value is an object */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** String field of a response body, if it is one */
+function stringField(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** USD price of a stablecoin requirement */
+function requirementPriceUSD(requirement: X402PaymentRequirement): number {
+  const decimals = requirement.extra?.decimals ?? 6;
+  return Number(requirement.maxAmountRequired) / 10 ** decimals;
+}
+
+/** Base64 JSON, as the X-PAYMENT header carries it */
+export function encodePayment(payment: X402Payment): string {
+  return Buffer.from(JSON.stringify(payment)).toString('base64');
+}
+
+/** Decode an X-PAYMENT-RESPONSE header */
+export function decodePaymentResponse(header: string): X402PaymentResponse {
+  return JSON.parse(Buffer.from(header, 'base64').toString('utf8')) as X402PaymentResponse;
+}
@@ -0,0 +1,38 @@
+import type { X402PaymentRequired, X402PaymentRequirement } from '../services/x402.js';
+
+/** Error response from the API */
+export class WalletAnalyticsError extends Error {
+  public readonly statusCode: number;
+  public readonly body: unknown;
+
+  constructor(message: string, statusCode: number, body: unknown) {
+    super(message);
+    this.name = 'WalletAnalyticsError';
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+/** A route asked for payment the client can't or won't make */
+export class PaymentRequiredError extends WalletAnalyticsError {
+  public readonly challenge: X402PaymentRequired;
+
+  constructor(message: string, challenge: X402PaymentRequired) {
+    super(message, 402, challenge);
+    this.name = 'PaymentRequiredError';
+    this.challenge = challenge;
+  }
+}
+
+/** Paying would exceed the per-call or per-session spend cap */
+export class SpendCapError extends Error {
+  public readonly requirement: X402PaymentRequirement;
+  public readonly priceUSD: number;
+
+  constructor(message: string, requirement: X402PaymentRequirement, priceUSD: number) {
+    super(message);
+    this.name = 'SpendCapError';
+    this.requirement = requirement;
+    this.priceUSD = priceUSD;
+  }
+}
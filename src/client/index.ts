@@ -0,0 +1,45 @@
+/**
+ * TypeScript client for the Solana Wallet Analytics API
+ *
+ * Imports nothing from the server at runtime, only its types.
+ */
+
+export {
+  WalletAnalyticsClient,
+  encodePayment,
+  decodePaymentResponse,
+  type WalletAnalyticsClientOptions,
+  type WalletAnalyticsResponse,
+  type StablecoinCurrency,
+} from './client.js';
+export { createKeypairSigner, type PaymentSigner, type KeypairSignerOptions } from './signers.js';
+export { WalletAnalyticsError, PaymentRequiredError, SpendCapError } from './errors.js';
+
+export type {
+  X402Payment,
+  X402PaymentRequired,
+  X402PaymentRequirement,
+  X402PaymentResponse,
+} from '../services/x402.js';
+export type {
+  WalletOverview,
+  WalletPortfolio,
+  WalletActivity,
+  TransactionHistory,
+  PortfolioHistory,
+  PortfolioHistoryPoint,
+  WalletPnl,
+  TokenPnl,
+  WalletRisk,
+  TokenAccount,
+  NFT,
+  Transaction,
+  TransactionEvent,
+  SwapEvent,
+  StakeEvent,
+  NftTradeEvent,
+  TransferEvent,
+  BalanceChanges,
+  TokenBalanceChange,
+  RiskFactor,
+} from '../types/wallet.js';
@@ -0,0 +1,95 @@
+import {
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  type Connection,
+  type Keypair,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import type { X402Payment, X402PaymentRequirement } from '../services/x402.js';
+import type { X402Network } from '../types/payment.js';
+
+/** SPL Memo program (v2) */
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+/**
+ * Pays x402 payment requirements
+ *
+ * `pay` must send a transfer of `maxAmountRequired` of `asset` to `payTo` carrying `memo`,
+ * wait until it is confirmed, and return its signature.
+ */
+export interface PaymentSigner {
+  /** Networks the signer can pay on */
+  networks: X402Network[];
+  pay(requirement: X402PaymentRequirement): Promise<X402Payment['payload']>;
+}
+
+/** Options for {@link createKeypairSigner} */
+export interface KeypairSignerOptions {
+  connection: Connection;
+  keypair: Keypair;
+  network: Extract<X402Network, 'solana-mainnet' | 'solana-devnet' | 'solana-testnet'>;
+}
+
+/**
+ * Signer paying SPL token requirements (USDC, USDT) from a local keypair
+ * Creates the recipient's associated token account if it doesn't exist yet.
+ */
+export function createKeypairSigner({ connection, keypair, network }: KeypairSignerOptions): PaymentSigner {
+  return {
+    networks: [network],
+
+    async pay(requirement) {
+      const decimals = requirement.extra?.decimals;
+      if (decimals === undefined || requirement.extra?.currency === 'SOL') {
+        throw new Error(`Keypair signer only pays SPL token requirements, got ${requirement.asset}`);
+      }
+
+      const mint = new PublicKey(requirement.asset);
+      const recipient = new PublicKey(requirement.payTo);
+      const source = getAssociatedTokenAddressSync(mint, keypair.publicKey);
+      const destination = getAssociatedTokenAddressSync(mint, recipient);
+
+      const transaction = new Transaction().add(
+        createAssociatedTokenAccountIdempotentInstruction(keypair.publicKey, destination, recipient, mint),
+        createTransferCheckedInstruction(
+          source,
+          mint,
+          destination,
+          keypair.publicKey,
+          BigInt(requirement.maxAmountRequired),
+          decimals
+        ),
+        new TransactionInstruction({
+          programId: MEMO_PROGRAM_ID,
+          keys: [{ pubkey: keypair.publicKey, isSigner: true, isWritable: false }],
+          data: Buffer.from(requirement.memo, 'utf8'),
+        })
+      );
+
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = keypair.publicKey;
+      transaction.sign(keypair);
+
+      const signature = await connection.sendRawTransaction(transaction.serialize());
+      const confirmation = await connection.confirmTransaction(
+        { signature, blockhash, lastValidBlockHeight },
+        'confirmed'
+      );
+      if (confirmation.value.err) {
+        throw new Error(`Payment transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+      }
+
+      return {
+        signature,
+        fromAddress: keypair.publicKey.toBase58(),
+        memo: requirement.memo,
+      };
+    },
+  };
+}
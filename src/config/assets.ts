@@ -0,0 +1,102 @@
+import { config } from './index.js';
+import type { PaymentCurrency, X402Network } from '../types/payment.js';
+
+/** Solana cluster, as configured by SOLANA_NETWORK */
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet';
+
+/** EVM networks an `exact` USDC payment can be made on */
+export type EvmNetwork = Extract<X402Network, 'base' | 'base-sepolia'>;
+
+/** Asset that can be used to pay for an endpoint */
+export interface PaymentAsset {
+  currency: PaymentCurrency;
+  /** SPL token mint (wrapped SOL mint identifies native SOL) */
+  mint: string;
+  decimals: number;
+  /** Paid with native system transfers instead of SPL token transfers */
+  native?: boolean;
+  /** Pegged to USD, so no oracle lookup is needed */
+  stablecoin?: boolean;
+}
+
+/** Wrapped SOL mint, used as the asset identifier for native SOL */
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/** Token mints per Solana cluster (Circle doesn't issue USDC on testnet) */
+const solanaMints: Record<SolanaCluster, Partial<Record<PaymentCurrency, string>>> = {
+  'mainnet-beta': {
+    USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+    SOL: WRAPPED_SOL_MINT,
+  },
+  devnet: {
+    USDC: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    SOL: WRAPPED_SOL_MINT,
+  },
+  testnet: {
+    SOL: WRAPPED_SOL_MINT,
+  },
+};
+
+/** USDC contract addresses on supported EVM networks */
+export const evmUsdcContracts: Record<EvmNetwork, string> = {
+  base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  'base-sepolia': '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+};
+
+/** Decimals of each payment currency */
+const currencyDecimals: Record<PaymentCurrency, number> = {
+  USDC: 6,
+  USDT: 6,
+  SOL: 9,
+};
+
+/** Map a Solana cluster to its x402 network identifier */
+export function getSolanaX402Network(cluster: SolanaCluster = config.solana.network): X402Network {
+  switch (cluster) {
+    case 'mainnet-beta':
+      return 'solana-mainnet';
+    case 'devnet':
+      return 'solana-devnet';
+    case 'testnet':
+      return 'solana-testnet';
+  }
+}
+
+/**
+ * Get a payment asset on a Solana cluster
+ * PAYMENT_USDC_MINT overrides the USDC mint (e.g. for a custom testnet token).
+ * @returns The asset, or undefined if the currency isn't available on the cluster
+ */
+export function getPaymentAsset(
+  currency: PaymentCurrency,
+  cluster: SolanaCluster = config.solana.network
+): PaymentAsset | undefined {
+  const mint =
+    currency === 'USDC' && config.payment.usdcMint
+      ? config.payment.usdcMint
+      : solanaMints[cluster][currency];
+
+  if (!mint) {
+    return undefined;
+  }
+
+  return {
+    currency,
+    mint,
+    decimals: currencyDecimals[currency],
+    native: currency === 'SOL' || undefined,
+    stablecoin: currency === 'USDC' || undefined,
+  };
+}
+
+/** Look up a payment asset on a Solana cluster by its mint address */
+export function getAssetByMint(
+  mint: string,
+  cluster: SolanaCluster = config.solana.network
+): PaymentAsset | undefined {
+  const currencies = Object.keys(currencyDecimals) as PaymentCurrency[];
+  return currencies
+    .map((currency) => getPaymentAsset(currency, cluster))
+    .find((asset) => asset?.mint === mint);
+}
@@ -29,6 +29,11 @@ const envSchema = z.object({
     .optional()
     .or(z.literal(''))
     .transform((val) => (val === '' ? undefined : val)),
+  PAYMENT_ACCEPTED_CURRENCIES: z
+    .string()
+    .default('USDC')
+    .transform((val) => val.split(',').map((s) => s.trim().toUpperCase()))
+    .pipe(z.array(z.enum(['USDC', 'USDT', 'SOL'])).min(1)),
   PAYMENT_RECIPIENT_ADDRESS: z
     .string()
     .min(32)
@@ -37,6 +42,84 @@ const envSchema = z.object({
     .or(z.literal(''))
     .transform((val) => (val === '' ? undefined : val)),
 
+  PAYMENT_USDC_MINT: z
+    .string()
+    .min(32)
+    .max(44)
+    .optional()
+    .or(z.literal(''))
+    .transform((val) => (val === '' ? undefined : val)),
+
+  // EVM payments (Base `exact` scheme, not offered until payments can be bound to their challenge)
+  EVM_PAYMENT_NETWORK: z.enum(['base', 'base-sepolia']).default('base'),
+  EVM_PAYMENT_RECIPIENT_ADDRESS: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{40}$/)
+    .optional()
+    .or(z.literal(''))
+    .transform((val) => (val === '' ? undefined : val)),
+  EVM_RPC_URL: z
+    .string()
+    .url()
+    .optional()
+    .or(z.literal(''))
+    .transform((val) => (val === '' ? undefined : val)),
+
+  // Prepaid credits (USDC deposit limits)
+  CREDITS_MIN_DEPOSIT_USDC: z.string().transform(Number).pipe(z.number().positive()).default('1'),
+  CREDITS_MAX_DEPOSIT_USDC: z.string().transform(Number).pipe(z.number().positive()).default('1000'),
+
+  // Retry tokens issued when a paid request fails upstream (seconds)
+  RETRY_TOKEN_TTL_SECONDS: z.string().transform(Number).pipe(z.number().int().positive()).default('86400'),
+
+  // How long a paid response is replayed for retries of the same payment or Idempotency-Key (seconds)
+  IDEMPOTENCY_WINDOW_SECONDS: z.string().transform(Number).pipe(z.number().int().positive()).default('300'),
+
+  // Dynamic pricing rules: JSON file (otherwise the latest rules in the database), reloaded periodically
+  PRICING_RULES_FILE: z
+    .string()
+    .optional()
+    .or(z.literal(''))
+    .transform((val) => (val === '' ? undefined : val)),
+  PRICING_REFRESH_SECONDS: z.string().transform(Number).pipe(z.number().int().positive()).default('60'),
+
+  // Batch analytics: addresses per POST /api/v1/wallets/batch and concurrent RPC-backed lookups
+  BATCH_MAX_ADDRESSES: z.string().transform(Number).pipe(z.number().int().positive()).default('500'),
+  BATCH_CONCURRENCY: z.string().transform(Number).pipe(z.number().int().positive()).default('5'),
+
+  // Portfolio history: points per series, transactions replayed per series, and how long computed series are cached
+  HISTORY_MAX_POINTS: z.string().transform(Number).pipe(z.number().int().positive()).default('365'),
+  HISTORY_MAX_TRANSACTIONS: z.string().transform(Number).pipe(z.number().int().positive()).default('5000'),
+  HISTORY_CACHE_TTL_SECONDS: z.string().transform(Number).pipe(z.number().int().min(0)).default('86400'),
+  // CoinGecko API key for historical prices (the keyless public API is used when unset)
+  COINGECKO_API_KEY: z
+    .string()
+    .optional()
+    .transform((val) => (val === '' ? undefined : val)),
+
+  // PnL: transactions replayed to build cost basis lots
+  PNL_MAX_TRANSACTIONS: z.string().transform(Number).pipe(z.number().int().positive()).default('5000'),
+
+  // Async analytics jobs: worker pool size, attempts per job and queue polling interval
+  JOBS_WORKERS: z.string().transform(Number).pipe(z.number().int().min(0)).default('2'),
+  JOBS_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().int().positive()).default('3'),
+  JOBS_POLL_INTERVAL_MS: z.string().transform(Number).pipe(z.number().int().positive()).default('1000'),
+  // HMAC-SHA256 key for job webhooks (webhooks are disabled when unset)
+  JOBS_WEBHOOK_SECRET: z
+    .string()
+    .min(32)
+    .optional()
+    .or(z.literal(''))
+    .transform((val) => (val === '' ? undefined : val)),
+
+  // Operator dashboard (admin routes are disabled when unset)
+  ADMIN_API_TOKEN: z
+    .string()
+    .min(32)
+    .optional()
+    .or(z.literal(''))
+    .transform((val) => (val === '' ? undefined : val)),
+
   // Redis (Upstash REST API)
   UPSTASH_REDIS_REST_URL: z.string().url().optional(),
   UPSTASH_REDIS_REST_TOKEN: z.string().optional(),
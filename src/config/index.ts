@@ -27,6 +27,48 @@ export const config = {
     facilitatorUrl: env.PAYAI_FACILITATOR_URL,
     publicKey: env.PAYAI_PUBLIC_KEY,
     recipientAddress: env.PAYMENT_RECIPIENT_ADDRESS,
+    acceptedCurrencies: env.PAYMENT_ACCEPTED_CURRENCIES,
+    usdcMint: env.PAYMENT_USDC_MINT,
+    retryTokenTtlSeconds: env.RETRY_TOKEN_TTL_SECONDS,
+    idempotencyWindowSeconds: env.IDEMPOTENCY_WINDOW_SECONDS,
+    evm: {
+      network: env.EVM_PAYMENT_NETWORK,
+      recipientAddress: env.EVM_PAYMENT_RECIPIENT_ADDRESS,
+      rpcUrl: env.EVM_RPC_URL,
+    },
+  },
+
+  pricing: {
+    rulesFile: env.PRICING_RULES_FILE,
+    refreshSeconds: env.PRICING_REFRESH_SECONDS,
+  },
+
+  batch: {
+    maxAddresses: env.BATCH_MAX_ADDRESSES,
+    concurrency: env.BATCH_CONCURRENCY,
+  },
+
+  history: {
+    maxPoints: env.HISTORY_MAX_POINTS,
+    maxTransactions: env.HISTORY_MAX_TRANSACTIONS,
+    cacheTtlSeconds: env.HISTORY_CACHE_TTL_SECONDS,
+    coingeckoApiKey: env.COINGECKO_API_KEY,
+  },
+
+  pnl: {
+    maxTransactions: env.PNL_MAX_TRANSACTIONS,
+  },
+
+  jobs: {
+    workers: env.JOBS_WORKERS,
+    maxAttempts: env.JOBS_MAX_ATTEMPTS,
+    pollIntervalMs: env.JOBS_POLL_INTERVAL_MS,
+    webhookSecret: env.JOBS_WEBHOOK_SECRET,
+  },
+
+  credits: {
+    minDepositUsdc: env.CREDITS_MIN_DEPOSIT_USDC,
+    maxDepositUsdc: env.CREDITS_MAX_DEPOSIT_USDC,
   },
 
   redis: {
@@ -40,6 +82,7 @@ export const config = {
 
   security: {
     corsOrigins: env.CORS_ORIGINS,
+    adminApiToken: env.ADMIN_API_TOKEN,
   },
 
   rateLimit: {
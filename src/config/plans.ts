@@ -0,0 +1,44 @@
+/** Subscription plan for API-key access */
+export interface SubscriptionPlan {
+  /** Plan identifier */
+  name: string;
+  /** Requests included per calendar month (UTC) */
+  monthlyQuota: number;
+  /** Requests allowed per rate limit window (RATE_LIMIT_WINDOW_MS) */
+  rateLimitMax: number;
+  /** Human-readable description */
+  description: string;
+}
+
+/** Subscription plans, used as defaults when API keys are issued */
+export const subscriptionPlans: Record<string, SubscriptionPlan> = {
+  starter: {
+    name: 'starter',
+    monthlyQuota: 10_000,
+    rateLimitMax: 60,
+    description: 'Internal tools and prototypes',
+  },
+  growth: {
+    name: 'growth',
+    monthlyQuota: 100_000,
+    rateLimitMax: 300,
+    description: 'Production services',
+  },
+  enterprise: {
+    name: 'enterprise',
+    monthlyQuota: 1_000_000,
+    rateLimitMax: 1_000,
+    description: 'High-volume batch jobs',
+  },
+};
+
+/** Get a subscription plan by name */
+export function getSubscriptionPlan(name: string): SubscriptionPlan {
+  const plan = subscriptionPlans[name];
+
+  if (!plan) {
+    throw new Error(`Unknown subscription plan: ${name} (available: ${Object.keys(subscriptionPlans).join(', ')})`);
+  }
+
+  return plan;
+}
@@ -1,4 +1,6 @@
 import type { EndpointPricing } from '../schemas/payment.js';
+import type { PaymentCurrency } from '../types/payment.js';
+import { config } from './index.js';
 
 /** Endpoint pricing configuration */
 export const endpointPricing: Record<string, EndpointPricing> = {
@@ -11,11 +13,28 @@ export const endpointPricing: Record<string, EndpointPricing> = {
     path: '/api/v1/wallet/:address/portfolio',
     priceUSDC: 0.05,
     description: 'Detailed portfolio analysis (tokens, NFTs, DeFi positions)',
+    depth: { param: 'nftLimit', included: 100, step: 100, stepPriceUSDC: 0.01 },
   },
   '/api/v1/wallet/:address/activity': {
     path: '/api/v1/wallet/:address/activity',
     priceUSDC: 0.10,
     description: 'Transaction history and activity metrics',
+    depth: { param: 'limit', included: 100, step: 100, stepPriceUSDC: 0.05 },
+  },
+  '/api/v1/wallet/:address/transactions': {
+    path: '/api/v1/wallet/:address/transactions',
+    priceUSDC: 0.02,
+    description: 'Full transaction history, one page per request',
+  },
+  '/api/v1/wallet/:address/history': {
+    path: '/api/v1/wallet/:address/history',
+    priceUSDC: 0.25,
+    description: 'Historical portfolio value time series',
+  },
+  '/api/v1/wallet/:address/pnl': {
+    path: '/api/v1/wallet/:address/pnl',
+    priceUSDC: 0.50,
+    description: 'Realized and unrealized PnL with cost basis (premium)',
   },
   '/api/v1/wallet/:address/risk': {
     path: '/api/v1/wallet/:address/risk',
@@ -24,8 +43,11 @@ export const endpointPricing: Record<string, EndpointPricing> = {
   },
 };
 
-/** Get pricing for an endpoint */
-export function getEndpointPrice(path: string): number {
+/** Find the pricing entry for a request path */
+export function findEndpointPricing(url: string): EndpointPricing | undefined {
+  // Query parameters don't change which endpoint is priced
+  const path = url.split('?')[0] as string;
+
   // Try direct match first
   let pricing = endpointPricing[path];
 
@@ -33,10 +55,17 @@ export function getEndpointPrice(path: string): number {
   if (!pricing) {
     // Match any segment between slashes that looks like it could be an address param
     // This handles both real Solana addresses (32-44 chars) and test addresses
-    const normalizedPath = path.replace(/\/[A-Za-z0-9_-]+\/(overview|portfolio|activity|risk)/, '/:address/$1');
+    const normalizedPath = path.replace(/\/[A-Za-z0-9_-]+\/(overview|portfolio|activity|transactions|history|pnl|risk)/, '/:address/$1');
     pricing = endpointPricing[normalizedPath];
   }
 
+  return pricing;
+}
+
+/** Get the static base price for an endpoint (see `pricingEngine` for the price actually charged) */
+export function getEndpointPrice(path: string): number {
+  const pricing = findEndpointPricing(path);
+
   if (!pricing) {
     throw new Error(`No pricing configured for endpoint: ${path}`);
   }
@@ -44,6 +73,12 @@ export function getEndpointPrice(path: string): number {
   return pricing.priceUSDC;
 }
 
+/** Get the currencies an endpoint can be paid in (its own currency, or the configured defaults) */
+export function getAcceptedCurrencies(path: string): PaymentCurrency[] {
+  const pricing = findEndpointPricing(path);
+  return pricing?.currency ? [pricing.currency] : [...config.payment.acceptedCurrencies];
+}
+
 /** Check if endpoint requires payment */
 export function requiresPayment(path: string): boolean {
   // Health and root endpoints are free
@@ -56,6 +91,21 @@ export function requiresPayment(path: string): boolean {
     return false;
   }
 
+  // Credit routes take deposits and authenticate with their own token
+  if (path.startsWith('/api/v1/credits')) {
+    return false;
+  }
+
+  // Payment history is authenticated with a wallet signature
+  if (path.startsWith('/api/v1/payments/')) {
+    return false;
+  }
+
+  // Job results are polled by job ID, the job was paid for when it was created
+  if (path.startsWith('/api/v1/jobs/')) {
+    return false;
+  }
+
   // All /api/* endpoints require payment
   return path.startsWith('/api/');
 }
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Admin authentication middleware
+ * Requires the configured ADMIN_API_TOKEN in `X-ADMIN-TOKEN`. Admin routes behave as if
+ * they don't exist when no token is configured.
+ */
+export async function requireAdmin(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const expected = config.security.adminApiToken;
+
+  if (!expected) {
+    return reply.code(404).send({
+      error: 'Not Found',
+      message: 'The requested endpoint does not exist',
+      statusCode: 404,
+    });
+  }
+
+  const provided = request.headers['x-admin-token'] as string | undefined;
+
+  // Compare hashes so the comparison is constant-time regardless of length
+  const matches =
+    provided !== undefined &&
+    crypto.timingSafeEqual(
+      crypto.createHash('sha256').update(provided).digest(),
+      crypto.createHash('sha256').update(expected).digest()
+    );
+
+  if (!matches) {
+    logger.warn({ ip: request.ip, url: request.url }, 'Rejected admin request');
+    return reply.code(401).send({
+      error: 'Unauthorized',
+      message: 'Valid X-ADMIN-TOKEN header is required',
+      statusCode: 401,
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/index.js';
+import { requiresPayment } from '../config/pricing.js';
+import { apiKeyService, type ApiKey } from '../services/apiKeys.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * API key authentication middleware
+ * Attaches the subscription key sent in `X-API-KEY` to the request, so rate limiting
+ * and the x402 middleware can apply its plan. Requests without a key are untouched.
+ */
+export async function apiKeyAuthMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const key = request.headers['x-api-key'] as string | undefined;
+
+  // Keys only matter for paid endpoints
+  if (!key || !requiresPayment(request.url)) {
+    return;
+  }
+
+  let apiKey: ApiKey | null;
+  try {
+    if (!apiKeyService.available) {
+      throw new Error('Database not connected');
+    }
+    apiKey = await apiKeyService.authenticate(key);
+  } catch (error) {
+    logger.error({ error }, 'Failed to authenticate API key');
+    return reply.code(503).send({
+      error: 'Service Unavailable',
+      message: 'API key authentication is unavailable, please retry shortly',
+      statusCode: 503,
+    });
+  }
+
+  if (!apiKey) {
+    logger.warn({ keyPrefix: key.slice(0, 12) }, 'Invalid or revoked API key');
+    return reply.code(401).send({
+      error: 'Unauthorized',
+      message: 'Invalid or revoked API key',
+      statusCode: 401,
+    });
+  }
+
+  (request as any).apiKey = apiKey;
+}
+
+/**
+ * Rate limit bucket for a request: its API key, or its IP address
+ */
+export function rateLimitKey(request: FastifyRequest): string {
+  const apiKey = (request as any).apiKey as ApiKey | undefined;
+  return apiKey ? `api-key:${apiKey.id}` : request.ip || 'unknown';
+}
+
+/**
+ * Rate limit for a request: its API key's limit, or the default for anonymous clients
+ */
+export function rateLimitMax(request: FastifyRequest): number {
+  const apiKey = (request as any).apiKey as ApiKey | undefined;
+  return apiKey?.rateLimitMax ?? config.rateLimit.maxRequestsBeforePayment;
+}
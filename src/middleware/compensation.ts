@@ -0,0 +1,79 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { compensationService, hashRequestBody, type Compensation } from '../services/compensation.js';
+
+/**
+ * Compensate paid requests that fail
+ * Runs before a response is sent: if the request was paid for but the handler failed
+ * with a 5xx (e.g. an RPC outage), the client is refunded or issued a retry token (a failed
+ * retry gets its retry token back). The
+ * compensation is returned in headers and, for JSON errors, in the response body.
+ */
+export async function compensateFailedPaymentHook(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown
+): Promise<unknown> {
+  const payment = (request as any).payment;
+
+  if (!payment || reply.statusCode < 500) {
+    return payload;
+  }
+
+  const compensation = await compensationService.compensate({
+    mode: payment.mode,
+    signature: payment.signature,
+    compensationId: payment.compensationId,
+    creditAccountId: payment.creditAccountId,
+    apiKeyId: payment.apiKeyId,
+    usagePeriod: payment.usage?.period,
+    usageRequests: payment.usage?.requests,
+    endpoint: request.url,
+    bodyHash: hashRequestBody(request.body),
+    wallet: payment.wallet,
+    amountUsdc: payment.amount,
+    requestId: request.id,
+    statusCode: reply.statusCode,
+  });
+
+  if (!compensation) {
+    return payload;
+  }
+
+  reply.header('X-PAYMENT-COMPENSATION', compensation.kind);
+
+  if (compensation.retryToken) {
+    reply.header('X-RETRY-TOKEN', compensation.retryToken);
+  }
+
+  if (compensation.creditBalance !== undefined) {
+    reply.header('X-CREDIT-BALANCE', compensation.creditBalance.toString());
+  }
+
+  return withCompensation(payload, compensation);
+}
+
+/** Add the compensation to a serialized JSON object body */
+function withCompensation(payload: unknown, compensation: Compensation): unknown {
+  if (typeof payload !== 'string') {
+    return payload;
+  }
+
+  try {
+    const body = JSON.parse(payload);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return payload;
+    }
+
+    return JSON.stringify({
+      ...body,
+      compensation: {
+        kind: compensation.kind,
+        retryToken: compensation.retryToken,
+        expiresAt: compensation.expiresAt,
+        creditBalance: compensation.creditBalance,
+      },
+    });
+  } catch {
+    return payload;
+  }
+}
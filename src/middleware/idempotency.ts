@@ -0,0 +1,40 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { idempotencyService } from '../services/idempotency.js';
+import { paymentValidator } from '../services/payment/validator.js';
+
+/**
+ * Store the response of a paid request for replay
+ * Retries with the same X-PAYMENT header or Idempotency-Key within the idempotency window
+ * get this response back from the payment middleware. Failed (5xx) responses are not
+ * stored, since those are compensated instead.
+ *
+ * The payment's cached verification is dropped at the same time: from then on a resent
+ * X-PAYMENT gets the stored response, or is rejected by the payment ledger after a failure,
+ * instead of running the paid handler again.
+ */
+export async function storePaidResponseHook(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown
+): Promise<unknown> {
+  const keys = (request as any).idempotencyKeys as string[] | undefined;
+  const payment = (request as any).payment;
+
+  if (!payment) {
+    return payload;
+  }
+
+  if (keys?.length && reply.statusCode < 500 && typeof payload === 'string') {
+    await idempotencyService.storeResponse(keys, {
+      statusCode: reply.statusCode,
+      headers: reply.getHeaders(),
+      body: payload,
+    });
+  }
+
+  if (payment.signature && payment.mode !== 'retry') {
+    await paymentValidator.forgetPayment(payment.signature, request.url, request.ip);
+  }
+
+  return payload;
+}
@@ -1,16 +1,20 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
-import { getEndpointPrice, requiresPayment } from '../config/pricing.js';
+import { findEndpointPricing, getAcceptedCurrencies, requiresPayment } from '../config/pricing.js';
 import { logger } from '../utils/logger.js';
-import {
-  createPaymentRequiredResponse,
-  parsePaymentHeader,
-  verifyPayment,
-  settlePayment,
-  createPaymentRequirement,
-  type X402Payment,
-} from '../services/x402.js';
-import { verifyOnChainPayment } from '../services/onChainVerification.js';
-import { config } from '../config/index.js';
+import { parsePaymentHeader, type X402Payment, type X402PaymentResponse } from '../services/x402.js';
+import { paymentValidator } from '../services/payment/validator.js';
+import type { PaymentRequest } from '../services/payment/provider.js';
+import { creditService, type DebitResult } from '../services/credits.js';
+import { apiKeyService, type ApiKey, type ApiKeyUsage } from '../services/apiKeys.js';
+import { compensationService, hashRequestBody, type RedeemedRetryToken } from '../services/compensation.js';
+import { idempotencyService } from '../services/idempotency.js';
+import { pricingEngine, type PriceQuote } from '../services/pricing.js';
+import { queryParamNames, walletQuerySchemas } from '../schemas/wallet.js';
+import { batchRequestSchema } from '../schemas/batch.js';
+import { jobRequestSchema } from '../schemas/jobs.js';
+import { BATCH_PATH, batchService, walletAnalysisPaths } from '../services/batch.js';
+import { JOBS_PATH } from '../services/jobs.js';
+import { validateQueryParams } from './validation.js';
 
 /**
  * x402 Payment middleware
@@ -29,11 +33,18 @@ export async function x402PaymentMiddleware(
 
   logger.debug({ url }, 'Checking payment for protected endpoint');
 
-  // Get pricing for this endpoint
-  let price: number;
-  try {
-    price = getEndpointPrice(url);
-  } catch (error) {
+  // Batches and jobs are priced from their body: every analysis for every address
+  const path = url.split('?')[0];
+  const bodySchema = request.method !== 'POST'
+    ? undefined
+    : path === BATCH_PATH
+    ? batchRequestSchema
+    : path === JOBS_PATH
+    ? jobRequestSchema
+    : undefined;
+
+  const endpoint = bodySchema ? undefined : findEndpointPricing(url);
+  if (!bodySchema && !endpoint) {
     logger.warn({ url }, 'Endpoint has no pricing configured');
     return reply.code(404).send({
       error: 'Not Found',
@@ -41,16 +52,160 @@ export async function x402PaymentMiddleware(
     });
   }
 
-  // Check for X-PAYMENT header (proper x402 format)
+  // Query parameters change the price, so they are validated before anything is charged
+  const querySchema = endpoint ? walletQuerySchemas[endpoint.path] : undefined;
+  if (!validateQueryParams(request, reply, querySchema ? queryParamNames(querySchema) : [])) {
+    return;
+  }
+
+  const query = querySchema ? querySchema.safeParse(request.query) : null;
+  if (query && !query.success) {
+    return reply.code(400).send({
+      error: 'Bad Request',
+      message: 'Invalid query parameters',
+      statusCode: 400,
+      details: query.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+  }
+
+  // The body of a batch or job is validated before anything is charged too
+  const batch = bodySchema ? bodySchema.safeParse(request.body) : null;
+  if (batch && !batch.success) {
+    return reply.code(400).send({
+      error: 'Bad Request',
+      message: 'Invalid request body',
+      statusCode: 400,
+      details: batch.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+  }
+  const batchRequest = batch?.success ? batch.data : undefined;
+
+  const apiKey = (request as any).apiKey as ApiKey | undefined;
   const paymentHeader = request.headers['x-payment'] as string | undefined;
+  const creditToken = request.headers['x-credit-token'] as string | undefined;
+  const retryToken = request.headers['x-retry-token'] as string | undefined;
+  const idempotencyKey = request.headers['idempotency-key'] as string | undefined;
+  const paymentPayer = getPaymentPayer(paymentHeader);
+
+  if (idempotencyKey !== undefined && !idempotencyService.isValidKey(idempotencyKey)) {
+    return reply.code(400).send({
+      error: 'Bad Request',
+      message: 'Idempotency-Key must be between 1 and 255 characters',
+      statusCode: 400,
+    });
+  }
+
+  // Retries of a paid request replay its response instead of paying again
+  const replayKeys = idempotencyService.keysFor({
+    resource: url,
+    paymentHeader,
+    idempotencyKey,
+    scope: idempotencyScope(apiKey, creditToken, retryToken),
+  });
+
+  const storedResponse = await idempotencyService.getResponse(replayKeys);
+  if (storedResponse) {
+    logger.info({ url, statusCode: storedResponse.statusCode }, 'Replaying paid response for retried request');
+
+    return reply
+      .code(storedResponse.statusCode)
+      .headers({ ...storedResponse.headers, 'Idempotent-Replayed': 'true' })
+      .send(storedResponse.body);
+  }
+
+  // Paid responses are stored under these keys once the handler succeeds
+  (request as any).idempotencyKeys = replayKeys;
+
+  // Price the request, with volume discounts for the paying wallet when it is known
+  // (the payer of X-PAYMENT, or the X-PAYER-WALLET hint when asking for a challenge)
+  const payer = paymentPayer || (request.headers['x-payer-wallet'] as string | undefined);
+  let quote: PriceQuote;
+  try {
+    quote = batchRequest
+      ? await pricingEngine.quoteBatch(
+          batchRequest.analyses.map((analysis) => walletAnalysisPaths[analysis]),
+          batchRequest.addresses.length,
+          payer
+        )
+      : await pricingEngine.quote(url, payer, query?.data);
+  } catch (error) {
+    logger.error({ error, url }, 'Failed to price request');
+    return reply.code(503).send({
+      error: 'Service Unavailable',
+      message: 'Pricing is unavailable, please retry shortly',
+      statusCode: 503,
+    });
+  }
+
+  const price = quote.priceUSD;
+  const paymentRequest: PaymentRequest = {
+    resource: url,
+    priceUSD: price,
+    pricing: quote,
+    currencies: getAcceptedCurrencies(url),
+    requestId: request.id,
+    client: request.ip,
+  };
+
+  // Subscription API keys are metered against their plan instead of paying per request
+  let quotaError: string | undefined;
+
+  // A batch counts as every analysis it runs
+  const usageRequests = batchRequest ? batchService.countAnalyses(batchRequest) : 1;
+
+  if (apiKey) {
+    let usage: ApiKeyUsage;
+    try {
+      usage = await apiKeyService.recordUsage(apiKey, usageRequests);
+    } catch (error) {
+      logger.error({ error, apiKeyId: apiKey.id }, 'Failed to meter API key usage');
+      return reply.code(503).send({
+        error: 'Service Unavailable',
+        message: 'Usage metering is unavailable, please retry shortly',
+        statusCode: 503,
+      });
+    }
+
+    reply.header('X-API-QUOTA-LIMIT', usage.quota.toString());
+    reply.header('X-API-QUOTA-REMAINING', Math.max(usage.quota - usage.used, 0).toString());
+
+    if (usage.allowed) {
+      (request as any).payment = {
+        wallet: null,
+        amount: 0,
+        currency: 'USDC',
+        verifiedAt: new Date().toISOString(),
+        mode: 'subscription',
+        apiKeyId: apiKey.id,
+        plan: apiKey.plan,
+        usage: { used: usage.used, quota: usage.quota, period: usage.period, requests: usageRequests },
+      };
+
+      return; // Continue to handler
+    }
+
+    // Over quota: fall back to paying per request
+    quotaError = `Monthly quota of ${usage.quota} requests exhausted for the ${apiKey.plan} plan (${usage.period}), payment required`;
+    logger.info({ apiKeyId: apiKey.id, plan: apiKey.plan, period: usage.period }, 'API key over quota, requiring payment');
+  }
+
+  // Retry tokens replay a paid request that failed, without paying again
+  if (retryToken) {
+    return payWithRetryToken(request, reply, retryToken, paymentRequest);
+  }
+
+  // Prepaid credit accounts are debited instead of paying per request
+  if (creditToken && !paymentHeader) {
+    return payWithCredits(request, reply, creditToken, paymentRequest);
+  }
 
   // If no payment, return 402 with proper x402 payment requirements
   if (!paymentHeader) {
     logger.info({ url, price }, 'No payment provided, returning x402 payment requirements');
 
-    const paymentRequired = createPaymentRequiredResponse(url, price);
+    const paymentRequired = await paymentValidator.createChallenge(paymentRequest);
 
-    return reply.code(402).send(paymentRequired);
+    return reply.code(402).send(quotaError ? { ...paymentRequired, error: quotaError } : paymentRequired);
   }
 
   // Parse payment header
@@ -83,127 +238,222 @@ export async function x402PaymentMiddleware(
     });
   }
 
-  // Create payment requirement for verification
-  const requirement = createPaymentRequirement(url, price);
+  // Verify, record and settle through the provider for the configured payment mode
+  logger.info({ url, price, mode: paymentValidator.mode }, 'Validating payment');
 
-  // In mock mode, skip facilitator and validate locally
-  if (config.payment.mode === 'mock') {
-    logger.info({ mode: 'mock' }, 'Mock mode: Skipping payment verification');
-
-    // Add mock payment info to request
-    (request as any).payment = {
-      wallet: payment.payload.fromAddress || 'mock-wallet',
-      amount: price,
-      currency: 'USDC',
-      verifiedAt: new Date().toISOString(),
-      mode: 'mock',
-    };
+  // A retry from the same client while the first request is still running reuses its
+  // verification instead of verifying and settling again (the cached verification is
+  // dropped once that request answers, see storePaidResponseHook)
+  const cachedValidation = await paymentValidator.getCachedPayment(payment.payload.signature, url, request.ip);
+  const reusable = cachedValidation?.valid && JSON.stringify(cachedValidation.payment) === JSON.stringify(payment);
 
-    return; // Continue to handler
+  if (reusable) {
+    logger.info({ url, signature: payment.payload.signature }, 'Reusing verified payment for retried request');
   }
 
-  // On-chain verification mode (verify directly on Solana blockchain)
-  if (config.payment.mode === 'onchain') {
-    logger.info({ url, price }, 'Verifying payment on-chain (Solana blockchain)');
-
-    const verificationResult = await verifyOnChainPayment(payment, requirement);
-
-    if (!verificationResult.isValid) {
-      logger.warn({
-        payment,
-        reason: verificationResult.reason,
-      }, 'On-chain payment verification failed');
+  const validation = reusable && cachedValidation
+    ? cachedValidation
+    : await paymentValidator.validatePayment(payment, paymentRequest);
 
-      return reply.code(402).send({
-        ...createPaymentRequiredResponse(url, price),
-        error: `Payment verification failed: ${verificationResult.reason}`,
+  if (!validation.valid) {
+    if (validation.statusCode && validation.statusCode !== 402) {
+      return reply.code(validation.statusCode).send({
+        x402Version: 1,
+        error: validation.error,
       });
     }
 
-    // Payment is valid!
-    logger.info({
-      txHash: verificationResult.txHash,
-      amount: verificationResult.amount,
-      sender: verificationResult.sender,
-      endpoint: url,
-    }, '✅ On-chain payment verified, access granted');
-
-    // Add payment info to request for analytics
-    (request as any).payment = {
-      wallet: payment.payload.fromAddress,
-      amount: price,
-      currency: 'USDC',
-      verifiedAt: new Date().toISOString(),
-      txHash: verificationResult.txHash,
-      network: 'solana-mainnet',
-      mode: 'onchain',
+    return reply.code(402).send({
+      ...await paymentValidator.createChallenge(paymentRequest),
+      error: validation.error,
+    });
+  }
+
+  // Payment is valid!
+  logger.info({
+    mode: validation.mode,
+    txHash: validation.transactionHash,
+    wallet: validation.wallet,
+    endpoint: url,
+    amount: price,
+  }, '✅ Payment verified, access granted');
+
+  // Add payment info to request for analytics
+  (request as any).payment = {
+    wallet: validation.wallet,
+    amount: validation.amount,
+    currency: validation.currency,
+    paidAmount: validation.paidAmount,
+    verifiedAt: new Date(validation.verifiedAt).toISOString(),
+    txHash: validation.transactionHash,
+    network: validation.networkId,
+    mode: validation.mode,
+    signature: payment.payload.signature,
+  };
+
+  // Add X-PAYMENT-RESPONSE header to response
+  if (validation.transactionHash) {
+    const paymentResponse: X402PaymentResponse = {
+      success: true,
+      txHash: validation.transactionHash,
+      networkId: validation.networkId || '',
     };
 
-    // Add X-PAYMENT-RESPONSE header to response
-    const paymentResponse = Buffer.from(
-      JSON.stringify({
-        success: true,
-        txHash: verificationResult.txHash,
-        networkId: 'solana-mainnet',
-      })
-    ).toString('base64');
+    reply.header('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify(paymentResponse)).toString('base64'));
+  }
+
+  // Continue to route handler
+}
 
-    reply.header('X-PAYMENT-RESPONSE', paymentResponse);
+/**
+ * Get the payer address claimed in an X-PAYMENT header
+ * Only a claim until the payment is verified.
+ */
+function getPaymentPayer(paymentHeader: string | undefined): string | undefined {
+  if (!paymentHeader) {
+    return undefined;
+  }
 
-    return; // Continue to handler
+  try {
+    return parsePaymentHeader(paymentHeader)?.payload.fromAddress || undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  // PayAI facilitator mode
-  logger.info({ url, price }, 'Verifying payment via PayAI facilitator');
+/**
+ * Credential an Idempotency-Key is scoped to
+ * Only secrets the client holds count: the payer address in X-PAYMENT is public, so
+ * requests paid with X-PAYMENT alone are only replayed under their payment header.
+ */
+function idempotencyScope(
+  apiKey: ApiKey | undefined,
+  creditToken: string | undefined,
+  retryToken: string | undefined
+): string | undefined {
+  if (apiKey) {
+    return `api-key:${apiKey.id}`;
+  }
 
-  const isValid = await verifyPayment(payment, requirement);
+  if (retryToken) {
+    return `retry:${retryToken}`;
+  }
 
-  if (!isValid) {
-    logger.warn({ payment }, 'Payment verification failed');
-    return reply.code(402).send(createPaymentRequiredResponse(url, price));
+  if (creditToken) {
+    return `credit:${creditToken}`;
   }
 
-  // Settle payment via PayAI facilitator
-  logger.info({ url, price }, 'Settling payment via PayAI facilitator');
+  return undefined;
+}
 
-  const settlementResponse = await settlePayment(payment);
+/**
+ * Debit a request from a prepaid credit account
+ * Falls back to a 402 with payment requirements when the balance is too low.
+ */
+async function payWithCredits(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  token: string,
+  paymentRequest: PaymentRequest
+): Promise<void> {
+  const { resource, priceUSD } = paymentRequest;
 
-  if (!settlementResponse || !settlementResponse.success) {
-    logger.error({ settlementResponse }, 'Payment settlement failed');
-    return reply.code(500).send({
+  let debit: DebitResult;
+  try {
+    if (!creditService.available) {
+      throw new Error('Database not connected');
+    }
+    debit = await creditService.debit(token, priceUSD, resource, request.id);
+  } catch (error) {
+    logger.error({ error, resource }, 'Failed to debit credit account');
+    return reply.code(503).send({
       x402Version: 1,
-      error: 'Payment settlement failed',
+      error: 'Credit accounts unavailable, please retry shortly or pay with X-PAYMENT',
+    });
+  }
+
+  if (debit.status === 'not_found') {
+    return reply.code(401).send({
+      error: 'Unauthorized',
+      message: 'Invalid credit token',
+      statusCode: 401,
+    });
+  }
+
+  if (debit.status === 'insufficient') {
+    logger.info({ resource, balance: debit.account.balanceUsdc, price: priceUSD }, 'Insufficient credit balance');
+    return reply.code(402).send({
+      ...await paymentValidator.createChallenge(paymentRequest),
+      error: `Insufficient credit balance: ${debit.account.balanceUsdc} USDC available, ${priceUSD} USDC required`,
     });
   }
 
-  // Payment is valid and settled!
   logger.info({
-    txHash: settlementResponse.txHash,
-    network: settlementResponse.networkId,
-    endpoint: url,
-    amount: price,
-  }, '✅ Payment verified and settled, access granted');
+    accountId: debit.account.id,
+    endpoint: resource,
+    amount: priceUSD,
+    balance: debit.account.balanceUsdc,
+  }, '✅ Request paid with credits, access granted');
 
-  // Add payment info to request for analytics
   (request as any).payment = {
-    wallet: payment.payload.fromAddress,
-    amount: price,
+    wallet: debit.account.wallet,
+    amount: priceUSD,
     currency: 'USDC',
     verifiedAt: new Date().toISOString(),
-    txHash: settlementResponse.txHash,
-    network: settlementResponse.networkId,
+    mode: 'credits',
+    creditAccountId: debit.account.id,
+    creditBalance: debit.account.balanceUsdc,
   };
 
-  // Add X-PAYMENT-RESPONSE header to response
-  const paymentResponse = Buffer.from(
-    JSON.stringify({
-      success: true,
-      txHash: settlementResponse.txHash,
-      networkId: settlementResponse.networkId,
-    })
-  ).toString('base64');
+  reply.header('X-CREDIT-BALANCE', debit.account.balanceUsdc.toString());
+}
 
-  reply.header('X-PAYMENT-RESPONSE', paymentResponse);
+/**
+ * Replay a failed paid request with the retry token it was compensated with
+ * Tokens are single-use and only valid for the exact resource that failed.
+ */
+async function payWithRetryToken(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  token: string,
+  paymentRequest: PaymentRequest
+): Promise<void> {
+  const { resource } = paymentRequest;
 
-  // Continue to route handler
+  let redeemed: RedeemedRetryToken | null;
+  try {
+    if (!compensationService.available) {
+      throw new Error('Database not connected');
+    }
+    redeemed = await compensationService.redeemRetryToken(token, resource, hashRequestBody(request.body));
+  } catch (error) {
+    logger.error({ error, resource }, 'Failed to redeem retry token');
+    return reply.code(503).send({
+      x402Version: 1,
+      error: 'Retry tokens unavailable, please retry shortly',
+    });
+  }
+
+  if (!redeemed) {
+    return reply.code(402).send({
+      ...await paymentValidator.createChallenge(paymentRequest),
+      error: 'Retry token is invalid, expired, already used, or was issued for a different request',
+    });
+  }
+
+  logger.info({
+    compensationId: redeemed.id,
+    signature: redeemed.signature,
+    endpoint: resource,
+  }, '✅ Retry token redeemed, access granted');
+
+  (request as any).payment = {
+    wallet: redeemed.wallet,
+    amount: redeemed.amountUsdc,
+    currency: 'USDC',
+    verifiedAt: new Date().toISOString(),
+    mode: 'retry',
+    signature: redeemed.signature,
+    compensationId: redeemed.id,
+  };
 }
@@ -0,0 +1,150 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
+import { pricingRulesSchema } from '../schemas/pricing.js';
+import { databaseService } from '../services/database.js';
+import { pricingEngine } from '../services/pricing.js';
+import { getRevenueReport } from '../services/revenue.js';
+import { settlementService } from '../services/settlements.js';
+
+/** Default report range when `from` is omitted (30 days) */
+const DEFAULT_REPORT_DAYS = 30;
+
+/** Number of pending and failed settlements listed in the revenue report */
+const REPORT_SETTLEMENTS_LIMIT = 20;
+
+const paymentModeSchema = z.enum(['mock', 'test', 'payai', 'onchain']);
+
+/** Revenue report query parameters (dates are UTC, `to` is exclusive) */
+const revenueQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  mode: paymentModeSchema.optional(),
+});
+
+/** Settlement list query parameters */
+const settlementsQuerySchema = z.object({
+  status: z.enum(['pending', 'settled', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * Operator routes (X-ADMIN-TOKEN)
+ *
+ * GET /admin/revenue      Revenue by endpoint, day, payer wallet and payment mode
+ * GET /admin/settlements  Settlement attempts, filterable by status
+ * GET /admin/pricing      Active dynamic pricing rules
+ * PUT /admin/pricing      Replace the dynamic pricing rules (database-backed rules only)
+ */
+export async function adminRoutes(app: FastifyInstance): Promise<void> {
+  app.addHook('onRequest', requireAdmin);
+
+  app.addHook('preHandler', async (_request, reply) => {
+    if (!databaseService.connected) {
+      return reply.code(503).send({
+        error: 'Service Unavailable',
+        message: 'Database is unavailable',
+        statusCode: 503,
+      });
+    }
+  });
+
+  app.get('/admin/revenue', async (request, reply) => {
+    const query = revenueQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: 'Invalid report parameters',
+        statusCode: 400,
+        details: query.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const to = query.data.to ?? new Date();
+    const from = query.data.from ?? new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+
+    if (from >= to) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: '`from` must be before `to`',
+        statusCode: 400,
+      });
+    }
+
+    const [report, pending, failed] = await Promise.all([
+      getRevenueReport(from, to, query.data.mode),
+      settlementService.list({ status: 'pending', limit: REPORT_SETTLEMENTS_LIMIT }),
+      settlementService.list({ status: 'failed', limit: REPORT_SETTLEMENTS_LIMIT }),
+    ]);
+
+    return reply.send({
+      success: true,
+      data: {
+        ...report,
+        pendingSettlements: pending,
+        failedSettlements: failed,
+      },
+    });
+  });
+
+  app.get('/admin/settlements', async (request, reply) => {
+    const query = settlementsQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: 'Invalid settlement parameters',
+        statusCode: 400,
+        details: query.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    const { status, limit, cursor } = query.data;
+    const settlements = await settlementService.list({ status, limit: limit + 1, before: cursor });
+    const page = settlements.slice(0, limit);
+
+    return reply.send({
+      success: true,
+      settlements: page,
+      pagination: {
+        limit,
+        nextCursor: settlements.length > limit ? page[page.length - 1]?.id ?? null : null,
+      },
+    });
+  });
+
+  app.get('/admin/pricing', async (_request, reply) => {
+    return reply.send({
+      success: true,
+      data: await pricingEngine.describe(),
+    });
+  });
+
+  app.put('/admin/pricing', async (request, reply) => {
+    if (config.pricing.rulesFile) {
+      return reply.code(409).send({
+        error: 'Conflict',
+        message: 'Pricing rules are loaded from PRICING_RULES_FILE, edit the file instead',
+        statusCode: 409,
+      });
+    }
+
+    const rules = pricingRulesSchema.safeParse(request.body);
+    if (!rules.success) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: 'Invalid pricing rules',
+        statusCode: 400,
+        details: rules.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+
+    await pricingEngine.saveRules(rules.data);
+
+    return reply.send({
+      success: true,
+      data: await pricingEngine.describe(),
+    });
+  });
+}
@@ -0,0 +1,37 @@
+import type { FastifyInstance } from 'fastify';
+import { config } from '../config/index.js';
+import { rateLimitMax } from '../middleware/apiKeyAuth.js';
+import { batchRequestSchema } from '../schemas/batch.js';
+import { BATCH_PATH, batchService } from '../services/batch.js';
+
+/**
+ * Batch analytics routes
+ *
+ * POST /api/v1/wallets/batch  Run analyses for many wallets under one payment
+ */
+export async function batchRoutes(app: FastifyInstance): Promise<void> {
+  app.post(
+    BATCH_PATH,
+    { config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } } },
+    async (request, reply) => {
+      // Validated (and priced) by the payment middleware
+      const batch = batchRequestSchema.parse(request.body);
+      const result = await batchService.run(batch);
+
+      // Nothing to show for the payment, so fail and let it be compensated
+      if (result.failedCount === result.analysisCount) {
+        return reply.code(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to fetch wallet data for every address in the batch',
+          statusCode: 500,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        payment: (request as any).payment,
+        data: result,
+      });
+    }
+  );
+}
@@ -0,0 +1,182 @@
+import type { FastifyInstance } from 'fastify';
+import { config } from '../config/index.js';
+import { creditDepositSchema } from '../schemas/credits.js';
+import { creditService } from '../services/credits.js';
+import { paymentLedger } from '../services/paymentLedger.js';
+import { settlementService } from '../services/settlements.js';
+import { PaymentValidator, createPaymentProvider } from '../services/payment/validator.js';
+import type { PaymentRequest } from '../services/payment/provider.js';
+import { getIssuedRequirement, parsePaymentHeader, restoreIssuedRequirement } from '../services/x402.js';
+
+/** Resource deposits are paid for */
+const DEPOSIT_RESOURCE = '/api/v1/credits/deposit';
+
+/** Deposits are always verified on-chain (mock payments in mock mode) */
+const depositValidator = new PaymentValidator(
+  createPaymentProvider(config.payment.mode === 'mock' ? 'mock' : 'onchain')
+);
+
+/**
+ * Prepaid credit routes
+ *
+ * POST /api/v1/credits/deposit  Fund an account with a USDC payment (x402 flow)
+ * GET  /api/v1/credits          Balance and recent transactions (X-CREDIT-TOKEN)
+ */
+export async function creditRoutes(app: FastifyInstance): Promise<void> {
+  app.post('/api/v1/credits/deposit', async (request, reply) => {
+    if (!creditService.available) {
+      return reply.code(503).send({
+        error: 'Service Unavailable',
+        message: 'Credit accounts are unavailable, please retry shortly',
+        statusCode: 503,
+      });
+    }
+
+    const parsed = creditDepositSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: `Deposit amount must be between ${config.credits.minDepositUsdc} and ${config.credits.maxDepositUsdc} USDC`,
+        statusCode: 400,
+        details: parsed.error.issues.map((issue) => issue.message),
+      });
+    }
+
+    // Top-ups must name an existing account before any money moves
+    const token = request.headers['x-credit-token'] as string | undefined;
+    if (token && !(await creditService.getAccount(token))) {
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Invalid credit token',
+        statusCode: 401,
+      });
+    }
+
+    const paymentRequest: PaymentRequest = {
+      resource: DEPOSIT_RESOURCE,
+      priceUSD: parsed.data.amount,
+      currencies: ['USDC'],
+      requestId: request.id,
+    };
+
+    const paymentHeader = request.headers['x-payment'] as string | undefined;
+    if (!paymentHeader) {
+      return reply.code(402).send(await depositValidator.createChallenge(paymentRequest));
+    }
+
+    const payment = parsePaymentHeader(paymentHeader);
+    if (!payment || payment.x402Version !== 1) {
+      return reply.code(400).send({
+        x402Version: 1,
+        error: 'Invalid payment header',
+      });
+    }
+
+    // Looked up before validation redeems it, so a deposit that can't be credited can give it back
+    const requirement = payment.payload.memo ? await getIssuedRequirement(payment.payload.memo) : null;
+
+    const validation = await depositValidator.validatePayment(payment, paymentRequest);
+
+    if (!validation.valid) {
+      if (validation.statusCode && validation.statusCode !== 402) {
+        return reply.code(validation.statusCode).send({
+          x402Version: 1,
+          error: validation.error,
+        });
+      }
+
+      return reply.code(402).send({
+        ...await depositValidator.createChallenge(paymentRequest),
+        error: validation.error,
+      });
+    }
+
+    try {
+      const result = await creditService.deposit({
+        token,
+        wallet: validation.wallet,
+        amountUsdc: validation.amount,
+        signature: payment.payload.signature,
+      });
+
+      if (!result) {
+        throw new Error('Credit account disappeared during deposit');
+      }
+
+      return reply.code(201).send({
+        success: true,
+        deposit: {
+          amount: validation.amount,
+          currency: validation.currency,
+          txHash: validation.transactionHash,
+          network: validation.networkId,
+        },
+        account: {
+          wallet: result.account.wallet,
+          balance: result.account.balanceUsdc,
+          createdAt: result.account.createdAt,
+        },
+        // Only returned once, when the account is opened
+        token: result.token,
+      });
+    } catch (error) {
+      app.log.error({ error, signature: payment.payload.signature }, 'Failed to credit verified deposit');
+
+      // Nothing was credited (the deposit is one transaction), so the same payment can be resent;
+      // its settlement is recorded again then, so this one no longer counts
+      await paymentLedger.release(payment.payload.signature);
+      await settlementService.markFailedBySignature(payment.payload.signature, 'Deposit could not be credited');
+      if (requirement) {
+        await restoreIssuedRequirement(requirement);
+      }
+
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Deposit was verified but could not be credited, please resend the same payment',
+        statusCode: 500,
+      });
+    }
+  });
+
+  app.get('/api/v1/credits', async (request, reply) => {
+    const token = request.headers['x-credit-token'] as string | undefined;
+    if (!token) {
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'X-CREDIT-TOKEN header is required',
+        statusCode: 401,
+      });
+    }
+
+    if (!creditService.available) {
+      return reply.code(503).send({
+        error: 'Service Unavailable',
+        message: 'Credit accounts are unavailable, please retry shortly',
+        statusCode: 503,
+      });
+    }
+
+    const account = await creditService.getAccount(token);
+    if (!account) {
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Invalid credit token',
+        statusCode: 401,
+      });
+    }
+
+    const transactions = await creditService.getTransactions(account.id);
+
+    return reply.send({
+      success: true,
+      account: {
+        wallet: account.wallet,
+        balance: account.balanceUsdc,
+        currency: 'USDC',
+        createdAt: account.createdAt,
+        updatedAt: account.updatedAt,
+      },
+      transactions,
+    });
+  });
+}
@@ -0,0 +1,61 @@
+import type { FastifyInstance } from 'fastify';
+import { buildOpenApiDocument } from '../services/openapi.js';
+
+/** Swagger UI release served by the docs page */
+const SWAGGER_UI_URL = 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5';
+
+/** Docs page rendering the OpenAPI document with Swagger UI */
+const DOCS_HTML = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Solana Wallet Analytics API</title>
+    <link rel="stylesheet" href="${SWAGGER_UI_URL}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${SWAGGER_UI_URL}/swagger-ui-bundle.js"></script>
+    <script src="/docs/init.js"></script>
+  </body>
+</html>
+`;
+
+/** Kept out of the page so the CSP doesn't need 'unsafe-inline' scripts */
+const DOCS_INIT_JS = `window.ui = SwaggerUIBundle({ url: '/openapi.json', dom_id: '#swagger-ui' });
+`;
+
+/** Loosens the default CSP just enough for the Swagger UI assets */
+const DOCS_CSP = [
+  "default-src 'none'",
+  `script-src 'self' https://cdn.jsdelivr.net`,
+  `style-src https://cdn.jsdelivr.net`,
+  "img-src 'self' data: https://cdn.jsdelivr.net",
+  "connect-src 'self'",
+].join('; ');
+
+/**
+ * API documentation routes
+ *
+ * GET /openapi.json  OpenAPI 3.1 document of the paid routes
+ * GET /docs          Interactive docs
+ */
+export async function docsRoutes(app: FastifyInstance): Promise<void> {
+  const document = buildOpenApiDocument();
+
+  app.get('/openapi.json', async (_request, reply) => {
+    return reply.send(document);
+  });
+
+  app.get('/docs', async (_request, reply) => {
+    return reply
+      .header('Content-Security-Policy', DOCS_CSP)
+      .type('text/html; charset=utf-8')
+      .send(DOCS_HTML);
+  });
+
+  app.get('/docs/init.js', async (_request, reply) => {
+    return reply
+      .type('application/javascript; charset=utf-8')
+      .send(DOCS_INIT_JS);
+  });
+}
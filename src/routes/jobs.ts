@@ -0,0 +1,100 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config/index.js';
+import { rateLimitMax } from '../middleware/apiKeyAuth.js';
+import { jobRequestSchema } from '../schemas/jobs.js';
+import { hashRequestBody } from '../services/compensation.js';
+import { JOBS_PATH, jobService } from '../services/jobs.js';
+import { webhookService } from '../services/webhooks.js';
+
+/** Refuse jobs that can't be stored or delivered, before the payment middleware charges for them */
+async function requireJobs(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!jobService.available) {
+    return reply.code(503).send({
+      error: 'Service Unavailable',
+      message: 'Jobs are unavailable, please retry shortly',
+      statusCode: 503,
+    });
+  }
+
+  const body = request.body as { webhookUrl?: unknown } | undefined;
+  if (body?.webhookUrl !== undefined && !webhookService.available) {
+    return reply.code(400).send({
+      error: 'Bad Request',
+      message: 'Webhooks are not enabled on this server, poll the job instead',
+      statusCode: 400,
+    });
+  }
+}
+
+/**
+ * Async analytics job routes
+ *
+ * POST /api/v1/jobs      Queue a paid batch of analyses (x402 flow), answered with 202 and a job ID
+ * GET  /api/v1/jobs/:id  Job status, and its result once it has succeeded
+ */
+export async function jobRoutes(app: FastifyInstance): Promise<void> {
+  app.post(
+    JOBS_PATH,
+    {
+      preValidation: requireJobs,
+      config: { rateLimit: { max: rateLimitMax, timeWindow: config.rateLimit.windowMs } },
+    },
+    async (request, reply) => {
+      // Validated (and priced) by the payment middleware
+      const { webhookUrl, ...batch } = jobRequestSchema.parse(request.body);
+      const payment = (request as any).payment;
+
+      const job = await jobService.create({
+        request: batch,
+        webhookUrl,
+        payment: payment && {
+          mode: payment.mode,
+          signature: payment.signature,
+          compensationId: payment.compensationId,
+          creditAccountId: payment.creditAccountId,
+          apiKeyId: payment.apiKeyId,
+          usagePeriod: payment.usage?.period,
+          usageRequests: payment.usage?.requests,
+          bodyHash: hashRequestBody(request.body),
+          wallet: payment.wallet,
+          amountUsdc: payment.amount,
+        },
+      });
+
+      return reply
+        .code(202)
+        .header('Location', `${JOBS_PATH}/${job.id}`)
+        .send({
+          success: true,
+          payment,
+          data: jobService.toView(job),
+        });
+    }
+  );
+
+  app.get(`${JOBS_PATH}/:id`, async (request, reply) => {
+    if (!jobService.available) {
+      return reply.code(503).send({
+        error: 'Service Unavailable',
+        message: 'Jobs are unavailable, please retry shortly',
+        statusCode: 503,
+      });
+    }
+
+    const { id } = request.params as { id: string };
+    const job = await jobService.get(id);
+
+    if (!job) {
+      return reply.code(404).send({
+        error: 'Not Found',
+        message: 'Job not found',
+        statusCode: 404,
+      });
+    }
+
+    return reply.send({
+      success: true,
+      data: jobService.toView(job),
+    });
+  });
+}
@@ -0,0 +1,18 @@
+import type { FastifyInstance } from 'fastify';
+import { buildX402Manifest } from '../services/manifest.js';
+
+/** How long clients may cache the manifest */
+const MANIFEST_MAX_AGE_SECONDS = 300;
+
+/**
+ * x402 discovery routes
+ *
+ * GET /.well-known/x402  Paid routes with prices, accepted assets and input/output schemas
+ */
+export async function manifestRoutes(app: FastifyInstance): Promise<void> {
+  app.get('/.well-known/x402', async (_request, reply) => {
+    return reply
+      .header('Cache-Control', `public, max-age=${MANIFEST_MAX_AGE_SECONDS}`)
+      .send(buildX402Manifest());
+  });
+}
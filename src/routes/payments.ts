@@ -0,0 +1,93 @@
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { validateQueryParams, validateWalletAddress } from '../middleware/validation.js';
+import { databaseService } from '../services/database.js';
+import { paymentLedger } from '../services/paymentLedger.js';
+import { verifyWalletAuth } from '../services/walletAuth.js';
+
+/** Action wallets sign to read their payment history */
+const PAYMENT_HISTORY_ACTION = 'payment-history';
+
+/** Receipts query parameters */
+const receiptsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * Payment history routes
+ *
+ * GET /api/v1/payments/:wallet  Paginated receipts, authenticated with a signed message
+ *
+ * The wallet signs `ChainScope payment-history\nWallet: <wallet>\nTimestamp: <unix seconds>`
+ * and sends the base58 signature in `X-WALLET-SIGNATURE` with the timestamp in
+ * `X-WALLET-TIMESTAMP`.
+ */
+export async function paymentRoutes(app: FastifyInstance): Promise<void> {
+  app.get(
+    '/api/v1/payments/:address',
+    { preHandler: validateWalletAddress },
+    async (request, reply) => {
+      const { address } = request.params as { address: string };
+
+      if (!validateQueryParams(request, reply, ['limit', 'cursor'])) {
+        return reply;
+      }
+
+      const query = receiptsQuerySchema.safeParse(request.query);
+      if (!query.success) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'Invalid pagination parameters',
+          statusCode: 400,
+          details: query.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+        });
+      }
+
+      const signature = request.headers['x-wallet-signature'] as string | undefined;
+      const timestamp = Number(request.headers['x-wallet-timestamp']);
+
+      if (!signature || !timestamp) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'X-WALLET-SIGNATURE and X-WALLET-TIMESTAMP headers are required',
+          statusCode: 401,
+        });
+      }
+
+      const auth = verifyWalletAuth(PAYMENT_HISTORY_ACTION, address, timestamp, signature);
+      if (!auth.valid) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: auth.reason,
+          statusCode: 401,
+        });
+      }
+
+      if (!databaseService.connected) {
+        return reply.code(503).send({
+          error: 'Service Unavailable',
+          message: 'Payment history is unavailable, please retry shortly',
+          statusCode: 503,
+        });
+      }
+
+      const { limit, cursor } = query.data;
+
+      // Fetch one extra receipt to know whether there is a next page
+      const receipts = await paymentLedger.getReceipts(address, { limit: limit + 1, before: cursor });
+      const page = receipts.slice(0, limit);
+      const hasMore = receipts.length > limit;
+
+      return reply.send({
+        success: true,
+        wallet: address,
+        receipts: page,
+        pagination: {
+          limit,
+          nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null,
+        },
+      });
+    }
+  );
+}
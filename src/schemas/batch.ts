@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { validateSolanaAddress } from '../middleware/validation.js';
+
+/** Analyses a batch can run, one per paid wallet route */
+export const walletAnalysisSchema = z.enum(['overview', 'portfolio', 'activity', 'risk']);
+
+/** Batch analytics request body schema */
+export const batchRequestSchema = z.object({
+  /** Wallets to analyze (duplicates are analyzed and charged once) */
+  addresses: z
+    .array(z.string().refine(validateSolanaAddress, 'Invalid Solana wallet address'))
+    .min(1)
+    .max(config.batch.maxAddresses)
+    .transform((addresses) => [...new Set(addresses)]),
+  /** Analyses to run for every address */
+  analyses: z
+    .array(walletAnalysisSchema)
+    .min(1)
+    .transform((analyses) => [...new Set(analyses)]),
+});
+
+/** Type exports */
+export type WalletAnalysis = z.infer<typeof walletAnalysisSchema>;
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
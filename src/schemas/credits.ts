@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { config } from '../config/index.js';
+
+/** Credit deposit request body schema */
+export const creditDepositSchema = z.object({
+  amount: z
+    .number()
+    .min(config.credits.minDepositUsdc)
+    .max(config.credits.maxDepositUsdc)
+    .multipleOf(0.000001), // USDC has 6 decimals
+});
+
+/** Type exports */
+export type CreditDeposit = z.infer<typeof creditDepositSchema>;
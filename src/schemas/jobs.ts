@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { isPublicHostname } from '../utils/network.js';
+import { batchRequestSchema } from './batch.js';
+
+/** Async analytics job request body schema (a batch, plus where to deliver the result) */
+export const jobRequestSchema = batchRequestSchema.extend({
+  /** Receives the finished job as a signed POST */
+  webhookUrl: z
+    .string()
+    .url()
+    .refine((url) => url.startsWith('https://') || !config.server.isProduction, 'Webhook URL must use HTTPS')
+    .refine((url) => isPublicHostname(new URL(url).hostname), 'Webhook URL must point to a public host')
+    .optional(),
+});
+
+/** Type exports */
+export type JobRequest = z.infer<typeof jobRequestSchema>;
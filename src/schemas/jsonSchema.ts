@@ -0,0 +1,455 @@
+/**
+ * JSON Schemas for the paid wallet routes
+ *
+ * Attached to the routes in `app.ts` (validation and response serialization) and published
+ * to clients in the x402 manifest and the OpenAPI document. Query schemas mirror the zod
+ * schemas in `wallet.ts`; unknown query parameters are rejected by the payment middleware.
+ */
+
+/** Loose JSON Schema object */
+export type JsonSchema = Record<string, unknown>;
+
+/** Wallet address path parameter */
+export const walletParamsJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address'],
+  properties: {
+    address: {
+      type: 'string',
+      description: 'Solana wallet address (base58)',
+      pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$',
+    },
+  },
+};
+
+export const tokenAccountJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['mint', 'address', 'owner', 'amount', 'decimals', 'uiAmount'],
+  properties: {
+    mint: { type: 'string' },
+    address: { type: 'string' },
+    owner: { type: 'string' },
+    amount: { type: 'string', description: 'Raw amount in atomic units' },
+    decimals: { type: 'integer' },
+    uiAmount: { type: 'number' },
+    symbol: { type: 'string' },
+    name: { type: 'string' },
+    logoURI: { type: 'string' },
+    priceUSD: { type: 'number' },
+    valueUSD: { type: 'number' },
+  },
+};
+
+export const nftJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['mint'],
+  properties: {
+    mint: { type: 'string' },
+    name: { type: 'string' },
+    symbol: { type: 'string' },
+    uri: { type: 'string' },
+    collection: { type: 'string' },
+    verified: { type: 'boolean' },
+    imageUrl: { type: 'string' },
+    floorPriceSOL: { type: 'number' },
+  },
+};
+
+/** Transaction event; the properties present depend on `type` */
+export const transactionEventJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['type', 'program'],
+  properties: {
+    type: { type: 'string', enum: ['swap', 'stake', 'unstake', 'nft_buy', 'nft_sell', 'transfer'] },
+    program: { type: 'string', description: 'Protocol the event happened on' },
+    inputMint: { type: 'string', description: 'swap: token given (SOL as the wrapped SOL mint)' },
+    inputAmount: { type: 'number' },
+    outputMint: { type: 'string', description: 'swap: token received' },
+    outputAmount: { type: 'number' },
+    amount: { type: 'number', description: 'stake/unstake: SOL; transfer: SOL or tokens' },
+    stakeAccount: { type: 'string' },
+    mint: { type: 'string', description: 'Liquid staking token, NFT, or transferred token (absent for SOL)' },
+    tokenAmount: { type: 'number', description: 'stake/unstake: liquid staking tokens' },
+    price: { type: 'number', description: 'nft_buy/nft_sell: SOL paid or received' },
+    source: { type: 'string' },
+    destination: { type: 'string' },
+  },
+};
+
+export const transactionJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['signature', 'timestamp', 'type', 'status', 'fee', 'events'],
+  properties: {
+    signature: { type: 'string' },
+    timestamp: { type: 'integer', description: 'Unix seconds' },
+    type: { type: 'string' },
+    status: { type: 'string', enum: ['success', 'failed'] },
+    fee: { type: 'number', description: 'Fee in SOL' },
+    description: { type: 'string' },
+    events: { type: 'array', items: transactionEventJsonSchema },
+    balanceChanges: {
+      type: 'object',
+      description: "What moved in and out of the wallet (absent if the transaction couldn't be fetched)",
+      required: ['sol', 'tokens', 'counterparties'],
+      properties: {
+        sol: { type: 'number', description: 'SOL change of the wallet account, fee included' },
+        tokens: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['mint', 'decimals', 'amount'],
+            properties: {
+              mint: { type: 'string' },
+              decimals: { type: 'integer' },
+              amount: { type: 'number', description: 'Negative when the balance went down' },
+            },
+          },
+        },
+        counterparties: {
+          type: 'array',
+          items: { type: 'string' },
+          description: "Accounts and token owners whose balances moved opposite to the wallet's",
+        },
+      },
+    },
+  },
+};
+
+export const walletOverviewJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'solBalance', 'solBalanceUSD', 'totalValueUSD', 'tokenCount', 'nftCount', 'isActive', 'tokens', 'topTokens'],
+  properties: {
+    address: { type: 'string' },
+    solBalance: { type: 'number' },
+    solBalanceUSD: { type: 'number' },
+    totalValueUSD: { type: 'number' },
+    tokenCount: { type: 'integer' },
+    nftCount: { type: 'integer' },
+    isActive: { type: 'boolean' },
+    tokens: { type: 'array', items: tokenAccountJsonSchema },
+    topTokens: { type: 'array', items: tokenAccountJsonSchema, description: 'Top 5 tokens by value' },
+  },
+};
+
+export const walletPortfolioJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'totalValueUSD', 'solBalance', 'solBalanceUSD', 'tokens', 'nfts', 'breakdown'],
+  properties: {
+    address: { type: 'string' },
+    totalValueUSD: { type: 'number' },
+    solBalance: { type: 'number' },
+    solBalanceUSD: { type: 'number' },
+    tokens: { type: 'array', items: tokenAccountJsonSchema },
+    nfts: { type: 'array', items: nftJsonSchema },
+    breakdown: {
+      type: 'object',
+      required: ['sol', 'tokens', 'nfts'],
+      properties: {
+        sol: { type: 'number' },
+        tokens: { type: 'number' },
+        nfts: { type: 'number' },
+      },
+    },
+  },
+};
+
+export const walletActivityJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'transactionCount', 'recentTransactions'],
+  properties: {
+    address: { type: 'string' },
+    transactionCount: { type: 'integer' },
+    firstTransaction: { type: 'string', format: 'date-time' },
+    lastTransaction: { type: 'string', format: 'date-time' },
+    recentTransactions: { type: 'array', items: transactionJsonSchema },
+    nextBefore: { type: 'string', description: 'Cursor for the next (older) page, passed as `before`' },
+  },
+};
+
+export const transactionHistoryJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'transactions', 'scanned'],
+  properties: {
+    address: { type: 'string' },
+    transactions: { type: 'array', items: transactionJsonSchema },
+    scanned: { type: 'integer', description: 'Signatures scanned for this page' },
+    nextBefore: {
+      type: 'string',
+      description: 'Cursor for the next (older) page, passed as `before`; absent once the history is exhausted',
+    },
+  },
+};
+
+export const portfolioHistoryJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'interval', 'from', 'to', 'points', 'unpricedMints', 'truncated', 'transactionsReplayed', 'priceSource'],
+  properties: {
+    address: { type: 'string' },
+    interval: { type: 'string', enum: ['1h', '1d', '1w'] },
+    from: { type: 'integer', description: 'First point, Unix seconds' },
+    to: { type: 'integer', description: 'Last point, Unix seconds' },
+    points: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['timestamp', 'solBalance', 'tokens', 'valueUSD'],
+        properties: {
+          timestamp: { type: 'integer', description: 'Unix seconds' },
+          solBalance: { type: 'number' },
+          tokens: {
+            type: 'array',
+            description: 'Priced token holdings (unpriced tokens and NFTs are left out)',
+            items: {
+              type: 'object',
+              required: ['mint', 'amount', 'valueUSD'],
+              properties: {
+                mint: { type: 'string' },
+                amount: { type: 'number' },
+                valueUSD: { type: 'number' },
+              },
+            },
+          },
+          valueUSD: { type: 'number' },
+        },
+      },
+    },
+    unpricedMints: { type: 'array', items: { type: 'string' }, description: "Tokens that couldn't be valued (counted as 0)" },
+    truncated: { type: 'boolean', description: 'Older points were dropped because the wallet has too many transactions to replay' },
+    transactionsReplayed: { type: 'integer' },
+    priceSource: { type: 'string' },
+  },
+};
+
+export const walletPnlJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'method', 'tokens', 'totals', 'transactionsReplayed', 'truncated', 'priceSource'],
+  properties: {
+    address: { type: 'string' },
+    method: { type: 'string', enum: ['fifo', 'lifo', 'average'] },
+    tokens: {
+      type: 'array',
+      description: 'Tokens traded or held, SOL as the wrapped SOL mint (NFTs are left out)',
+      items: {
+        type: 'object',
+        required: [
+          'mint', 'quantity', 'costBasisUSD', 'averageCostUSD', 'currentPriceUSD',
+          'realizedPnlUSD', 'unrealizedPnlUSD', 'costBasisComplete',
+        ],
+        properties: {
+          mint: { type: 'string' },
+          quantity: { type: 'number', description: 'Quantity left in the lots' },
+          costBasisUSD: { type: 'number', description: 'Cost of the remaining lots' },
+          averageCostUSD: { type: ['number', 'null'] },
+          currentPriceUSD: { type: ['number', 'null'] },
+          realizedPnlUSD: { type: 'number' },
+          unrealizedPnlUSD: { type: ['number', 'null'], description: 'Null when the token has no current price' },
+          costBasisComplete: {
+            type: 'boolean',
+            description: 'False when some cost or proceeds are unknown (counted as 0), e.g. tokens acquired before the replayed history',
+          },
+        },
+      },
+    },
+    totals: {
+      type: 'object',
+      required: ['realizedPnlUSD', 'unrealizedPnlUSD', 'costBasisUSD', 'valueUSD'],
+      properties: {
+        realizedPnlUSD: { type: 'number' },
+        unrealizedPnlUSD: { type: 'number' },
+        costBasisUSD: { type: 'number' },
+        valueUSD: { type: 'number', description: 'Remaining lots at current prices' },
+      },
+    },
+    transactionsReplayed: { type: 'integer' },
+    truncated: { type: 'boolean', description: 'The oldest transactions were left out because the wallet has too many to replay' },
+    priceSource: { type: 'string' },
+  },
+};
+
+export const walletRiskJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['address', 'riskScore', 'riskLevel', 'factors', 'warnings'],
+  properties: {
+    address: { type: 'string' },
+    riskScore: { type: 'number', minimum: 0, maximum: 100 },
+    riskLevel: { type: 'string', enum: ['low', 'medium', 'high'] },
+    factors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'severity', 'description', 'impact'],
+        properties: {
+          type: { type: 'string' },
+          severity: { type: 'string', enum: ['low', 'medium', 'high'] },
+          description: { type: 'string' },
+          impact: { type: 'number', minimum: 0, maximum: 100 },
+        },
+      },
+    },
+    warnings: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+/** Successful wallet route response wrapping the analytics data */
+export function walletResponseJsonSchema(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    required: ['success', 'wallet', 'data'],
+    properties: {
+      success: { type: 'boolean', const: true },
+      wallet: { type: 'string' },
+      payment: {
+        type: 'object',
+        description: 'How the request was paid for',
+        additionalProperties: true,
+      },
+      data,
+    },
+  };
+}
+
+/** Error response */
+export const errorJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['error', 'message', 'statusCode'],
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    statusCode: { type: 'integer' },
+    details: {},
+  },
+};
+
+/** One way to pay in a 402 challenge */
+export const x402PaymentRequirementJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['scheme', 'network', 'maxAmountRequired', 'resource', 'payTo', 'asset', 'maxTimeoutSeconds', 'memo'],
+  properties: {
+    scheme: { type: 'string', const: 'exact' },
+    network: { type: 'string', enum: ['solana-mainnet', 'solana-devnet', 'solana-testnet', 'base', 'base-sepolia'] },
+    maxAmountRequired: { type: 'string', description: 'Amount in atomic units of the asset' },
+    resource: { type: 'string' },
+    payTo: { type: 'string' },
+    asset: { type: 'string', description: 'SPL token mint (wrapped SOL mint for native SOL) or EVM token contract' },
+    maxTimeoutSeconds: { type: 'integer' },
+    memo: { type: 'string', description: 'Unique memo the payment must carry' },
+    extra: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string', enum: ['USDC', 'USDT', 'SOL'] },
+        decimals: { type: 'integer' },
+        pricing: {
+          type: 'object',
+          properties: {
+            basePriceUSD: { type: 'number' },
+            priceUSD: { type: 'number' },
+            adjustments: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['type', 'percent'],
+                properties: {
+                  type: { type: 'string', enum: ['depth', 'surge', 'promotion', 'volume'] },
+                  name: { type: 'string' },
+                  percent: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/** 402 Payment Required response */
+export const x402PaymentRequiredJsonSchema: JsonSchema = {
+  type: 'object',
+  required: ['x402Version', 'accepts', 'error'],
+  properties: {
+    x402Version: { type: 'integer' },
+    accepts: { type: 'array', items: x402PaymentRequirementJsonSchema },
+    error: { type: 'string' },
+  },
+};
+
+/** Input and output schemas of a paid route */
+export interface RouteJsonSchemas {
+  params: JsonSchema;
+  querystring: JsonSchema;
+  response: JsonSchema;
+}
+
+/** Schemas of each paid wallet route, by endpoint pattern */
+export const walletRouteJsonSchemas: Record<string, RouteJsonSchemas> = {
+  '/api/v1/wallet/:address/overview': {
+    params: walletParamsJsonSchema,
+    querystring: { type: 'object', properties: {} },
+    response: walletResponseJsonSchema(walletOverviewJsonSchema),
+  },
+  '/api/v1/wallet/:address/portfolio': {
+    params: walletParamsJsonSchema,
+    querystring: {
+      type: 'object',
+      properties: {
+        includeNfts: { type: 'string', enum: ['true', 'false'], default: 'true' },
+        nftLimit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+      },
+    },
+    response: walletResponseJsonSchema(walletPortfolioJsonSchema),
+  },
+  '/api/v1/wallet/:address/activity': {
+    params: walletParamsJsonSchema,
+    querystring: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+        before: { type: 'string', description: 'Only scan transactions before this signature' },
+      },
+    },
+    response: walletResponseJsonSchema(walletActivityJsonSchema),
+  },
+  '/api/v1/wallet/:address/transactions': {
+    params: walletParamsJsonSchema,
+    querystring: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1, maximum: 100, default: 50, description: 'Signatures to scan for this page' },
+        before: { type: 'string', description: 'Only scan transactions before this signature (pagination cursor)' },
+        until: { type: 'string', description: 'Only scan transactions after this signature' },
+        type: { type: 'string', description: 'Comma-separated transaction types' },
+        status: { type: 'string', enum: ['success', 'failed'] },
+        from: { type: 'integer', minimum: 0, description: 'Oldest block time, Unix seconds' },
+        to: { type: 'integer', minimum: 0, description: 'Newest block time, Unix seconds' },
+      },
+    },
+    response: walletResponseJsonSchema(transactionHistoryJsonSchema),
+  },
+  '/api/v1/wallet/:address/history': {
+    params: walletParamsJsonSchema,
+    querystring: {
+      type: 'object',
+      properties: {
+        interval: { type: 'string', enum: ['1h', '1d', '1w'], default: '1d', description: 'Time between points' },
+        from: { type: 'integer', minimum: 0, description: 'Start, Unix seconds (default 30 points before to)' },
+        to: { type: 'integer', minimum: 0, description: 'End, Unix seconds (default now)' },
+      },
+    },
+    response: walletResponseJsonSchema(portfolioHistoryJsonSchema),
+  },
+  '/api/v1/wallet/:address/pnl': {
+    params: walletParamsJsonSchema,
+    querystring: {
+      type: 'object',
+      properties: {
+        method: { type: 'string', enum: ['fifo', 'lifo', 'average'], default: 'fifo', description: 'Cost basis method' },
+      },
+    },
+    response: walletResponseJsonSchema(walletPnlJsonSchema),
+  },
+  '/api/v1/wallet/:address/risk': {
+    params: walletParamsJsonSchema,
+    querystring: { type: 'object', properties: {} },
+    response: walletResponseJsonSchema(walletRiskJsonSchema),
+  },
+};
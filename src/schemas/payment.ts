@@ -33,12 +33,21 @@ export const paymentChallengeSchema = z.object({
   expiresAt: z.string().datetime(),
 });
 
+/** Depth pricing: requests beyond `included` units pay `stepPriceUSDC` per started `step` */
+export const depthPricingSchema = z.object({
+  param: z.string(),
+  included: z.number().int().positive(),
+  step: z.number().int().positive(),
+  stepPriceUSDC: z.number().positive(),
+});
+
 /** Endpoint pricing schema */
 export const endpointPricingSchema = z.object({
   path: z.string(),
   priceUSDC: z.number().positive(),
   currency: paymentCurrencySchema.optional(),
   description: z.string(),
+  depth: depthPricingSchema.optional(),
 });
 
 /** Helper to parse and validate payment proof from header */
@@ -62,4 +71,5 @@ export function encodePaymentChallenge(challenge: z.infer<typeof paymentChalleng
 /** Type exports */
 export type PaymentProof = z.infer<typeof paymentProofSchema>;
 export type PaymentChallenge = z.infer<typeof paymentChallengeSchema>;
+export type DepthPricing = z.infer<typeof depthPricingSchema>;
 export type EndpointPricing = z.infer<typeof endpointPricingSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+/** Discount percentage (a request always costs something) */
+const discountPercentSchema = z.number().positive().lt(100);
+
+/** Volume tier: payers who spent at least `minSpendUsdc` in the last 30 days get the discount */
+export const volumeTierSchema = z.object({
+  minSpendUsdc: z.number().nonnegative(),
+  discountPercent: discountPercentSchema,
+});
+
+/** Surge pricing: prices are multiplied while RPC latency is above the threshold */
+export const surgePricingSchema = z.object({
+  latencyThresholdMs: z.number().int().positive(),
+  multiplier: z.number().min(1).max(10),
+  sampleIntervalSeconds: z.number().int().positive().default(30),
+});
+
+/** Promotional pricing window, for all endpoints or the listed endpoint patterns */
+export const promotionSchema = z
+  .object({
+    name: z.string().min(1).max(64),
+    discountPercent: discountPercentSchema,
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+    endpoints: z.array(z.string()).optional(),
+  })
+  .refine((promotion) => Date.parse(promotion.startsAt) < Date.parse(promotion.endsAt), {
+    message: 'startsAt must be before endsAt',
+  });
+
+/** Dynamic pricing rules */
+export const pricingRulesSchema = z.object({
+  /** Base price overrides by endpoint pattern (e.g. `/api/v1/wallet/:address/overview`) */
+  basePrices: z.record(z.string(), z.number().positive()).default({}),
+  volumeTiers: z.array(volumeTierSchema).default([]),
+  surge: surgePricingSchema.optional(),
+  promotions: z.array(promotionSchema).default([]),
+});
+
+/** Type exports */
+export type VolumeTier = z.infer<typeof volumeTierSchema>;
+export type SurgePricing = z.infer<typeof surgePricingSchema>;
+export type Promotion = z.infer<typeof promotionSchema>;
+export type PricingRules = z.infer<typeof pricingRulesSchema>;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { config } from '../config/index.js';
+
+/** Solana transaction signature (base58, 64 bytes) */
+const transactionSignatureSchema = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{64,90}$/, 'Invalid transaction signature');
+
+/** Boolean query flag */
+const booleanQuerySchema = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+/** Activity query parameters */
+export const activityQuerySchema = z.object({
+  /** Transactions to scan */
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  /** Only scan transactions before this signature (pagination cursor) */
+  before: transactionSignatureSchema.optional(),
+});
+
+/** Portfolio query parameters */
+export const portfolioQuerySchema = z.object({
+  includeNfts: booleanQuerySchema.default('true'),
+  /** NFTs to fetch */
+  nftLimit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+/** Transaction history query parameters */
+export const transactionsQuerySchema = z.object({
+  /** Signatures to scan for this page */
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  /** Only scan transactions before this signature (pagination cursor) */
+  before: transactionSignatureSchema.optional(),
+  /** Only scan transactions after this signature */
+  until: transactionSignatureSchema.optional(),
+  /** Comma-separated transaction types (case-insensitive) */
+  type: z
+    .string()
+    .max(200)
+    .transform((value) => value.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean))
+    .optional(),
+  status: z.enum(['success', 'failed']).optional(),
+  /** Time range, Unix seconds (inclusive) */
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional(),
+});
+
+/** Seconds between the points of a portfolio history series */
+export const historyIntervalSeconds = { '1h': 3_600, '1d': 86_400, '1w': 604_800 } as const;
+
+/** Points in a portfolio history series when `from` is omitted */
+const DEFAULT_HISTORY_POINTS = 30;
+
+/**
+ * Portfolio history query parameters
+ * Resolved into a window of points on interval boundaries (UTC), ending at `to` (default now).
+ */
+export const historyQuerySchema = z
+  .object({
+    interval: z.enum(['1h', '1d', '1w']).default('1d'),
+    /** Time range, Unix seconds */
+    from: z.coerce.number().int().nonnegative().optional(),
+    to: z.coerce.number().int().nonnegative().optional(),
+  })
+  .transform((query, ctx) => {
+    const step = historyIntervalSeconds[query.interval];
+    const now = Math.floor(Date.now() / 1000);
+    const to = Math.floor(Math.min(query.to ?? now, now) / step) * step;
+    const from = query.from === undefined
+      ? to - step * (DEFAULT_HISTORY_POINTS - 1)
+      : Math.ceil(query.from / step) * step;
+
+    if (from > to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['from'], message: 'Must be before to' });
+      return z.NEVER;
+    }
+    if ((to - from) / step + 1 > config.history.maxPoints) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['from'],
+        message: `At most ${config.history.maxPoints} points per series, narrow the range or use a longer interval`,
+      });
+      return z.NEVER;
+    }
+
+    return { interval: query.interval, step, from, to };
+  });
+
+/** PnL query parameters */
+export const pnlQuerySchema = z.object({
+  /** Which lots a sale or transfer out consumes */
+  method: z.enum(['fifo', 'lifo', 'average']).default('fifo'),
+});
+
+/**
+ * Query parameters accepted by each paid wallet endpoint
+ * Endpoints without an entry take no query parameters.
+ */
+export const walletQuerySchemas: Record<string, z.AnyZodObject | z.ZodEffects<z.AnyZodObject>> = {
+  '/api/v1/wallet/:address/activity': activityQuerySchema,
+  '/api/v1/wallet/:address/portfolio': portfolioQuerySchema,
+  '/api/v1/wallet/:address/transactions': transactionsQuerySchema,
+  '/api/v1/wallet/:address/history': historyQuerySchema,
+  '/api/v1/wallet/:address/pnl': pnlQuerySchema,
+};
+
+/** Query parameter names a wallet endpoint accepts */
+export function queryParamNames(schema: z.AnyZodObject | z.ZodEffects<z.AnyZodObject>): string[] {
+  return Object.keys(schema instanceof z.ZodEffects ? schema.innerType().shape : schema.shape);
+}
+
+/** Type exports */
+export type ActivityQuery = z.infer<typeof activityQuerySchema>;
+export type PortfolioQuery = z.infer<typeof portfolioQuerySchema>;
+export type TransactionsQuery = z.infer<typeof transactionsQuerySchema>;
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+export type PnlQuery = z.infer<typeof pnlQuerySchema>;
+/** Portfolio history query as sent by clients */
+export type HistoryQueryInput = z.input<typeof historyQuerySchema>;
+/** Transaction history query as sent by clients (`type` still comma-separated) */
+export type TransactionsQueryInput = z.input<typeof transactionsQuerySchema>;
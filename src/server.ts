@@ -2,6 +2,7 @@ import { createApp } from './app.js';
 import { config } from './config/index.js';
 import { cacheService } from './services/cache.js';
 import { databaseService } from './services/database.js';
+import { jobWorkerPool } from './services/jobWorker.js';
 import { solanaService } from './services/solana.js';
 import { logger } from './utils/logger.js';
 
@@ -32,6 +33,9 @@ async function start() {
     logger.info(`💳 Payment Mode: ${config.payment.mode}`);
     logger.info(`⛓️  Solana Network: ${config.solana.network}\n`);
 
+    // Process async analytics jobs
+    jobWorkerPool.start();
+
     // Graceful shutdown
     let isShuttingDown = false;
     const shutdown = async (signal: string) => {
@@ -48,6 +52,10 @@ async function start() {
         await app.close();
         logger.info('✓ Stopped accepting new connections');
 
+        // Let running jobs finish
+        await jobWorkerPool.stop();
+        logger.info('✓ Stopped job workers');
+
         // Disconnect from services
         await Promise.all([
           cacheService.disconnect(),
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { getSubscriptionPlan } from '../config/plans.js';
+import { cacheService } from './cache.js';
+import { databaseService } from './database.js';
+import { logger } from '../utils/logger.js';
+
+/** How long authenticated keys are cached to avoid a database lookup per request */
+const API_KEY_CACHE_TTL_SECONDS = 60;
+
+/** An API key on a subscription plan */
+export interface ApiKey {
+  id: number;
+  name: string;
+  plan: string;
+  /** First characters of the key, for identifying it in logs and dashboards */
+  keyPrefix: string;
+  monthlyQuota: number;
+  rateLimitMax: number;
+  createdAt: string;
+}
+
+/** Usage of an API key in a billing period */
+export interface ApiKeyUsage {
+  /** Whether the request fits in the quota (and was counted) */
+  allowed: boolean;
+  /** Requests counted this period */
+  used: number;
+  quota: number;
+  /** Billing period (YYYY-MM, UTC) */
+  period: string;
+}
+
+/** Row shape of `api_keys` */
+interface ApiKeyRow {
+  id: number;
+  name: string;
+  plan: string;
+  key_prefix: string;
+  monthly_quota: number;
+  rate_limit_max: number;
+  created_at: Date;
+}
+
+/**
+ * API keys for subscription access
+ *
+ * Keys are only stored as SHA-256 hashes. Each key carries its own monthly quota and
+ * rate limit (defaulting to its plan's), and usage is metered per calendar month.
+ */
+export class ApiKeyService {
+  /** Whether API keys can be used (requires the database) */
+  get available(): boolean {
+    return databaseService.connected;
+  }
+
+  /**
+   * Issue a new API key
+   * @returns The stored key and the raw key, which is only available now
+   */
+  async createKey(options: {
+    name: string;
+    plan: string;
+    monthlyQuota?: number;
+    rateLimitMax?: number;
+  }): Promise<{ apiKey: ApiKey; key: string }> {
+    const plan = getSubscriptionPlan(options.plan);
+    const key = `wak_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const result = await databaseService.query<ApiKeyRow>(
+      `INSERT INTO api_keys (key_hash, key_prefix, name, plan, monthly_quota, rate_limit_max)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id, name, plan, key_prefix, monthly_quota, rate_limit_max, created_at`,
+      [
+        this.hashKey(key),
+        key.slice(0, 12),
+        options.name,
+        plan.name,
+        options.monthlyQuota ?? plan.monthlyQuota,
+        options.rateLimitMax ?? plan.rateLimitMax,
+      ]
+    );
+
+    const apiKey = this.toApiKey(result.rows[0] as ApiKeyRow);
+    logger.info({ apiKeyId: apiKey.id, name: apiKey.name, plan: apiKey.plan }, 'API key created');
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Look up an active API key
+   * @returns The key, or null if unknown or revoked
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const keyHash = this.hashKey(key);
+    const cacheKey = this.cacheKey(keyHash);
+
+    const cached = await cacheService.get<ApiKey>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await databaseService.query<ApiKeyRow>(
+      `SELECT id, name, plan, key_prefix, monthly_quota, rate_limit_max, created_at
+       FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL`,
+      [keyHash]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const apiKey = this.toApiKey(row);
+    await cacheService.set(cacheKey, apiKey, API_KEY_CACHE_TTL_SECONDS);
+
+    return apiKey;
+  }
+
+  /**
+   * Count a request against the key's monthly quota
+   * The counter is only incremented while it stays within the quota, so concurrent requests
+   * can't overshoot it.
+   * @param requests Requests to count (a batch counts every analysis it runs)
+   */
+  async recordUsage(apiKey: ApiKey, requests: number = 1): Promise<ApiKeyUsage> {
+    const period = this.currentPeriod();
+
+    const result = await databaseService.query<{ request_count: number }>(
+      `INSERT INTO api_key_usage (api_key_id, period, request_count)
+       SELECT $1, $2, $4 WHERE $4 <= $3
+       ON CONFLICT (api_key_id, period) DO UPDATE
+       SET request_count = api_key_usage.request_count + $4, updated_at = NOW()
+       WHERE api_key_usage.request_count + $4 <= $3
+       RETURNING request_count`,
+      [apiKey.id, period, apiKey.monthlyQuota, requests]
+    );
+
+    const row = result.rows[0];
+
+    return {
+      allowed: Boolean(row) && apiKey.monthlyQuota > 0,
+      used: row ? row.request_count : apiKey.monthlyQuota,
+      quota: apiKey.monthlyQuota,
+      period,
+    };
+  }
+
+  /**
+   * Give back a request counted against the quota (e.g. when it failed)
+   * @param apiKeyId Key the request was counted for
+   * @param period Billing period the request was counted in
+   * @param requests Requests the failed request was counted as
+   */
+  async refundUsage(apiKeyId: number, period: string, requests: number = 1): Promise<void> {
+    await databaseService.query(
+      `UPDATE api_key_usage
+       SET request_count = GREATEST(request_count - $3, 0), updated_at = NOW()
+       WHERE api_key_id = $1 AND period = $2`,
+      [apiKeyId, period, requests]
+    );
+  }
+
+  /** Get the usage of a key in a billing period (defaults to the current one) */
+  async getUsage(apiKey: ApiKey, period: string = this.currentPeriod()): Promise<ApiKeyUsage> {
+    const result = await databaseService.query<{ request_count: number }>(
+      'SELECT request_count FROM api_key_usage WHERE api_key_id = $1 AND period = $2',
+      [apiKey.id, period]
+    );
+
+    const used = result.rows[0]?.request_count ?? 0;
+
+    return {
+      allowed: used < apiKey.monthlyQuota,
+      used,
+      quota: apiKey.monthlyQuota,
+      period,
+    };
+  }
+
+  /**
+   * Revoke an API key
+   * @returns True if an active key was revoked
+   */
+  async revokeKey(id: number): Promise<boolean> {
+    const result = await databaseService.query<{ key_hash: string }>(
+      `UPDATE api_keys SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING key_hash`,
+      [id]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return false;
+    }
+
+    await cacheService.delete(this.cacheKey(row.key_hash));
+    logger.info({ apiKeyId: id }, 'API key revoked');
+
+    return true;
+  }
+
+  /** Current billing period (YYYY-MM, UTC) */
+  private currentPeriod(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private cacheKey(keyHash: string): string {
+    return `apikey:${keyHash}`;
+  }
+
+  private toApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      plan: row.plan,
+      keyPrefix: row.key_prefix,
+      monthlyQuota: row.monthly_quota,
+      rateLimitMax: row.rate_limit_max,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+}
+
+/** Singleton instance */
+export const apiKeyService = new ApiKeyService();
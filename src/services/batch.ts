@@ -0,0 +1,107 @@
+import { config } from '../config/index.js';
+import type { BatchRequest, WalletAnalysis } from '../schemas/batch.js';
+import type { WalletActivity, WalletOverview, WalletPortfolio, WalletRisk } from '../types/wallet.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { logger } from '../utils/logger.js';
+import { solanaService } from './solana.js';
+
+/** Path of the batch analytics route */
+export const BATCH_PATH = '/api/v1/wallets/batch';
+
+/** Paid route each analysis is priced as */
+export const walletAnalysisPaths: Record<WalletAnalysis, string> = {
+  overview: '/api/v1/wallet/:address/overview',
+  portfolio: '/api/v1/wallet/:address/portfolio',
+  activity: '/api/v1/wallet/:address/activity',
+  risk: '/api/v1/wallet/:address/risk',
+};
+
+/** Data returned by each analysis */
+export interface WalletAnalysisResults {
+  overview?: WalletOverview;
+  portfolio?: WalletPortfolio;
+  activity?: WalletActivity;
+  risk?: WalletRisk;
+}
+
+/** Results of one address in a batch */
+export interface BatchAddressResult {
+  address: string;
+  data: WalletAnalysisResults;
+  /** Analyses that failed, with the reason */
+  errors?: Partial<Record<WalletAnalysis, string>>;
+}
+
+/** Results of a batch, in request order */
+export interface BatchResult {
+  results: BatchAddressResult[];
+  /** Analyses run (addresses x analyses) */
+  analysisCount: number;
+  failedCount: number;
+}
+
+/** Run one analysis with the same defaults as its route */
+function runAnalysis(analysis: WalletAnalysis, address: string): Promise<WalletAnalysisResults[WalletAnalysis]> {
+  switch (analysis) {
+    case 'overview':
+      return solanaService.getWalletOverview(address);
+    case 'portfolio':
+      return solanaService.getWalletPortfolio(address);
+    case 'activity':
+      return solanaService.getWalletActivity(address);
+    case 'risk':
+      return solanaService.getWalletRisk(address);
+  }
+}
+
+/**
+ * Batch wallet analytics
+ *
+ * Runs every requested analysis for every address, with at most `BATCH_CONCURRENCY`
+ * Solana lookups in flight. A failed analysis is reported on its address instead of
+ * failing the batch.
+ */
+export class BatchService {
+  /** Analyses the batch runs, i.e. how many requests it is metered as */
+  countAnalyses(batch: BatchRequest): number {
+    return batch.addresses.length * batch.analyses.length;
+  }
+
+  async run(batch: BatchRequest): Promise<BatchResult> {
+    const tasks = batch.addresses.flatMap((address) => batch.analyses.map((analysis) => ({ address, analysis })));
+
+    const outcomes = await mapWithConcurrency(tasks, config.batch.concurrency, async ({ address, analysis }) => {
+      try {
+        return { data: await runAnalysis(analysis, address) };
+      } catch (error) {
+        logger.warn({ error, address, analysis }, 'Batch analysis failed');
+        return { error: `Failed to fetch wallet ${analysis}` };
+      }
+    });
+
+    const results = new Map<string, BatchAddressResult>(
+      batch.addresses.map((address) => [address, { address, data: {} }])
+    );
+    let failedCount = 0;
+
+    tasks.forEach(({ address, analysis }, index) => {
+      const result = results.get(address)!;
+      const outcome = outcomes[index]!;
+
+      if ('error' in outcome) {
+        result.errors = { ...result.errors, [analysis]: outcome.error };
+        failedCount++;
+      } else {
+        (result.data as Record<WalletAnalysis, unknown>)[analysis] = outcome.data;
+      }
+    });
+
+    return {
+      results: [...results.values()],
+      analysisCount: tasks.length,
+      failedCount,
+    };
+  }
+}
+
+export const batchService = new BatchService();
@@ -92,6 +92,21 @@ class CacheService {
     }
   }
 
+  /** Set value only if key does not exist yet (atomic claim). Returns true if the key was set */
+  async setIfNotExists(key: string, value: unknown, ttlSeconds: number): Promise<boolean> {
+    if (!this.client || !this.isConnected) {
+      return false;
+    }
+
+    try {
+      const result = await this.client.set(key, value, { nx: true, ex: ttlSeconds });
+      return result === 'OK';
+    } catch (error) {
+      logger.error({ error, key }, 'Cache setIfNotExists error');
+      return false;
+    }
+  }
+
   /** Check if key exists in cache */
   async exists(key: string): Promise<boolean> {
     if (!this.client || !this.isConnected) {
@@ -126,6 +141,11 @@ class CacheService {
     }
   }
 
+  /** Check if cache is connected */
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
   /** Get cache statistics */
   async getStats(): Promise<{ connected: boolean; keys?: number }> {
     if (!this.client || !this.isConnected) {
@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { apiKeyService } from './apiKeys.js';
+import { creditService } from './credits.js';
+import { databaseService } from './database.js';
+import { paymentLedger } from './paymentLedger.js';
+import { logger } from '../utils/logger.js';
+
+/** How a client was compensated for a paid request that failed */
+export type CompensationKind = 'retry_token' | 'credit_refund' | 'quota_refund';
+
+/** A paid request that failed after its payment was taken */
+export interface FailedPaidRequest {
+  /** Payment mode the request was paid with (`credits`, `subscription`, `retry` or an x402 mode) */
+  mode: string;
+  /** Payment signature for x402 payments and retries */
+  signature?: string;
+  /** Compensation whose retry token paid for the request (retries only) */
+  compensationId?: number;
+  creditAccountId?: number;
+  apiKeyId?: number;
+  /** Billing period the request was counted in, for subscription keys */
+  usagePeriod?: string;
+  /** Requests it was counted as against the quota (defaults to 1) */
+  usageRequests?: number;
+  endpoint: string;
+  /** Hash of the request body (see {@link hashRequestBody}), for requests priced from their body */
+  bodyHash?: string;
+  wallet: string | null;
+  amountUsdc: number;
+  requestId: string;
+  statusCode: number;
+}
+
+/** Compensation granted for a failed request */
+export interface Compensation {
+  id: number;
+  kind: CompensationKind;
+  /**
+   * One-time token to replay the request for free (new retry tokens only; a failed retry
+   * restores the token the client already holds)
+   */
+  retryToken?: string;
+  expiresAt?: string;
+  /** Balance after the refund (credit refunds only) */
+  creditBalance?: number;
+}
+
+/** A redeemed retry token */
+export interface RedeemedRetryToken {
+  id: number;
+  /** Signature of the payment the token was issued for */
+  signature: string;
+  wallet: string | null;
+  amountUsdc: number;
+}
+
+/**
+ * Hash a request body, so a retry token only replays the request it was issued for
+ * Batches and jobs are priced from their body under a fixed URL.
+ * @returns SHA-256 of the JSON body, or undefined for requests without a body
+ */
+export function hashRequestBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+
+  return crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+/**
+ * Compensation for paid requests that fail
+ *
+ * When a handler fails after the payment was taken, the failure is recorded and the client
+ * is compensated according to how it paid: credit payments are refunded to the account,
+ * subscription requests are given back to the quota, and on-chain payments receive a
+ * one-time retry token that replays the same request for free. Each payment gets at most
+ * one retry token; a retry that fails again restores it instead of issuing another. Only a
+ * SHA-256 hash of the retry token is stored.
+ */
+export class CompensationService {
+  /** Whether failures can be compensated (requires the database) */
+  get available(): boolean {
+    return databaseService.connected;
+  }
+
+  /**
+   * Record a failed paid request and compensate the client
+   * @returns The compensation, or null if it could not be recorded
+   */
+  async compensate(failed: FailedPaidRequest): Promise<Compensation | null> {
+    if (!this.available) {
+      logger.error({ ...failed }, 'Paid request failed but no database is available to compensate it');
+      return null;
+    }
+
+    try {
+      if (failed.mode === 'credits' && failed.creditAccountId !== undefined) {
+        const account = await creditService.refund(
+          failed.creditAccountId,
+          failed.amountUsdc,
+          failed.endpoint,
+          failed.requestId
+        );
+        const id = await this.record(failed, 'credit_refund', `credit-account:${failed.creditAccountId}`);
+
+        return id === null ? null : { id, kind: 'credit_refund', creditBalance: account?.balanceUsdc };
+      }
+
+      if (failed.mode === 'subscription' && failed.apiKeyId !== undefined && failed.usagePeriod) {
+        await apiKeyService.refundUsage(failed.apiKeyId, failed.usagePeriod, failed.usageRequests);
+        const id = await this.record(failed, 'quota_refund', `api-key:${failed.apiKeyId}`);
+
+        return id === null ? null : { id, kind: 'quota_refund' };
+      }
+
+      if (failed.mode === 'retry') {
+        return await this.restoreRetryToken(failed);
+      }
+
+      if (!failed.signature) {
+        logger.error({ ...failed }, 'Paid request failed without a payment reference to compensate');
+        return null;
+      }
+
+      if (await this.hasRetryToken(failed.signature)) {
+        logger.warn({ ...failed }, 'Payment was already compensated with a retry token');
+        return null;
+      }
+
+      const retryToken = `rt_${crypto.randomBytes(32).toString('base64url')}`;
+      const expiresAt = new Date(Date.now() + config.payment.retryTokenTtlSeconds * 1000);
+      const id = await this.record(failed, 'retry_token', failed.signature, {
+        tokenHash: this.hashToken(retryToken),
+        expiresAt,
+      });
+
+      // A concurrent failure of the same payment got the token first
+      if (id === null) {
+        logger.warn({ ...failed }, 'Payment was already compensated with a retry token');
+        return null;
+      }
+
+      await paymentLedger.recordFailure(failed.signature, {
+        statusCode: failed.statusCode,
+        compensation: 'retry_token',
+      });
+
+      return { id, kind: 'retry_token', retryToken, expiresAt: expiresAt.toISOString() };
+    } catch (error) {
+      logger.error({ error, ...failed }, 'Failed to compensate failed paid request');
+      return null;
+    }
+  }
+
+  /**
+   * Atomically redeem a retry token for the request it was issued for
+   * @param token Retry token
+   * @param resource Requested resource, which must match the failed request
+   * @param bodyHash Hash of the request body, which must match the failed request's
+   * @returns The redeemed token, or null if unknown, expired, used or for another request
+   */
+  async redeemRetryToken(token: string, resource: string, bodyHash?: string): Promise<RedeemedRetryToken | null> {
+    const result = await databaseService.query<{
+      id: number;
+      payment_reference: string;
+      wallet_address: string | null;
+      amount_usdc: string;
+    }>(
+      `UPDATE payment_compensations
+       SET status = 'redeemed', redeemed_at = NOW()
+       WHERE token_hash = $1 AND kind = 'retry_token' AND status = 'issued'
+         AND expires_at > NOW() AND endpoint = $2 AND body_hash IS NOT DISTINCT FROM $3
+       RETURNING id, payment_reference, wallet_address, amount_usdc`,
+      [this.hashToken(token), resource, bodyHash ?? null]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      signature: row.payment_reference,
+      wallet: row.wallet_address,
+      amountUsdc: parseFloat(row.amount_usdc),
+    };
+  }
+
+  /**
+   * Give back the retry token a failed retry was paid with, so the client can send it again
+   * @returns The compensation, or null if the token wasn't redeemed
+   */
+  private async restoreRetryToken(failed: FailedPaidRequest): Promise<Compensation | null> {
+    if (failed.compensationId === undefined) {
+      logger.error({ ...failed }, 'Retried request failed without the retry token it was paid with');
+      return null;
+    }
+
+    const result = await databaseService.query<{ id: number; expires_at: Date }>(
+      `UPDATE payment_compensations
+       SET status = 'issued', redeemed_at = NULL
+       WHERE id = $1 AND kind = 'retry_token' AND status = 'redeemed'
+       RETURNING id, expires_at`,
+      [failed.compensationId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    logger.warn({
+      compensationId: row.id,
+      endpoint: failed.endpoint,
+      statusCode: failed.statusCode,
+    }, '💸 Retried request failed, retry token restored');
+
+    return { id: row.id, kind: 'retry_token', expiresAt: new Date(row.expires_at).toISOString() };
+  }
+
+  /** Check a payment was already compensated with a retry token */
+  private async hasRetryToken(signature: string): Promise<boolean> {
+    const result = await databaseService.query(
+      `SELECT 1 FROM payment_compensations WHERE payment_reference = $1 AND kind = 'retry_token'`,
+      [signature]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Store a compensation record
+   * @returns Its ID, or null if it's a retry token for a payment that already has one
+   */
+  private async record(
+    failed: FailedPaidRequest,
+    kind: CompensationKind,
+    reference: string,
+    retryToken?: { tokenHash: string; expiresAt: Date }
+  ): Promise<number | null> {
+    const result = await databaseService.query<{ id: number }>(
+      `INSERT INTO payment_compensations
+       (kind, status, payment_reference, mode, endpoint, body_hash, wallet_address, amount_usdc,
+        request_id, status_code, token_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT DO NOTHING
+       RETURNING id`,
+      [
+        kind,
+        retryToken ? 'issued' : 'applied',
+        reference,
+        failed.mode,
+        failed.endpoint,
+        failed.bodyHash ?? null,
+        failed.wallet,
+        failed.amountUsdc,
+        failed.requestId,
+        failed.statusCode,
+        retryToken?.tokenHash ?? null,
+        retryToken?.expiresAt ?? null,
+      ]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    const id = row.id;
+
+    logger.warn({
+      compensationId: id,
+      kind,
+      mode: failed.mode,
+      endpoint: failed.endpoint,
+      wallet: failed.wallet,
+      amount: failed.amountUsdc,
+      statusCode: failed.statusCode,
+    }, '💸 Paid request failed, client compensated');
+
+    return id;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+/** Singleton instance */
+export const compensationService = new CompensationService();
@@ -0,0 +1,294 @@
+import crypto from 'crypto';
+import type pg from 'pg';
+import { databaseService } from './database.js';
+import { logger } from '../utils/logger.js';
+
+/** A prepaid credit account */
+export interface CreditAccount {
+  id: number;
+  wallet: string;
+  balanceUsdc: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A deposit, debit or refund against a credit account */
+export interface CreditTransaction {
+  id: number;
+  kind: 'deposit' | 'debit' | 'refund';
+  /** Signed amount (positive for deposits and refunds, negative for debits) */
+  amountUsdc: number;
+  balanceAfterUsdc: number;
+  /** Transaction signature for deposits, request ID for debits and refunds */
+  reference: string;
+  resource: string | null;
+  createdAt: string;
+}
+
+/** Result of crediting a deposit */
+export interface DepositResult {
+  account: CreditAccount;
+  /** Access token, only returned when the deposit opened a new account */
+  token?: string;
+}
+
+/** Result of debiting a request */
+export type DebitResult =
+  | { status: 'debited'; account: CreditAccount }
+  | { status: 'insufficient'; account: CreditAccount }
+  | { status: 'not_found' };
+
+/** Row shape of `credit_accounts` */
+interface CreditAccountRow {
+  id: number;
+  wallet_address: string;
+  balance_usdc: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Prepaid credit accounts
+ *
+ * A client funds an account with one on-chain deposit and receives an access token.
+ * Later requests send the token in `X-CREDIT-TOKEN` and are debited at the endpoint price
+ * instead of paying on-chain. Only a SHA-256 hash of the token is stored.
+ */
+export class CreditService {
+  /** Whether credit accounts can be used (requires the database) */
+  get available(): boolean {
+    return databaseService.connected;
+  }
+
+  /**
+   * Credit a verified deposit
+   * Tops up the account for `token` if given, otherwise opens a new account for the wallet.
+   * @param deposit Verified deposit details
+   * @returns Updated account, plus the access token for new accounts
+   */
+  async deposit(deposit: {
+    token?: string;
+    wallet: string;
+    amountUsdc: number;
+    signature: string;
+  }): Promise<DepositResult | null> {
+    return this.transaction(async (client) => {
+      let token: string | undefined;
+      let row: CreditAccountRow | undefined;
+
+      if (deposit.token) {
+        const result = await client.query<CreditAccountRow>(
+          `UPDATE credit_accounts
+           SET balance_usdc = balance_usdc + $1, updated_at = NOW()
+           WHERE token_hash = $2
+           RETURNING id, wallet_address, balance_usdc, created_at, updated_at`,
+          [deposit.amountUsdc, this.hashToken(deposit.token)]
+        );
+        row = result.rows[0];
+
+        if (!row) {
+          return null;
+        }
+      } else {
+        token = this.generateToken();
+        const result = await client.query<CreditAccountRow>(
+          `INSERT INTO credit_accounts (token_hash, wallet_address, balance_usdc)
+           VALUES ($1, $2, $3)
+           RETURNING id, wallet_address, balance_usdc, created_at, updated_at`,
+          [this.hashToken(token), deposit.wallet, deposit.amountUsdc]
+        );
+        row = result.rows[0] as CreditAccountRow;
+      }
+
+      const account = this.toAccount(row);
+
+      await client.query(
+        `INSERT INTO credit_transactions
+         (account_id, kind, amount_usdc, balance_after_usdc, reference)
+         VALUES ($1, 'deposit', $2, $3, $4)`,
+        [account.id, deposit.amountUsdc, account.balanceUsdc, deposit.signature]
+      );
+
+      logger.info({
+        accountId: account.id,
+        wallet: deposit.wallet,
+        amount: deposit.amountUsdc,
+        balance: account.balanceUsdc,
+        signature: deposit.signature,
+      }, '💰 Credit deposit recorded');
+
+      return { account, token };
+    });
+  }
+
+  /**
+   * Atomically debit a request from an account
+   * The balance is only decremented if it covers the full price.
+   * @param token Account access token
+   * @param amountUsdc Endpoint price
+   * @param resource Requested resource
+   * @param requestId Request being paid for
+   */
+  async debit(
+    token: string,
+    amountUsdc: number,
+    resource: string,
+    requestId: string
+  ): Promise<DebitResult> {
+    const tokenHash = this.hashToken(token);
+
+    return this.transaction(async (client) => {
+      const result = await client.query<CreditAccountRow>(
+        `UPDATE credit_accounts
+         SET balance_usdc = balance_usdc - $1, updated_at = NOW()
+         WHERE token_hash = $2 AND balance_usdc >= $1
+         RETURNING id, wallet_address, balance_usdc, created_at, updated_at`,
+        [amountUsdc, tokenHash]
+      );
+
+      const row = result.rows[0];
+      if (!row) {
+        const existing = await client.query<CreditAccountRow>(
+          `SELECT id, wallet_address, balance_usdc, created_at, updated_at
+           FROM credit_accounts WHERE token_hash = $1`,
+          [tokenHash]
+        );
+        const existingRow = existing.rows[0];
+
+        return existingRow
+          ? { status: 'insufficient' as const, account: this.toAccount(existingRow) }
+          : { status: 'not_found' as const };
+      }
+
+      const account = this.toAccount(row);
+
+      await client.query(
+        `INSERT INTO credit_transactions
+         (account_id, kind, amount_usdc, balance_after_usdc, reference, resource)
+         VALUES ($1, 'debit', $2, $3, $4, $5)`,
+        [account.id, -amountUsdc, account.balanceUsdc, requestId, resource]
+      );
+
+      return { status: 'debited' as const, account };
+    });
+  }
+
+  /**
+   * Refund a debited request that failed
+   * @param accountId Account that was debited
+   * @param amountUsdc Amount to give back
+   * @param resource Requested resource
+   * @param requestId Request that failed
+   */
+  async refund(
+    accountId: number,
+    amountUsdc: number,
+    resource: string,
+    requestId: string
+  ): Promise<CreditAccount | null> {
+    return this.transaction(async (client) => {
+      const result = await client.query<CreditAccountRow>(
+        `UPDATE credit_accounts
+         SET balance_usdc = balance_usdc + $1, updated_at = NOW()
+         WHERE id = $2
+         RETURNING id, wallet_address, balance_usdc, created_at, updated_at`,
+        [amountUsdc, accountId]
+      );
+
+      const row = result.rows[0];
+      if (!row) {
+        return null;
+      }
+
+      const account = this.toAccount(row);
+
+      await client.query(
+        `INSERT INTO credit_transactions
+         (account_id, kind, amount_usdc, balance_after_usdc, reference, resource)
+         VALUES ($1, 'refund', $2, $3, $4, $5)`,
+        [account.id, amountUsdc, account.balanceUsdc, requestId, resource]
+      );
+
+      return account;
+    });
+  }
+
+  /** Get the account for an access token */
+  async getAccount(token: string): Promise<CreditAccount | null> {
+    const result = await databaseService.query<CreditAccountRow>(
+      `SELECT id, wallet_address, balance_usdc, created_at, updated_at
+       FROM credit_accounts WHERE token_hash = $1`,
+      [this.hashToken(token)]
+    );
+
+    const row = result.rows[0];
+    return row ? this.toAccount(row) : null;
+  }
+
+  /** Get the most recent transactions of an account */
+  async getTransactions(accountId: number, limit = 20): Promise<CreditTransaction[]> {
+    const result = await databaseService.query<{
+      id: number;
+      kind: 'deposit' | 'debit' | 'refund';
+      amount_usdc: string;
+      balance_after_usdc: string;
+      reference: string;
+      resource: string | null;
+      created_at: Date;
+    }>(
+      `SELECT id, kind, amount_usdc, balance_after_usdc, reference, resource, created_at
+       FROM credit_transactions WHERE account_id = $1
+       ORDER BY id DESC LIMIT $2`,
+      [accountId, limit]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      amountUsdc: parseFloat(row.amount_usdc),
+      balanceAfterUsdc: parseFloat(row.balance_after_usdc),
+      reference: row.reference,
+      resource: row.resource,
+      createdAt: new Date(row.created_at).toISOString(),
+    }));
+  }
+
+  /** Run a callback inside a database transaction */
+  private async transaction<T>(callback: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await databaseService.getClient();
+
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error({ error }, 'Credit transaction failed');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private generateToken(): string {
+    return `cr_${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toAccount(row: CreditAccountRow): CreditAccount {
+    return {
+      id: row.id,
+      wallet: row.wallet_address,
+      balanceUsdc: parseFloat(row.balance_usdc),
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
+
+/** Singleton instance */
+export const creditService = new CreditService();
@@ -0,0 +1,209 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { OnChainVerificationResult } from './onChainVerification.js';
+import type { IssuedPaymentRequirement, X402Payment } from './x402.js';
+
+/** keccak256("Transfer(address,address,uint256)") */
+const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+/** Maximum age of transaction in seconds (5 minutes) */
+const MAX_TRANSACTION_AGE_SECONDS = 300;
+
+/** Receipt lookups are retried while the RPC node indexes the transaction */
+const MAX_RECEIPT_ATTEMPTS = 5;
+const RECEIPT_RETRY_DELAY_MS = 2000;
+
+/** Subset of an EVM log entry used for verification */
+export interface EvmLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+/** Subset of an EVM transaction receipt used for verification */
+interface EvmTransactionReceipt {
+  status: string;
+  from: string;
+  blockNumber: string;
+  logs: EvmLog[];
+}
+
+/**
+ * Call the configured EVM JSON-RPC endpoint
+ */
+async function evmRpc<T>(method: string, params: unknown[]): Promise<T> {
+  const rpcUrl = config.payment.evm.rpcUrl;
+  if (!rpcUrl) {
+    throw new Error('EVM RPC URL not configured');
+  }
+
+  const response = await fetch(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`EVM RPC ${method} returned ${response.status}: ${response.statusText}`);
+  }
+
+  const body = (await response.json()) as { result?: T; error?: { message: string } };
+  if (body.error) {
+    throw new Error(`EVM RPC ${method} error: ${body.error.message}`);
+  }
+
+  return body.result as T;
+}
+
+/** Address held in an indexed event topic */
+function topicAddress(topic: string | undefined): string {
+  return `0x${(topic || '').slice(-40)}`.toLowerCase();
+}
+
+/**
+ * Sum ERC-20 Transfer events of a token to a recipient
+ * @param logs Receipt logs
+ * @param token Token contract address
+ * @param recipient Recipient address
+ * @param sender Only count transfers from this address
+ * @returns Total amount in atomic units
+ */
+export function sumErc20Transfers(logs: EvmLog[], token: string, recipient: string, sender?: string): bigint {
+  const tokenAddress = token.toLowerCase();
+  const recipientAddress = recipient.toLowerCase();
+  const senderAddress = sender?.toLowerCase();
+
+  return logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === tokenAddress &&
+        log.topics[0] === ERC20_TRANSFER_TOPIC &&
+        topicAddress(log.topics[2]) === recipientAddress &&
+        (!senderAddress || topicAddress(log.topics[1]) === senderAddress)
+    )
+    .reduce((total, log) => total + BigInt(log.data), 0n);
+}
+
+/**
+ * Verify a USDC payment on an EVM network (Base)
+ *
+ * EVM transactions don't carry the challenge memo, so a payment is bound to its challenge
+ * by the claimed payer, who must have sent the transaction and the USDC, and by time: the
+ * transaction must land after the challenge was issued and before it expired. The
+ * consumed-signature ledger then keeps it from answering a second challenge.
+ *
+ * @param payment x402 payment payload with transaction hash in `signature`
+ * @param requirement Issued payment requirement to verify against
+ * @returns Verification result with details
+ */
+export async function verifyEvmPayment(
+  payment: X402Payment,
+  requirement: IssuedPaymentRequirement
+): Promise<OnChainVerificationResult> {
+  try {
+    const txHash = payment.payload.signature;
+
+    if (!txHash || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+      return {
+        isValid: false,
+        reason: 'Missing or malformed EVM transaction hash in payment payload',
+      };
+    }
+
+    const fromAddress = payment.payload.fromAddress;
+    if (!fromAddress || !/^0x[0-9a-fA-F]{40}$/.test(fromAddress)) {
+      return {
+        isValid: false,
+        reason: 'Missing or malformed payer address (fromAddress) in payment payload',
+      };
+    }
+
+    let receipt: EvmTransactionReceipt | null = null;
+    for (let attempt = 0; attempt < MAX_RECEIPT_ATTEMPTS && !receipt; attempt++) {
+      receipt = await evmRpc<EvmTransactionReceipt | null>('eth_getTransactionReceipt', [txHash]);
+      if (!receipt && attempt < MAX_RECEIPT_ATTEMPTS - 1) {
+        await new Promise((resolve) => setTimeout(resolve, RECEIPT_RETRY_DELAY_MS));
+      }
+    }
+
+    if (!receipt) {
+      return {
+        isValid: false,
+        reason: `Transaction receipt not found after ${MAX_RECEIPT_ATTEMPTS} attempts`,
+      };
+    }
+
+    if (receipt.status !== '0x1') {
+      return {
+        isValid: false,
+        reason: 'Transaction reverted on-chain',
+      };
+    }
+
+    const block = await evmRpc<{ timestamp: string } | null>('eth_getBlockByNumber', [
+      receipt.blockNumber,
+      false,
+    ]);
+    const blockTime = block ? parseInt(block.timestamp, 16) : 0;
+    const txAge = Math.floor(Date.now() / 1000) - blockTime;
+
+    if (!blockTime || txAge > MAX_TRANSACTION_AGE_SECONDS) {
+      return {
+        isValid: false,
+        reason: `Transaction too old: ${txAge}s (max: ${MAX_TRANSACTION_AGE_SECONDS}s)`,
+        timestamp: blockTime,
+      };
+    }
+
+    if (blockTime < requirement.issuedAt) {
+      return {
+        isValid: false,
+        reason: `Transaction confirmed before payment challenge was issued (${blockTime} < ${requirement.issuedAt})`,
+        timestamp: blockTime,
+      };
+    }
+
+    if (blockTime > requirement.expiresAt) {
+      return {
+        isValid: false,
+        reason: `Transaction confirmed after payment challenge expired (${blockTime} > ${requirement.expiresAt})`,
+        timestamp: blockTime,
+      };
+    }
+
+    if (fromAddress.toLowerCase() !== receipt.from.toLowerCase()) {
+      return {
+        isValid: false,
+        reason: `Sender address mismatch: ${fromAddress} did not send transaction`,
+        sender: receipt.from,
+      };
+    }
+
+    const paid = sumErc20Transfers(receipt.logs, requirement.asset, requirement.payTo, fromAddress);
+    const required = BigInt(requirement.maxAmountRequired);
+
+    if (paid < required) {
+      return {
+        isValid: false,
+        reason: `Insufficient payment: ${paid} < ${required} USDC atomic units to ${requirement.payTo}`,
+        amount: Number(paid),
+      };
+    }
+
+    return {
+      isValid: true,
+      txHash,
+      amount: Number(paid),
+      sender: receipt.from,
+      recipient: requirement.payTo,
+      timestamp: blockTime,
+      memo: requirement.memo,
+    };
+  } catch (error: unknown) {
+    logger.error({ error }, 'Error verifying EVM payment');
+    return {
+      isValid: false,
+      reason: `Verification error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { cacheService } from './cache.js';
+import { logger } from '../utils/logger.js';
+
+/** A paid response stored for replay */
+export interface StoredResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** Response headers that are replayed along with the body */
+const REPLAYED_HEADERS = ['content-type', 'x-payment-response', 'x-credit-balance'];
+
+/** Longest accepted Idempotency-Key */
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Replay of paid responses
+ *
+ * Responses to paid requests are cached for a short window under the X-PAYMENT header
+ * that paid for them and, when sent, the client's Idempotency-Key. A retry after a dropped
+ * connection gets the identical response without a second verification, settlement or
+ * debit. Idempotency keys are scoped to the credential that paid, so one client can't read
+ * another's responses by guessing its key.
+ */
+export class IdempotencyService {
+  /** Check an Idempotency-Key header value is usable */
+  isValidKey(idempotencyKey: string): boolean {
+    return idempotencyKey.length > 0 && idempotencyKey.length <= MAX_IDEMPOTENCY_KEY_LENGTH;
+  }
+
+  /**
+   * Cache keys a request's response is stored under
+   * @param options.resource Requested resource
+   * @param options.paymentHeader Raw X-PAYMENT header
+   * @param options.idempotencyKey Client Idempotency-Key
+   * @param options.scope Credential the Idempotency-Key is scoped to (API key, credit token or retry token)
+   */
+  keysFor(options: {
+    resource: string;
+    paymentHeader?: string;
+    idempotencyKey?: string;
+    scope?: string;
+  }): string[] {
+    const keys: string[] = [];
+
+    if (options.paymentHeader) {
+      keys.push(`idempotency:payment:${this.hash(options.paymentHeader)}:${options.resource}`);
+    }
+
+    if (options.idempotencyKey && options.scope) {
+      keys.push(`idempotency:key:${this.hash(`${options.scope}:${options.idempotencyKey}`)}:${options.resource}`);
+    }
+
+    return keys;
+  }
+
+  /** Get the first stored response for any of the keys */
+  async getResponse(keys: string[]): Promise<StoredResponse | null> {
+    for (const key of keys) {
+      const response = await cacheService.get<StoredResponse>(key);
+      if (response) {
+        return response;
+      }
+    }
+
+    return null;
+  }
+
+  /** Store a paid response under all of its keys */
+  async storeResponse(
+    keys: string[],
+    response: { statusCode: number; headers: Record<string, unknown>; body: string }
+  ): Promise<void> {
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+      const value = response.headers[name];
+      if (value !== undefined) {
+        headers[name] = String(value);
+      }
+    }
+
+    const stored: StoredResponse = { statusCode: response.statusCode, headers, body: response.body };
+
+    await Promise.all(
+      keys.map((key) => cacheService.set(key, stored, config.payment.idempotencyWindowSeconds))
+    );
+
+    logger.debug({ keys: keys.length, statusCode: response.statusCode }, 'Paid response stored for replay');
+  }
+
+  /** Hash a credential or header so it never appears in cache keys */
+  hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+  }
+}
+
+/** Singleton instance */
+export const idempotencyService = new IdempotencyService();
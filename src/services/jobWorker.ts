@@ -0,0 +1,130 @@
+import { config } from '../config/index.js';
+import { batchService } from './batch.js';
+import { compensationService } from './compensation.js';
+import { JOBS_PATH, jobService, type AnalyticsJob } from './jobs.js';
+import { webhookService } from './webhooks.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * In-process worker pool for async analytics jobs
+ *
+ * Each of the `JOBS_WORKERS` workers claims a due job, runs it, and polls every
+ * `JOBS_POLL_INTERVAL_MS` while the queue is empty. Failed jobs are retried with backoff;
+ * a job that fails for good is compensated like a failed paid request. Finished jobs are
+ * delivered to their webhook.
+ */
+export class JobWorkerPool {
+  private running = false;
+  private workers: Promise<void>[] = [];
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    if (!jobService.available || config.jobs.workers === 0) {
+      logger.warn({ workers: config.jobs.workers }, 'Job workers not started (no database or JOBS_WORKERS=0)');
+      return;
+    }
+
+    this.running = true;
+    this.workers = Array.from({ length: config.jobs.workers }, (_, index) => this.work(index));
+    logger.info({ workers: config.jobs.workers }, 'Job workers started');
+  }
+
+  /** Stop claiming jobs and wait for the ones in progress */
+  async stop(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.workers);
+    this.workers = [];
+  }
+
+  /** Run one job to completion (or to its next retry) */
+  async process(job: AnalyticsJob): Promise<AnalyticsJob> {
+    let finished: AnalyticsJob;
+
+    try {
+      const result = await batchService.run(job.request);
+
+      if (result.failedCount === result.analysisCount) {
+        throw new Error('Failed to fetch wallet data for every address in the job');
+      }
+
+      finished = await jobService.complete(job.id, result);
+      logger.info({ jobId: job.id, attempts: job.attempts }, 'Job succeeded');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      finished = await jobService.fail(job, message);
+
+      if (finished.status !== 'failed') {
+        logger.warn({ jobId: job.id, attempts: job.attempts, error: message }, 'Job failed, will retry');
+        return finished;
+      }
+
+      logger.error({ jobId: job.id, attempts: job.attempts, error: message }, 'Job failed for good');
+      finished = await this.compensate(finished);
+    }
+
+    if (finished.webhookUrl) {
+      await this.notify(finished);
+    }
+
+    return finished;
+  }
+
+  private async work(index: number): Promise<void> {
+    while (this.running) {
+      let job: AnalyticsJob | null = null;
+
+      try {
+        job = await jobService.claim();
+        if (job) {
+          await this.process(job);
+        }
+      } catch (error) {
+        logger.error({ error, worker: index, jobId: job?.id }, 'Job worker error');
+      }
+
+      if (!job && this.running) {
+        await new Promise((resolve) => setTimeout(resolve, config.jobs.pollIntervalMs));
+      }
+    }
+  }
+
+  /** Compensate the payment of a job that failed for good */
+  private async compensate(job: AnalyticsJob): Promise<AnalyticsJob> {
+    if (!job.payment) {
+      return job;
+    }
+
+    const compensation = await compensationService.compensate({
+      ...job.payment,
+      endpoint: JOBS_PATH,
+      requestId: job.id,
+      statusCode: 500,
+    });
+
+    if (!compensation) {
+      return job;
+    }
+
+    await jobService.setCompensation(job.id, compensation);
+    return { ...job, compensation };
+  }
+
+  private async notify(job: AnalyticsJob): Promise<void> {
+    if (!webhookService.available) {
+      logger.warn({ jobId: job.id }, 'Job has a webhook but JOBS_WEBHOOK_SECRET is not configured');
+      await jobService.recordWebhook(job.id, 'failed', 0);
+      return;
+    }
+
+    const delivery = await webhookService.deliver(job.webhookUrl!, job.id, jobService.toView(job));
+    await jobService.recordWebhook(job.id, delivery.delivered ? 'delivered' : 'failed', delivery.attempts);
+
+    if (!delivery.delivered) {
+      logger.error({ jobId: job.id, statusCode: delivery.statusCode }, 'Job webhook could not be delivered');
+    }
+  }
+}
+
+export const jobWorkerPool = new JobWorkerPool();
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import type { BatchRequest } from '../schemas/batch.js';
+import type { BatchResult } from './batch.js';
+import type { Compensation, FailedPaidRequest } from './compensation.js';
+import { databaseService } from './database.js';
+
+/** Path jobs are created at */
+export const JOBS_PATH = '/api/v1/jobs';
+
+/** Running jobs whose worker hasn't finished after this long are picked up again (10 minutes) */
+const STALE_JOB_SECONDS = 600;
+
+/** Delay before the first retry of a failed job, doubled on every further attempt */
+const RETRY_BASE_DELAY_SECONDS = 5;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type WebhookStatus = 'pending' | 'delivered' | 'failed';
+
+/** How a job was paid for, to compensate it if it fails for good */
+export type JobPayment = Omit<FailedPaidRequest, 'endpoint' | 'requestId' | 'statusCode'>;
+
+/** An async analytics job */
+export interface AnalyticsJob {
+  id: string;
+  status: JobStatus;
+  request: BatchRequest;
+  result: BatchResult | null;
+  /** Last failure, kept while the job is retried */
+  error: string | null;
+  attempts: number;
+  payment: JobPayment | null;
+  /** Granted when the job failed for good after being paid for */
+  compensation: Compensation | null;
+  webhookUrl: string | null;
+  webhookStatus: WebhookStatus | null;
+  webhookAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/** What clients see of a job (polling and webhooks) */
+export interface JobView {
+  id: string;
+  status: JobStatus;
+  attempts: number;
+  result?: BatchResult;
+  error?: string;
+  compensation?: Compensation;
+  webhookStatus?: WebhookStatus;
+  createdAt: string;
+  completedAt?: string;
+}
+
+/** Row shape of `analytics_jobs` */
+interface AnalyticsJobRow {
+  id: string;
+  status: JobStatus;
+  request: BatchRequest;
+  result: BatchResult | null;
+  error: string | null;
+  attempts: number;
+  payment: JobPayment | null;
+  compensation: Compensation | null;
+  webhook_url: string | null;
+  webhook_status: WebhookStatus | null;
+  webhook_attempts: number;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Async analytics jobs
+ *
+ * Paid analyses too slow for a request (large batches, deep risk scans) are stored in
+ * `analytics_jobs` and processed by the worker pool. Workers claim jobs with
+ * `FOR UPDATE SKIP LOCKED`, so several workers (or instances) never run the same job,
+ * and jobs left running by a crashed worker are picked up again.
+ */
+export class JobService {
+  /** Whether jobs can be used (requires the database) */
+  get available(): boolean {
+    return databaseService.connected;
+  }
+
+  /** Queue a job */
+  async create(job: { request: BatchRequest; webhookUrl?: string; payment?: JobPayment }): Promise<AnalyticsJob> {
+    const result = await databaseService.query<AnalyticsJobRow>(
+      `INSERT INTO analytics_jobs (id, status, request, payment, webhook_url, webhook_status)
+       VALUES ($1, 'queued', $2, $3, $4, $5)
+       RETURNING *`,
+      [
+        crypto.randomUUID(),
+        JSON.stringify(job.request),
+        job.payment ? JSON.stringify(job.payment) : null,
+        job.webhookUrl ?? null,
+        job.webhookUrl ? 'pending' : null,
+      ]
+    );
+
+    return this.toJob(result.rows[0]!);
+  }
+
+  async get(id: string): Promise<AnalyticsJob | null> {
+    if (!UUID_PATTERN.test(id)) {
+      return null;
+    }
+
+    const result = await databaseService.query<AnalyticsJobRow>('SELECT * FROM analytics_jobs WHERE id = $1', [id]);
+    const row = result.rows[0];
+
+    return row ? this.toJob(row) : null;
+  }
+
+  /** Claim the next due job for a worker, counting the attempt */
+  async claim(): Promise<AnalyticsJob | null> {
+    const result = await databaseService.query<AnalyticsJobRow>(
+      `UPDATE analytics_jobs
+       SET status = 'running', attempts = attempts + 1, locked_at = NOW(), updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM analytics_jobs
+         WHERE (status = 'queued' AND run_after <= NOW())
+            OR (status = 'running' AND locked_at < NOW() - make_interval(secs => $1))
+         ORDER BY run_after
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [STALE_JOB_SECONDS]
+    );
+    const row = result.rows[0];
+
+    return row ? this.toJob(row) : null;
+  }
+
+  async complete(id: string, result: BatchResult): Promise<AnalyticsJob> {
+    const updated = await databaseService.query<AnalyticsJobRow>(
+      `UPDATE analytics_jobs
+       SET status = 'succeeded', result = $2, error = NULL, locked_at = NULL,
+           completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, JSON.stringify(result)]
+    );
+
+    return this.toJob(updated.rows[0]!);
+  }
+
+  /**
+   * Record a failed attempt
+   * The job is queued again with exponential backoff until it has used `JOBS_MAX_ATTEMPTS`.
+   */
+  async fail(job: AnalyticsJob, error: string): Promise<AnalyticsJob> {
+    const retry = job.attempts < config.jobs.maxAttempts;
+    const delaySeconds = RETRY_BASE_DELAY_SECONDS * 2 ** (job.attempts - 1);
+
+    const updated = await databaseService.query<AnalyticsJobRow>(
+      `UPDATE analytics_jobs
+       SET status = $2, error = $3, locked_at = NULL, updated_at = NOW(),
+           run_after = NOW() + make_interval(secs => $4),
+           completed_at = CASE WHEN $2 = 'failed' THEN NOW() ELSE NULL END
+       WHERE id = $1
+       RETURNING *`,
+      [job.id, retry ? 'queued' : 'failed', error, retry ? delaySeconds : 0]
+    );
+
+    return this.toJob(updated.rows[0]!);
+  }
+
+  async setCompensation(id: string, compensation: Compensation): Promise<void> {
+    await databaseService.query(
+      'UPDATE analytics_jobs SET compensation = $2, updated_at = NOW() WHERE id = $1',
+      [id, JSON.stringify(compensation)]
+    );
+  }
+
+  async recordWebhook(id: string, status: WebhookStatus, attempts: number): Promise<void> {
+    await databaseService.query(
+      `UPDATE analytics_jobs
+       SET webhook_status = $2, webhook_attempts = webhook_attempts + $3, updated_at = NOW()
+       WHERE id = $1`,
+      [id, status, attempts]
+    );
+  }
+
+  /** Client view of a job */
+  toView(job: AnalyticsJob): JobView {
+    return {
+      id: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      result: job.result ?? undefined,
+      error: job.status === 'failed' ? job.error ?? undefined : undefined,
+      compensation: job.compensation ?? undefined,
+      webhookStatus: job.webhookStatus ?? undefined,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt ?? undefined,
+    };
+  }
+
+  private toJob(row: AnalyticsJobRow): AnalyticsJob {
+    return {
+      id: row.id,
+      status: row.status,
+      request: row.request,
+      result: row.result,
+      error: row.error,
+      attempts: row.attempts,
+      payment: row.payment,
+      compensation: row.compensation,
+      webhookUrl: row.webhook_url,
+      webhookStatus: row.webhook_status,
+      webhookAttempts: row.webhook_attempts,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString(),
+      completedAt: row.completed_at ? row.completed_at.toISOString() : null,
+    };
+  }
+}
+
+export const jobService = new JobService();
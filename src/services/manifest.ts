@@ -0,0 +1,110 @@
+import { config } from '../config/index.js';
+import { getPaymentAsset, getSolanaX402Network } from '../config/assets.js';
+import { endpointPricing } from '../config/pricing.js';
+import { walletRouteJsonSchemas, type JsonSchema } from '../schemas/jsonSchema.js';
+import type { PaymentCurrency, X402Network } from '../types/payment.js';
+import { PAYMENT_TIMEOUT_SECONDS } from './x402.js';
+
+/** An asset payments can be made in */
+export interface X402ManifestAsset {
+  network: X402Network;
+  currency: PaymentCurrency;
+  /** SPL token mint or EVM token contract */
+  asset: string;
+  decimals: number;
+  payTo: string;
+}
+
+/** A paid route */
+export interface X402ManifestResource {
+  /** Route pattern (`:address` is the wallet to analyze) */
+  resource: string;
+  method: 'GET';
+  description: string;
+  /** Base price before depth, surge, promotion and volume adjustments */
+  priceUSD: number;
+  /** Currencies the route can be paid in */
+  currencies: PaymentCurrency[];
+  depthPricing?: {
+    param: string;
+    included: number;
+    step: number;
+    stepPriceUSD: number;
+  };
+  maxTimeoutSeconds: number;
+  inputSchema: {
+    params: JsonSchema;
+    querystring: JsonSchema;
+  };
+  outputSchema: JsonSchema;
+}
+
+/** Machine-readable description of the paid API */
+export interface X402Manifest {
+  x402Version: number;
+  name: string;
+  description: string;
+  scheme: 'exact';
+  payTo: string;
+  maxTimeoutSeconds: number;
+  accepts: X402ManifestAsset[];
+  resources: X402ManifestResource[];
+  /** Ways to pay other than a per-request X-PAYMENT */
+  alternatives: Record<string, string>;
+}
+
+/**
+ * Build the x402 manifest from the endpoint pricing
+ * Prices are base prices: the 402 challenge of a request carries its final price.
+ */
+export function buildX402Manifest(): X402Manifest {
+  const payTo = config.payment.recipientAddress || '';
+  const network = getSolanaX402Network();
+  const accepts: X402ManifestAsset[] = [];
+
+  for (const currency of config.payment.acceptedCurrencies) {
+    const asset = getPaymentAsset(currency);
+    if (asset) {
+      accepts.push({ network, currency, asset: asset.mint, decimals: asset.decimals, payTo });
+    }
+  }
+
+  const resources = Object.values(endpointPricing).map((pricing): X402ManifestResource => {
+    const schemas = walletRouteJsonSchemas[pricing.path];
+
+    return {
+      resource: pricing.path,
+      method: 'GET',
+      description: pricing.description,
+      priceUSD: pricing.priceUSDC,
+      currencies: pricing.currency ? [pricing.currency] : [...config.payment.acceptedCurrencies],
+      depthPricing: pricing.depth && {
+        param: pricing.depth.param,
+        included: pricing.depth.included,
+        step: pricing.depth.step,
+        stepPriceUSD: pricing.depth.stepPriceUSDC,
+      },
+      maxTimeoutSeconds: PAYMENT_TIMEOUT_SECONDS,
+      inputSchema: {
+        params: schemas?.params ?? { type: 'object' },
+        querystring: schemas?.querystring ?? { type: 'object' },
+      },
+      outputSchema: schemas?.response ?? { type: 'object' },
+    };
+  });
+
+  return {
+    x402Version: 1,
+    name: 'Solana Wallet Analytics API',
+    description: 'Pay-per-use Solana wallet analytics with the x402 payment protocol',
+    scheme: 'exact',
+    payTo,
+    maxTimeoutSeconds: PAYMENT_TIMEOUT_SECONDS,
+    accepts,
+    resources,
+    alternatives: {
+      credits: 'Prepay with POST /api/v1/credits/deposit, then send X-CREDIT-TOKEN',
+      subscription: 'Send X-API-KEY to be metered against a monthly plan',
+    },
+  };
+}
@@ -1,9 +1,24 @@
-import { Connection, ParsedTransactionWithMeta } from '@solana/web3.js';
+import {
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
 import { config } from '../config/index.js';
-import type { X402Payment, X402PaymentRequirement } from './x402.js';
+import { getAssetByMint, getSolanaX402Network } from '../config/assets.js';
+import type { IssuedPaymentRequirement, X402Payment, X402PaymentRequirement } from './x402.js';
+import { logger } from '../utils/logger.js';
 
-/** USDC token mint address on Solana mainnet */
-const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+/** SPL Memo program IDs (v2 and legacy v1) */
+const MEMO_PROGRAM_IDS = [
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr',
+  'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo',
+];
+
+/** Parsed program names of the SPL Token and Token-2022 programs */
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
 
 /** Maximum age of transaction in seconds (5 minutes) */
 const MAX_TRANSACTION_AGE_SECONDS = 300;
@@ -17,6 +32,259 @@ export interface OnChainVerificationResult {
   sender?: string;
   recipient?: string;
   timestamp?: number;
+  memo?: string;
+}
+
+/** A qualifying token transfer found in a transaction */
+export interface TokenTransfer {
+  source: string;
+  destination: string;
+  authority: string;
+  amount: number; // Atomic units
+  mint?: string; // Only present on transferChecked
+}
+
+/**
+ * Collect top-level and inner (CPI) instructions of a transaction
+ * Inner instructions are included so payments routed through programs or smart wallets are seen.
+ * @param transaction Parsed transaction
+ * @returns All instructions in execution order
+ */
+export function collectInstructions(
+  transaction: ParsedTransactionWithMeta
+): Array<ParsedInstruction | PartiallyDecodedInstruction> {
+  const topLevel = transaction.transaction.message.instructions;
+  const innerByIndex = new Map(
+    (transaction.meta?.innerInstructions || []).map((inner) => [inner.index, inner.instructions])
+  );
+
+  return topLevel.flatMap((instruction, index) => [instruction, ...(innerByIndex.get(index) || [])]);
+}
+
+/**
+ * Extract SPL token transfers (transfer and transferChecked, Token and Token-2022) from a transaction
+ * @param transaction Parsed transaction
+ * @returns Transfers in execution order, including those made via CPI
+ */
+export function extractTokenTransfers(transaction: ParsedTransactionWithMeta): TokenTransfer[] {
+  const transfers: TokenTransfer[] = [];
+
+  for (const instruction of collectInstructions(transaction)) {
+    if (!('parsed' in instruction) || !TOKEN_PROGRAMS.includes(instruction.program)) {
+      continue;
+    }
+
+    const parsed = instruction.parsed;
+    if (parsed?.type !== 'transfer' && parsed?.type !== 'transferChecked') {
+      continue;
+    }
+
+    const info = parsed.info;
+    transfers.push({
+      source: info.source || '',
+      destination: info.destination || '',
+      authority: info.authority || info.multisigAuthority || '',
+      amount: parsed.type === 'transferChecked'
+        ? parseInt(info.tokenAmount?.amount || '0')
+        : parseInt(info.amount || '0'),
+      mint: info.mint,
+    });
+  }
+
+  return transfers;
+}
+
+/**
+ * Compute the net change of an owner's balance of a mint across the transaction
+ * @param transaction Parsed transaction
+ * @param owner Wallet that owns the token accounts
+ * @param mint Token mint
+ * @returns Net change in atomic units, or null if the transaction doesn't record the owner's balances
+ */
+export function computeNetTokenDelta(
+  transaction: ParsedTransactionWithMeta,
+  owner: string,
+  mint: string
+): number | null {
+  const pre = transaction.meta?.preTokenBalances;
+  const post = transaction.meta?.postTokenBalances;
+
+  if (!pre || !post) {
+    return null;
+  }
+
+  const owned = (balances: typeof pre) =>
+    balances.filter((b) => b.owner === owner && b.mint === mint);
+  const sum = (balances: typeof pre) =>
+    owned(balances).reduce((total, b) => total + parseInt(b.uiTokenAmount.amount || '0'), 0);
+
+  // Older transactions don't record token account owners
+  if (owned(post).length === 0) {
+    return null;
+  }
+
+  return sum(post) - sum(pre);
+}
+
+/**
+ * Sum native SOL (system program) transfers to a recipient
+ * @param transaction Parsed transaction
+ * @param recipient Recipient wallet address
+ * @returns Total lamports sent and the first sender
+ */
+export function sumNativeTransfers(
+  transaction: ParsedTransactionWithMeta,
+  recipient: string
+): { lamports: number; sender: string } {
+  let lamports = 0;
+  let sender = '';
+
+  for (const instruction of collectInstructions(transaction)) {
+    if (!('parsed' in instruction) || instruction.program !== 'system') {
+      continue;
+    }
+
+    const parsed = instruction.parsed;
+    if (parsed?.type !== 'transfer' && parsed?.type !== 'transferWithSeed') {
+      continue;
+    }
+
+    if (parsed.info.destination === recipient) {
+      lamports += Number(parsed.info.lamports || 0);
+      sender = sender || parsed.info.source || '';
+    }
+  }
+
+  return { lamports, sender };
+}
+
+/**
+ * Compute the net lamport change of an account across the transaction
+ * @param transaction Parsed transaction
+ * @param account Account address
+ * @returns Net change in lamports, or null if the account isn't in the transaction
+ */
+export function computeNetLamportDelta(
+  transaction: ParsedTransactionWithMeta,
+  account: string
+): number | null {
+  const accountIndex = transaction.transaction.message.accountKeys.findIndex(
+    (key) => key.pubkey.toBase58() === account
+  );
+  const pre = transaction.meta?.preBalances[accountIndex];
+  const post = transaction.meta?.postBalances[accountIndex];
+
+  if (accountIndex < 0 || pre === undefined || post === undefined) {
+    return null;
+  }
+
+  return post - pre;
+}
+
+/**
+ * Extract SPL Memo contents from a parsed transaction
+ * @param transaction Parsed transaction
+ * @returns Memo strings in instruction order
+ */
+export function extractMemos(transaction: ParsedTransactionWithMeta): string[] {
+  const memos: string[] = [];
+
+  for (const instruction of collectInstructions(transaction)) {
+    const programId = instruction.programId.toBase58();
+    if (!MEMO_PROGRAM_IDS.includes(programId)) {
+      continue;
+    }
+
+    if ('parsed' in instruction && typeof instruction.parsed === 'string') {
+      memos.push(instruction.parsed.trim());
+    }
+  }
+
+  return memos;
+}
+
+/** Owner wallet and mint of an SPL token account */
+export interface TokenAccountOwnership {
+  owner: string;
+  mint: string;
+}
+
+/**
+ * Resolve a token account's owner and mint from the transaction's token balances
+ * @param transaction Parsed transaction
+ * @param tokenAccount Token account address
+ * @returns Ownership, or null if the transaction doesn't record it
+ */
+export function resolveOwnerFromTokenBalances(
+  transaction: ParsedTransactionWithMeta,
+  tokenAccount: string
+): TokenAccountOwnership | null {
+  const accountIndex = transaction.transaction.message.accountKeys.findIndex(
+    (key) => key.pubkey.toBase58() === tokenAccount
+  );
+
+  if (accountIndex < 0) {
+    return null;
+  }
+
+  const balances = [
+    ...(transaction.meta?.postTokenBalances || []),
+    ...(transaction.meta?.preTokenBalances || []),
+  ];
+  const balance = balances.find((b) => b.accountIndex === accountIndex && b.owner);
+
+  return balance?.owner ? { owner: balance.owner, mint: balance.mint } : null;
+}
+
+/**
+ * Check a token account receives payments for the recipient
+ * The owner recorded on-chain decides, since an associated token account's owner can be
+ * reassigned with SetAuthority. The recipient's associated token account address is only
+ * trusted when no owner is recorded.
+ * @param tokenAccount Destination token account
+ * @param ownership Its resolved owner, or null if unknown
+ * @param recipient Recipient wallet address
+ * @param mint Token mint
+ */
+export function isRecipientTokenAccount(
+  tokenAccount: string,
+  ownership: TokenAccountOwnership | null,
+  recipient: string,
+  mint: string
+): boolean {
+  if (ownership) {
+    return ownership.owner === recipient;
+  }
+
+  return [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].some(
+    (programId) =>
+      getAssociatedTokenAddressSync(new PublicKey(mint), new PublicKey(recipient), true, programId).toBase58() ===
+      tokenAccount
+  );
+}
+
+/**
+ * Resolve a token account's owner and mint
+ * Uses the transaction's token balances first, then falls back to fetching the account
+ */
+async function resolveTokenAccountOwner(
+  connection: Connection,
+  transaction: ParsedTransactionWithMeta,
+  tokenAccount: string
+): Promise<TokenAccountOwnership | null> {
+  const fromBalances = resolveOwnerFromTokenBalances(transaction, tokenAccount);
+  if (fromBalances) {
+    return fromBalances;
+  }
+
+  const accountInfo = await connection.getParsedAccountInfo(new PublicKey(tokenAccount));
+  const data = accountInfo.value?.data;
+
+  if (data && 'parsed' in data && data.parsed?.info?.owner) {
+    return { owner: data.parsed.info.owner, mint: data.parsed.info.mint };
+  }
+
+  return null;
 }
 
 /**
@@ -36,14 +304,16 @@ function getConnection(): Connection {
 }
 
 /**
- * Verify USDC payment on Solana blockchain
+ * Verify payment (USDC, USDT or SOL) on Solana blockchain
  *
  * This function:
  * 1. Decodes the transaction signature from the payment payload
  * 2. Fetches the transaction from Solana blockchain
  * 3. Verifies the transaction is confirmed
- * 4. Validates it's a SPL token transfer (USDC)
- * 5. Checks amount, recipient, sender, and recency
+ * 4. Sums transfers of the required asset (SPL token or native SOL) to the recipient,
+ *    including top-level and inner instructions
+ * 5. Checks net amount, recipient, sender, and recency
+ * 6. Checks the transaction carries the challenge memo (and landed before the challenge expired)
  *
  * @param payment x402 payment payload with transaction signature
  * @param requirement Payment requirement to verify against
@@ -51,7 +321,7 @@ function getConnection(): Connection {
  */
 export async function verifyOnChainPayment(
   payment: X402Payment,
-  requirement: X402PaymentRequirement
+  requirement: X402PaymentRequirement | IssuedPaymentRequirement
 ): Promise<OnChainVerificationResult> {
   try {
     // Extract transaction signature from payment payload
@@ -149,56 +419,129 @@ export async function verifyOnChainPayment(
       };
     }
 
-    // Parse SPL token transfer from transaction
-    const instructions = transaction.transaction.message.instructions;
-    let foundTransfer = false;
+    // The payment must have landed before the challenge it answers expired
+    if ('expiresAt' in requirement && blockTime > requirement.expiresAt) {
+      return {
+        isValid: false,
+        reason: `Transaction confirmed after payment challenge expired (${blockTime} > ${requirement.expiresAt})`,
+        timestamp: blockTime,
+      };
+    }
+
+    // Verify the transaction carries the memo of the challenge being answered
+    const memos = extractMemos(transaction);
+    if (!memos.includes(requirement.memo)) {
+      return {
+        isValid: false,
+        reason: memos.length > 0
+          ? `Memo mismatch: expected ${requirement.memo}, got ${memos.join(', ')}`
+          : `Missing memo: transaction must include memo ${requirement.memo}`,
+        timestamp: blockTime,
+      };
+    }
+
+    const recipientPubkey = requirement.payTo;
+    if (!recipientPubkey) {
+      return {
+        isValid: false,
+        reason: 'Payment recipient address is not configured',
+      };
+    }
+
+    const asset = getAssetByMint(requirement.asset);
+    if (!asset) {
+      return {
+        isValid: false,
+        reason: `Unsupported payment asset: ${requirement.asset}`,
+      };
+    }
+
     let transferAmount = 0;
-    let transferRecipient = '';
     let transferSender = '';
-    let transferMint = '';
 
-    // Look for SPL token transfer instruction
-    for (const instruction of instructions) {
-      if ('parsed' in instruction && instruction.program === 'spl-token') {
-        const parsed = instruction.parsed;
+    if (asset.native) {
+      // Native SOL: sum system transfers to the recipient wallet
+      const native = sumNativeTransfers(transaction, recipientPubkey);
+      transferAmount = native.lamports;
+      transferSender = native.sender;
+
+      if (transferAmount === 0) {
+        return {
+          isValid: false,
+          reason: `No SOL transfer to ${recipientPubkey} found in transaction`,
+        };
+      }
+
+      // Cap at the recipient's net balance change so funds moved back out don't count
+      const netAmount = computeNetLamportDelta(transaction, recipientPubkey);
+      if (netAmount !== null && netAmount < transferAmount) {
+        transferAmount = Math.max(netAmount, 0);
+      }
+    } else {
+      // Collect every SPL token transfer, including those made via CPI
+      const transfers = extractTokenTransfers(transaction);
+
+      if (transfers.length === 0) {
+        return {
+          isValid: false,
+          reason: 'No SPL token transfer found in transaction',
+        };
+      }
 
-        if (parsed.type === 'transfer' || parsed.type === 'transferChecked') {
-          const info = parsed.info;
+      // Sum the transfers of the required mint whose destination is owned by the recipient
+      const ownershipCache = new Map<string, TokenAccountOwnership | null>();
+      let otherRecipients: string[] = [];
 
-          // Extract transfer details
-          transferAmount = parsed.type === 'transferChecked'
-            ? parseInt(info.tokenAmount?.amount || '0')
-            : parseInt(info.amount || '0');
+      for (const transfer of transfers) {
+        if (!ownershipCache.has(transfer.destination)) {
+          ownershipCache.set(
+            transfer.destination,
+            await resolveTokenAccountOwner(connection, transaction, transfer.destination)
+          );
+        }
 
-          transferSender = info.source || info.authority || '';
-          transferRecipient = info.destination || '';
-          transferMint = info.mint || '';
+        const destination = ownershipCache.get(transfer.destination) ?? null;
 
-          foundTransfer = true;
+        // `transfer` instructions don't carry the mint, so take it from the destination account
+        // (without one, only the recipient's associated token account for the asset can match)
+        const mint = transfer.mint || destination?.mint || asset.mint;
+        if (mint !== asset.mint) {
+          continue;
+        }
 
-          console.log('Found SPL token transfer:', {
-            amount: transferAmount,
-            sender: transferSender,
-            recipient: transferRecipient,
-            mint: transferMint,
-          });
+        if (!isRecipientTokenAccount(transfer.destination, destination, recipientPubkey, mint)) {
+          if (destination) {
+            otherRecipients.push(destination.owner);
+          }
+          continue;
         }
+
+        transferAmount += transfer.amount;
+        transferSender = transferSender || transfer.authority || transfer.source;
+
+        logger.debug({
+          currency: asset.currency,
+          amount: transfer.amount,
+          sender: transfer.authority || transfer.source,
+          destination: transfer.destination,
+        }, 'Found qualifying token transfer');
       }
-    }
 
-    if (!foundTransfer) {
-      return {
-        isValid: false,
-        reason: 'No SPL token transfer found in transaction',
-      };
-    }
+      if (transferAmount === 0) {
+        otherRecipients = [...new Set(otherRecipients)];
+        return {
+          isValid: false,
+          reason: otherRecipients.length > 0
+            ? `Wrong recipient: ${asset.currency} was sent to ${otherRecipients.join(', ')}, expected ${recipientPubkey}`
+            : `No ${asset.currency} (${asset.mint}) transfer to ${recipientPubkey} found in transaction`,
+        };
+      }
 
-    // Verify it's a USDC transfer
-    if (transferMint && transferMint !== USDC_MINT) {
-      return {
-        isValid: false,
-        reason: `Wrong token mint: expected USDC (${USDC_MINT}), got ${transferMint}`,
-      };
+      // Cap at the recipient's net balance change so funds moved back out don't count
+      const netAmount = computeNetTokenDelta(transaction, recipientPubkey, asset.mint);
+      if (netAmount !== null && netAmount < transferAmount) {
+        transferAmount = Math.max(netAmount, 0);
+      }
     }
 
     // Verify amount matches requirement
@@ -206,16 +549,11 @@ export async function verifyOnChainPayment(
     if (transferAmount < requiredAmount) {
       return {
         isValid: false,
-        reason: `Insufficient payment: ${transferAmount} < ${requiredAmount} (${transferAmount / 1_000_000} USDC vs ${requiredAmount / 1_000_000} USDC required)`,
+        reason: `Insufficient payment: ${transferAmount} < ${requiredAmount} (${transferAmount / 10 ** asset.decimals} ${asset.currency} vs ${requiredAmount / 10 ** asset.decimals} ${asset.currency} required)`,
         amount: transferAmount,
       };
     }
 
-    // Get the actual recipient token account owner
-    // We need to check if the transfer recipient is the correct token account
-    // For now, we'll check if the transaction involves the correct recipient address
-    const recipientPubkey = requirement.payTo;
-
     // Verify sender matches claimed address
     if (fromAddress) {
       // The sender's wallet should be one of the signers
@@ -236,7 +574,8 @@ export async function verifyOnChainPayment(
     console.log('✅ Payment verification successful:', {
       txHash: decodedSignature,
       amount: transferAmount,
-      amountUSDC: transferAmount / 1_000_000,
+      currency: asset.currency,
+      uiAmount: transferAmount / 10 ** asset.decimals,
       sender: fromAddress,
       age: txAge,
     });
@@ -245,9 +584,10 @@ export async function verifyOnChainPayment(
       isValid: true,
       txHash: decodedSignature,
       amount: transferAmount,
-      sender: fromAddress,
+      sender: fromAddress || transferSender,
       recipient: recipientPubkey,
       timestamp: blockTime,
+      memo: requirement.memo,
     };
 
   } catch (error: any) {
@@ -283,6 +623,6 @@ export async function settleOnChainPayment(
   return {
     success: true,
     txHash: verificationResult.txHash || '',
-    networkId: 'solana-mainnet',
+    networkId: getSolanaX402Network(),
   };
 }
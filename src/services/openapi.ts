@@ -0,0 +1,166 @@
+import { endpointPricing } from '../config/pricing.js';
+import {
+  errorJsonSchema,
+  nftJsonSchema,
+  portfolioHistoryJsonSchema,
+  tokenAccountJsonSchema,
+  transactionEventJsonSchema,
+  transactionHistoryJsonSchema,
+  transactionJsonSchema,
+  walletActivityJsonSchema,
+  walletOverviewJsonSchema,
+  walletPnlJsonSchema,
+  walletPortfolioJsonSchema,
+  walletResponseJsonSchema,
+  walletRiskJsonSchema,
+  walletRouteJsonSchemas,
+  x402PaymentRequiredJsonSchema,
+  x402PaymentRequirementJsonSchema,
+  type JsonSchema,
+} from '../schemas/jsonSchema.js';
+
+/** Loose OpenAPI document object */
+export type OpenApiDocument = Record<string, unknown>;
+
+/** Component name of the analytics data returned by each paid route */
+const walletDataComponents: Record<string, string> = {
+  '/api/v1/wallet/:address/overview': 'WalletOverview',
+  '/api/v1/wallet/:address/portfolio': 'WalletPortfolio',
+  '/api/v1/wallet/:address/activity': 'WalletActivity',
+  '/api/v1/wallet/:address/transactions': 'TransactionHistory',
+  '/api/v1/wallet/:address/history': 'PortfolioHistory',
+  '/api/v1/wallet/:address/pnl': 'WalletPnl',
+  '/api/v1/wallet/:address/risk': 'WalletRisk',
+};
+
+/** Reference a schema in `components.schemas` */
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/** JSON response of the given schema */
+function jsonResponse(description: string, schema: JsonSchema): Record<string, unknown> {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+/** Turn an object JSON Schema into OpenAPI parameters */
+function toParameters(schema: JsonSchema, location: 'path' | 'query'): Record<string, unknown>[] {
+  const properties = (schema['properties'] ?? {}) as Record<string, JsonSchema>;
+  const required = (schema['required'] ?? []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      ...(description !== undefined && { description }),
+      schema: propertySchema,
+    };
+  });
+}
+
+/** `/api/v1/wallet/:address/overview` -> `/api/v1/wallet/{address}/overview` */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Build the OpenAPI 3.1 document of the paid wallet routes
+ * Generated from the same JSON Schemas the routes validate and serialize with.
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  const paths: Record<string, unknown> = {};
+
+  for (const pricing of Object.values(endpointPricing)) {
+    const schemas = walletRouteJsonSchemas[pricing.path];
+    const dataComponent = walletDataComponents[pricing.path];
+    if (!schemas || !dataComponent) {
+      continue;
+    }
+
+    const depth = pricing.depth
+      ? ` plus ${pricing.depth.stepPriceUSDC} USDC per ${pricing.depth.step} ${pricing.depth.param} beyond ${pricing.depth.included}`
+      : '';
+
+    paths[toOpenApiPath(pricing.path)] = {
+      get: {
+        operationId: `getWallet${dataComponent.replace(/^Wallet/, '')}`,
+        summary: pricing.description,
+        description: `Costs ${pricing.priceUSDC} USDC${depth}. Without a payment the route answers 402 with the payment requirements.`,
+        tags: ['Wallet'],
+        parameters: [...toParameters(schemas.params, 'path'), ...toParameters(schemas.querystring, 'query')],
+        security: [{ x402Payment: [] }, { creditToken: [] }, { apiKey: [] }],
+        'x-x402': {
+          priceUSD: pricing.priceUSDC,
+          ...(pricing.depth && { depthPricing: pricing.depth }),
+        },
+        responses: {
+          '200': {
+            ...jsonResponse('Analytics data', walletResponseJsonSchema(ref(dataComponent))),
+            headers: {
+              'X-PAYMENT-RESPONSE': {
+                description: 'Base64 JSON settlement receipt of an X-PAYMENT',
+                schema: { type: 'string' },
+              },
+            },
+          },
+          '400': jsonResponse('Invalid wallet address or query parameters', ref('Error')),
+          '402': jsonResponse('Payment required', ref('X402PaymentRequired')),
+          '403': jsonResponse('Payment rejected', ref('Error')),
+          '429': jsonResponse('Rate limit or quota exceeded', ref('Error')),
+          '500': jsonResponse('Failed to fetch wallet data', ref('Error')),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Solana Wallet Analytics API',
+      version: '1.0.0',
+      description: 'Pay-per-use Solana wallet analytics with the x402 payment protocol',
+    },
+    tags: [{ name: 'Wallet', description: 'Paid wallet analytics' }],
+    paths,
+    components: {
+      schemas: {
+        TokenAccount: tokenAccountJsonSchema,
+        NFT: nftJsonSchema,
+        TransactionEvent: transactionEventJsonSchema,
+        Transaction: transactionJsonSchema,
+        WalletOverview: walletOverviewJsonSchema,
+        WalletPortfolio: walletPortfolioJsonSchema,
+        WalletActivity: walletActivityJsonSchema,
+        TransactionHistory: transactionHistoryJsonSchema,
+        PortfolioHistory: portfolioHistoryJsonSchema,
+        WalletPnl: walletPnlJsonSchema,
+        WalletRisk: walletRiskJsonSchema,
+        X402PaymentRequirement: x402PaymentRequirementJsonSchema,
+        X402PaymentRequired: x402PaymentRequiredJsonSchema,
+        Error: errorJsonSchema,
+      },
+      securitySchemes: {
+        x402Payment: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-PAYMENT',
+          description: 'Base64 JSON x402 payment payload answering a 402 challenge',
+        },
+        creditToken: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-CREDIT-TOKEN',
+          description: 'Prepaid credit account token',
+        },
+        apiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-KEY',
+          description: 'Subscription API key',
+        },
+      },
+    },
+  };
+}
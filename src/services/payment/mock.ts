@@ -1,113 +1,80 @@
-import type { PaymentProof } from '../../schemas/payment.js';
-import type { ValidatedPayment } from '../../types/payment.js';
+import type { PaymentProvider, PaymentRequest, ProviderSettlement, ProviderVerification } from './provider.js';
+import {
+  createPaymentRequiredResponse,
+  type IssuedPaymentRequirement,
+  type X402Payment,
+  type X402PaymentRequired,
+} from '../x402.js';
 import { logger } from '../../utils/logger.js';
 
-/** Mock payment validator for development and testing */
-export class MockPaymentValidator {
+/** Mock payment provider for development and testing */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly mode = 'mock' as const;
+  readonly strict = false;
+
+  async describeRequirements(request: PaymentRequest): Promise<X402PaymentRequired> {
+    return createPaymentRequiredResponse(request.resource, request.priceUSD, request.currencies, request.pricing);
+  }
+
   /**
-   * Validate a payment proof in mock mode
-   * In mock mode, we accept any properly formatted proof without blockchain verification
+   * Verify a payment in mock mode
+   * In mock mode, we accept any properly formatted payment without blockchain verification
    */
-  async validatePayment(
-    proof: PaymentProof,
-    expectedAmount: number,
-    endpoint: string
-  ): Promise<ValidatedPayment> {
+  async verify(
+    payment: X402Payment,
+    request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null
+  ): Promise<ProviderVerification> {
     logger.info({
-      nonce: proof.nonce,
-      wallet: proof.wallet,
-      amount: proof.amount,
-      expectedAmount,
-      endpoint,
+      memo: payment.payload.memo,
+      wallet: payment.payload.fromAddress,
+      resource: request.resource,
+      price: request.priceUSD,
     }, '🧪 Mock payment validation');
 
-    // Validate proof structure (already done by Zod schema)
-    // In mock mode, we just check basic requirements
-
-    // Check amount matches (allow small variance for fees)
-    const amountDifference = Math.abs(proof.amount - expectedAmount);
-    if (amountDifference > 0.001) {
-      return {
-        valid: false,
-        proof,
-        wallet: proof.wallet,
-        amount: proof.amount,
-        currency: proof.currency,
-        endpoint,
-        verifiedAt: new Date(),
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000), // 5 minutes
-        error: `Amount mismatch: expected ${expectedAmount}, got ${proof.amount}`,
-      };
-    }
-
-    // Check timestamp is recent (within 5 minutes)
-    const proofTimestamp = new Date(proof.timestamp);
-    const now = new Date();
-    const ageMinutes = (now.getTime() - proofTimestamp.getTime()) / 1000 / 60;
-
-    if (ageMinutes > 5) {
-      return {
-        valid: false,
-        proof,
-        wallet: proof.wallet,
-        amount: proof.amount,
-        currency: proof.currency,
-        endpoint,
-        verifiedAt: now,
-        expiresAt: new Date(now.getTime() + 5 * 60 * 1000),
-        error: `Payment proof expired (${ageMinutes.toFixed(1)} minutes old)`,
-      };
-    }
-
     // In mock mode, accept any signature that's not empty
-    if (!proof.signature || proof.signature.length < 10) {
-      return {
-        valid: false,
-        proof,
-        wallet: proof.wallet,
-        amount: proof.amount,
-        currency: proof.currency,
-        endpoint,
-        verifiedAt: now,
-        expiresAt: new Date(now.getTime() + 5 * 60 * 1000),
-        error: 'Invalid signature format',
-      };
+    const signature = payment.payload.signature;
+    if (!signature || signature.length < 10) {
+      return { isValid: false, reason: 'Invalid signature format' };
     }
 
-    // Mock validation passed
-    logger.info({
-      nonce: proof.nonce,
-      wallet: proof.wallet,
-    }, '✅ Mock payment validated successfully');
-
     return {
-      valid: true,
-      proof,
-      wallet: proof.wallet,
-      amount: proof.amount,
-      currency: proof.currency,
-      endpoint,
-      verifiedAt: now,
-      expiresAt: new Date(now.getTime() + 5 * 60 * 1000),
+      isValid: true,
+      wallet: payment.payload.fromAddress || 'mock-wallet',
+      networkId: requirement?.network,
     };
   }
 
   /**
-   * Generate a mock payment proof for testing
+   * Mock payments are never settled
+   */
+  async settle(
+    _payment: X402Payment,
+    _request: PaymentRequest,
+    _requirement: IssuedPaymentRequirement | null,
+    verification: ProviderVerification
+  ): Promise<ProviderSettlement> {
+    return { success: true, networkId: verification.networkId };
+  }
+
+  /**
+   * Generate a mock x402 payment for testing
+   * @param wallet Paying wallet address
+   * @param memo Memo of the challenge the payment answers, if any
    */
-  static generateMockProof(amount: number, wallet: string = 'MockWallet123'): PaymentProof {
+  static generateMockPayment(wallet: string = 'MockWallet123', memo?: string): X402Payment {
     return {
-      protocol: 'x402',
-      nonce: `mock-nonce-${Date.now()}-${Math.random().toString(36).substring(7)}`,
-      signature: `mock-signature-${Math.random().toString(36).substring(2)}`,
-      wallet,
-      amount,
-      currency: 'USDC',
-      network: 'solana',
-      timestamp: new Date().toISOString(),
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'solana-mainnet',
+      payload: {
+        signature: `mock-signature-${Math.random().toString(36).substring(2)}`,
+        fromAddress: wallet,
+        memo,
+      },
     };
   }
 }
 
 /** Singleton instance */
-export const mockPaymentValidator = new MockPaymentValidator();
+export const mockPaymentProvider = new MockPaymentProvider();
@@ -0,0 +1,72 @@
+import type { PaymentProvider, PaymentRequest, ProviderSettlement, ProviderVerification } from './provider.js';
+import { getPaymentVerifier } from '../paymentVerifiers.js';
+import {
+  createPaymentRequiredResponse,
+  type IssuedPaymentRequirement,
+  type X402Payment,
+  type X402PaymentRequired,
+} from '../x402.js';
+import { logger } from '../../utils/logger.js';
+
+/** Direct on-chain payment provider (Solana, plus Base when configured) */
+export class OnChainPaymentProvider implements PaymentProvider {
+  readonly mode = 'onchain' as const;
+  readonly strict = true;
+
+  async describeRequirements(request: PaymentRequest): Promise<X402PaymentRequired> {
+    return createPaymentRequiredResponse(request.resource, request.priceUSD, request.currencies, request.pricing);
+  }
+
+  /**
+   * Verify the transaction on the network of the challenge the client answered
+   */
+  async verify(
+    payment: X402Payment,
+    request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null
+  ): Promise<ProviderVerification> {
+    if (!requirement) {
+      return { isValid: false, reason: 'Payment must answer an issued payment challenge' };
+    }
+
+    const verifier = getPaymentVerifier(requirement.network);
+    if (!verifier) {
+      return { isValid: false, reason: `Payments on ${requirement.network} are not supported` };
+    }
+
+    logger.info({
+      resource: request.resource,
+      network: requirement.network,
+      verifier: verifier.name,
+    }, 'Verifying payment on-chain');
+
+    const result = await verifier.verify(payment, requirement);
+
+    return {
+      isValid: result.isValid,
+      reason: result.reason,
+      wallet: result.sender || payment.payload.fromAddress,
+      txHash: result.txHash,
+      networkId: requirement.network,
+    };
+  }
+
+  /**
+   * On-chain payments are final once confirmed, so settlement just echoes the transaction
+   */
+  async settle(
+    _payment: X402Payment,
+    _request: PaymentRequest,
+    _requirement: IssuedPaymentRequirement | null,
+    verification: ProviderVerification
+  ): Promise<ProviderSettlement> {
+    return {
+      success: true,
+      txHash: verification.txHash,
+      networkId: verification.networkId,
+    };
+  }
+}
+
+/** Singleton instance */
+export const onChainPaymentProvider = new OnChainPaymentProvider();
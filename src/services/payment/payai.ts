@@ -1,6 +1,12 @@
 import { config } from '../../config/index.js';
-import type { PaymentProof } from '../../schemas/payment.js';
-import type { ValidatedPayment } from '../../types/payment.js';
+import type { PaymentProvider, PaymentRequest, ProviderSettlement, ProviderVerification } from './provider.js';
+import {
+  createPaymentRequiredResponse,
+  type IssuedPaymentRequirement,
+  type X402Payment,
+  type X402PaymentRequired,
+  type X402PaymentRequirement,
+} from '../x402.js';
 import { logger } from '../../utils/logger.js';
 
 /** PayAI facilitator API response schemas */
@@ -16,275 +22,149 @@ interface SettleResponse {
   networkId: string | null;
 }
 
-/** PayAI payment requirements for x402 protocol */
-interface PaymentRequirements {
-  scheme: 'solana-transfer' | 'evm-transfer';
-  network: string;
-  maxAmountRequired: string; // Amount in atomic units (lamports for Solana, wei for EVM)
-  asset: string; // Token mint address (Solana) or contract address (EVM)
-  payTo: string; // Recipient wallet address
-  extra?: Record<string, unknown>;
-}
-
-/** PayAI payment validator for production/test modes */
-export class PayAIPaymentValidator {
+/** PayAI facilitator payment provider for production/test modes */
+export class PayAIPaymentProvider implements PaymentProvider {
+  readonly mode: 'test' | 'payai';
+  readonly strict = true;
   private readonly facilitatorUrl: string;
   private readonly x402Version = 1;
 
-  constructor(facilitatorUrl?: string) {
+  constructor(mode: 'test' | 'payai' = 'payai', facilitatorUrl?: string) {
+    this.mode = mode;
     this.facilitatorUrl = facilitatorUrl || config.payment.facilitatorUrl || 'https://facilitator.payai.network';
   }
 
+  async describeRequirements(request: PaymentRequest): Promise<X402PaymentRequired> {
+    return createPaymentRequiredResponse(request.resource, request.priceUSD, request.currencies, request.pricing);
+  }
+
   /**
-   * Validate a payment proof using PayAI facilitator
+   * Verify a payment using the PayAI facilitator
    */
-  async validatePayment(
-    proof: PaymentProof,
-    expectedAmount: number,
-    endpoint: string
-  ): Promise<ValidatedPayment> {
+  async verify(
+    payment: X402Payment,
+    request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null
+  ): Promise<ProviderVerification> {
+    if (!requirement) {
+      return { isValid: false, reason: 'Payment must answer an issued payment challenge' };
+    }
+
     logger.info({
-      nonce: proof.nonce,
-      wallet: proof.wallet,
-      amount: proof.amount,
-      expectedAmount,
-      endpoint,
+      memo: requirement.memo,
+      wallet: payment.payload.fromAddress,
+      resource: request.resource,
       facilitator: this.facilitatorUrl,
     }, '🌐 Validating payment with PayAI facilitator');
 
     try {
-      // Convert payment proof to x402 payment header format
-      const paymentHeader = this.encodePaymentHeader(proof);
-
-      // Create payment requirements
-      const paymentRequirements = this.createPaymentRequirements(
-        proof,
-        expectedAmount
-      );
-
-      // Call PayAI /verify endpoint
-      const verifyResponse = await this.callVerifyEndpoint(
-        paymentHeader,
-        paymentRequirements
-      );
+      const verifyResponse = await this.callFacilitator<VerifyResponse>('verify', payment, requirement);
 
       if (!verifyResponse.isValid) {
-        logger.warn({
-          nonce: proof.nonce,
-          reason: verifyResponse.invalidReason,
-        }, 'Payment verification failed');
-
         return {
-          valid: false,
-          proof,
-          wallet: proof.wallet,
-          amount: proof.amount,
-          currency: proof.currency,
-          endpoint,
-          verifiedAt: new Date(),
-          expiresAt: new Date(Date.now() + 5 * 60 * 1000),
-          error: verifyResponse.invalidReason || 'Payment verification failed',
+          isValid: false,
+          reason: verifyResponse.invalidReason || 'Payment verification failed',
         };
       }
 
-      // Payment is valid, now settle it on-chain
-      const settleResponse = await this.callSettleEndpoint(
-        paymentHeader,
-        paymentRequirements
-      );
+      return {
+        isValid: true,
+        wallet: payment.payload.fromAddress,
+        networkId: requirement.network,
+      };
+    } catch (error) {
+      logger.error({ error, memo: requirement.memo }, 'PayAI facilitator error');
+
+      return {
+        isValid: false,
+        reason: `Facilitator error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Settle a verified payment on-chain through the PayAI facilitator
+   */
+  async settle(
+    payment: X402Payment,
+    _request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null,
+    verification: ProviderVerification
+  ): Promise<ProviderSettlement> {
+    if (!requirement) {
+      return { success: false, error: 'Payment must answer an issued payment challenge' };
+    }
+
+    try {
+      const settleResponse = await this.callFacilitator<SettleResponse>('settle', payment, requirement);
 
       if (!settleResponse.success) {
         logger.error({
-          nonce: proof.nonce,
+          memo: requirement.memo,
           error: settleResponse.error,
         }, 'Payment settlement failed');
 
-        return {
-          valid: false,
-          proof,
-          wallet: proof.wallet,
-          amount: proof.amount,
-          currency: proof.currency,
-          endpoint,
-          verifiedAt: new Date(),
-          expiresAt: new Date(Date.now() + 5 * 60 * 1000),
-          error: settleResponse.error || 'Payment settlement failed',
-        };
+        return { success: false, error: settleResponse.error || 'Payment settlement failed' };
       }
 
-      // Payment validated and settled successfully
       logger.info({
-        nonce: proof.nonce,
-        wallet: proof.wallet,
+        memo: requirement.memo,
+        wallet: verification.wallet,
         txHash: settleResponse.txHash,
         networkId: settleResponse.networkId,
-      }, '✅ Payment validated and settled on-chain');
+      }, '✅ Payment settled on-chain');
 
       return {
-        valid: true,
-        proof,
-        wallet: proof.wallet,
-        amount: proof.amount,
-        currency: proof.currency,
-        endpoint,
-        verifiedAt: new Date(),
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
-        transactionHash: settleResponse.txHash || undefined,
-        networkId: settleResponse.networkId || undefined,
+        success: true,
+        txHash: settleResponse.txHash || undefined,
+        networkId: settleResponse.networkId || requirement.network,
       };
     } catch (error) {
-      logger.error({
-        error,
-        nonce: proof.nonce,
-      }, 'PayAI facilitator error');
+      logger.error({ error, memo: requirement.memo }, 'PayAI facilitator error');
 
       return {
-        valid: false,
-        proof,
-        wallet: proof.wallet,
-        amount: proof.amount,
-        currency: proof.currency,
-        endpoint,
-        verifiedAt: new Date(),
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+        success: false,
         error: `Facilitator error: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
 
   /**
-   * Encode payment proof as base64 payment header
-   */
-  private encodePaymentHeader(proof: PaymentProof): string {
-    const headerData = {
-      protocol: proof.protocol,
-      nonce: proof.nonce,
-      signature: proof.signature,
-      wallet: proof.wallet,
-      amount: proof.amount,
-      currency: proof.currency,
-      network: proof.network,
-      timestamp: proof.timestamp,
-      facilitatorSignature: proof.facilitatorSignature,
-      metadata: proof.metadata,
-    };
-
-    return Buffer.from(JSON.stringify(headerData)).toString('base64');
-  }
-
-  /**
-   * Create payment requirements for facilitator
-   */
-  private createPaymentRequirements(
-    proof: PaymentProof,
-    expectedAmount: number
-  ): PaymentRequirements {
-    // Convert USDC amount to atomic units (6 decimals for USDC)
-    const atomicAmount = Math.floor(expectedAmount * 1_000_000).toString();
-
-    if (proof.network === 'solana') {
-      return {
-        scheme: 'solana-transfer',
-        network: config.payment.mode === 'test' ? 'solana-devnet' : 'solana-mainnet',
-        maxAmountRequired: atomicAmount,
-        asset: this.getSolanaUSDCMint(),
-        payTo: config.payment.recipientAddress || proof.wallet,
-        extra: {
-          tokenProgram: 'Token2022', // or 'TokenProgram' for SPL
-        },
-      };
-    }
-
-    // EVM networks (Base, Polygon, etc.)
-    return {
-      scheme: 'evm-transfer',
-      network: proof.network,
-      maxAmountRequired: atomicAmount,
-      asset: this.getEVMUSDCContract(proof.network),
-      payTo: config.payment.recipientAddress || proof.wallet,
-    };
-  }
-
-  /**
-   * Get Solana USDC mint address based on network
-   */
-  private getSolanaUSDCMint(): string {
-    // Devnet USDC mint
-    if (config.payment.mode === 'test') {
-      return '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'; // USDC devnet
-    }
-
-    // Mainnet USDC mint (Circle's official USDC)
-    return 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
-  }
-
-  /**
-   * Get EVM USDC contract address based on network
+   * Call a PayAI facilitator endpoint (/verify or /settle)
    */
-  private getEVMUSDCContract(network: string): string {
-    const contracts: Record<string, string> = {
-      base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base mainnet USDC
-      'base-sepolia': '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia USDC
-      polygon: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', // Polygon mainnet USDC
-      'polygon-amoy': '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582', // Polygon Amoy testnet
-      ethereum: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // Ethereum mainnet USDC
-    };
-
-    return contracts[network] || contracts['base'] || ''; // Default to Base
-  }
-
-  /**
-   * Call PayAI facilitator /verify endpoint
-   */
-  private async callVerifyEndpoint(
-    paymentHeader: string,
-    paymentRequirements: PaymentRequirements
-  ): Promise<VerifyResponse> {
-    const response = await fetch(`${this.facilitatorUrl}/verify`, {
+  private async callFacilitator<T>(
+    endpoint: 'verify' | 'settle',
+    payment: X402Payment,
+    requirement: IssuedPaymentRequirement
+  ): Promise<T> {
+    const response = await fetch(`${this.facilitatorUrl}/${endpoint}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         x402Version: this.x402Version,
-        paymentHeader,
-        paymentRequirements,
+        paymentHeader: Buffer.from(JSON.stringify(payment)).toString('base64'),
+        paymentRequirements: this.toPaymentRequirements(requirement),
       }),
     });
 
     if (!response.ok) {
-      throw new Error(`Facilitator /verify returned ${response.status}: ${response.statusText}`);
+      throw new Error(`Facilitator /${endpoint} returned ${response.status}: ${response.statusText}`);
     }
 
-    return (await response.json()) as VerifyResponse;
+    return (await response.json()) as T;
   }
 
   /**
-   * Call PayAI facilitator /settle endpoint
+   * Strip the bookkeeping fields from an issued requirement before sending it to the facilitator
    */
-  private async callSettleEndpoint(
-    paymentHeader: string,
-    paymentRequirements: PaymentRequirements
-  ): Promise<SettleResponse> {
-    const response = await fetch(`${this.facilitatorUrl}/settle`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        x402Version: this.x402Version,
-        paymentHeader,
-        paymentRequirements,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Facilitator /settle returned ${response.status}: ${response.statusText}`);
-    }
-
-    return (await response.json()) as SettleResponse;
+  private toPaymentRequirements(requirement: IssuedPaymentRequirement): X402PaymentRequirement {
+    const { priceUSD: _priceUSD, issuedAt: _issuedAt, expiresAt: _expiresAt, ...paymentRequirements } = requirement;
+    return paymentRequirements;
   }
 }
 
-/** Singleton instance */
-export const payAIPaymentValidator = new PayAIPaymentValidator();
+/** Singleton instances (test mode uses the facilitator on devnet) */
+export const payAIPaymentProvider = new PayAIPaymentProvider('payai');
+export const testPaymentProvider = new PayAIPaymentProvider('test');
@@ -0,0 +1,68 @@
+import type { PaymentCurrency, PaymentMode } from '../../types/payment.js';
+import type { PriceQuote } from '../pricing.js';
+import type { IssuedPaymentRequirement, X402Payment, X402PaymentRequired } from '../x402.js';
+
+/** The paid request a payment is being made for */
+export interface PaymentRequest {
+  /** Requested resource (request URL) */
+  resource: string;
+  /** Price in USD */
+  priceUSD: number;
+  /** How the price was computed by the pricing engine */
+  pricing?: PriceQuote;
+  /** Currencies the resource can be paid in */
+  currencies: readonly PaymentCurrency[];
+  /** Fastify request ID the payment will be bound to */
+  requestId: string;
+  /** Address of the client paying; only it may reuse the verification while the request runs */
+  client?: string;
+}
+
+/** Result of verifying a payment with a provider */
+export interface ProviderVerification {
+  isValid: boolean;
+  reason?: string;
+  /** Wallet that paid */
+  wallet?: string;
+  /** Transaction hash or signature identifying the payment */
+  txHash?: string;
+  networkId?: string;
+}
+
+/** Result of settling a verified payment */
+export interface ProviderSettlement {
+  success: boolean;
+  error?: string;
+  txHash?: string;
+  networkId?: string;
+}
+
+/**
+ * A way of taking x402 payments (mock, direct on-chain, PayAI facilitator)
+ *
+ * Providers only talk to their payment rail. Challenge binding, replay protection,
+ * storage and caching are handled for every provider by `PaymentValidator`.
+ */
+export interface PaymentProvider {
+  readonly mode: PaymentMode;
+  /**
+   * Whether payments must answer an issued challenge and be recorded in the ledger.
+   * Non-strict providers (mock) degrade gracefully when Redis or Postgres are unavailable.
+   */
+  readonly strict: boolean;
+  /** Build the 402 response describing how to pay for a request */
+  describeRequirements(request: PaymentRequest): Promise<X402PaymentRequired>;
+  /** Verify a payment against the challenge it answers */
+  verify(
+    payment: X402Payment,
+    request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null
+  ): Promise<ProviderVerification>;
+  /** Settle a verified payment (no-op for payments already final on-chain) */
+  settle(
+    payment: X402Payment,
+    request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null,
+    verification: ProviderVerification
+  ): Promise<ProviderSettlement>;
+}
@@ -1,193 +1,317 @@
-import crypto from 'crypto';
 import { config } from '../../config/index.js';
-import type { PaymentProof, PaymentChallenge } from '../../schemas/payment.js';
-import type { ValidatedPayment } from '../../types/payment.js';
+import type { PaymentMode, ValidatedPayment } from '../../types/payment.js';
 import { cacheService } from '../cache.js';
-import { databaseService } from '../database.js';
-import { mockPaymentValidator } from './mock.js';
-import { payAIPaymentValidator } from './payai.js';
+import { paymentLedger } from '../paymentLedger.js';
+import { settlementService } from '../settlements.js';
+import {
+  consumeIssuedRequirement,
+  getIssuedRequirement,
+  type IssuedPaymentRequirement,
+  type X402Payment,
+  type X402PaymentRequired,
+} from '../x402.js';
+import { mockPaymentProvider } from './mock.js';
+import { onChainPaymentProvider } from './onchain.js';
+import { payAIPaymentProvider, testPaymentProvider } from './payai.js';
+import type { PaymentProvider, PaymentRequest } from './provider.js';
 import { logger } from '../../utils/logger.js';
 
-/** Payment validator service */
-export class PaymentValidator {
-  /** Generate a unique nonce for payment challenge */
-  generateNonce(): string {
-    return `nonce-${Date.now()}-${crypto.randomBytes(16).toString('hex')}`;
+/**
+ * Get the payment provider for a payment mode
+ */
+export function createPaymentProvider(mode: PaymentMode = config.payment.mode): PaymentProvider {
+  switch (mode) {
+    case 'mock':
+      return mockPaymentProvider;
+
+    case 'onchain':
+      return onChainPaymentProvider;
+
+    case 'test':
+      // Test mode uses PayAI facilitator on devnet
+      return testPaymentProvider;
+
+    case 'payai':
+      // Production mode uses PayAI facilitator on mainnet
+      return payAIPaymentProvider;
+
+    default:
+      throw new Error(`Unknown payment mode: ${mode as string}`);
   }
+}
 
-  /** Create a payment challenge for an endpoint */
-  async createChallenge(endpoint: string, amount: number): Promise<PaymentChallenge> {
-    const nonce = this.generateNonce();
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + 5 * 60 * 1000); // 5 minutes
-
-    const challenge: PaymentChallenge = {
-      protocol: 'x402',
-      amount,
-      currency: 'USDC',
-      network: 'solana',
-      address: config.payment.facilitatorUrl || 'PayAI-Facilitator',
-      nonce,
-      facilitatorUrl: config.payment.facilitatorUrl,
-      timestamp: now.toISOString(),
-      expiresAt: expiresAt.toISOString(),
-    };
+/**
+ * Payment validator service
+ *
+ * Runs the same flow for every payment mode: challenges (nonces) are issued and bound
+ * through their memo, signatures are recorded in the payment ledger so they can only be
+ * redeemed once, and validated payments are cached. Only verification and settlement are
+ * delegated to the mode's `PaymentProvider`.
+ */
+export class PaymentValidator {
+  constructor(private readonly provider: PaymentProvider = createPaymentProvider()) {}
+
+  /** Active payment mode */
+  get mode(): PaymentMode {
+    return this.provider.mode;
+  }
 
-    // Store nonce in cache with TTL to prevent replay attacks
-    await cacheService.set(`payment:nonce:${nonce}`, {
-      created: now.toISOString(),
-      endpoint,
-      amount,
-    }, 300); // 5 minutes TTL (matches payment expiry)
+  /** Create the x402 payment challenge for a request */
+  async createChallenge(request: PaymentRequest): Promise<X402PaymentRequired> {
+    const challenge = await this.provider.describeRequirements(request);
 
-    logger.debug({ nonce, endpoint, amount }, 'Payment challenge created');
+    logger.debug({
+      resource: request.resource,
+      price: request.priceUSD,
+      memos: challenge.accepts.map((requirement) => requirement.memo),
+    }, 'Payment challenge created');
 
     return challenge;
   }
 
-  /** Validate a payment proof */
-  async validatePayment(
-    proof: PaymentProof,
-    expectedAmount: number,
-    endpoint: string
-  ): Promise<ValidatedPayment> {
-    const nonceKey = `payment:nonce:${proof.nonce}`;
-
-    // In mock mode, skip nonce validation from cache (for testing without Redis)
-    // In production modes, always validate nonce from cache
-    if (config.payment.mode !== 'mock') {
-      // Check if nonce has been used before (replay protection)
-      const nonceData = await cacheService.get<{ created: string; endpoint: string; amount: number }>(nonceKey);
-
-      if (!nonceData) {
-        logger.warn({ nonce: proof.nonce }, 'Payment proof with unknown or expired nonce');
-        return {
-          valid: false,
-          proof,
-          wallet: proof.wallet,
-          amount: proof.amount,
-          currency: proof.currency,
-          endpoint,
-          verifiedAt: new Date(),
-          expiresAt: new Date(Date.now() + 5 * 60 * 1000),
-          error: 'Invalid or expired nonce',
-        };
-      }
-    }
+  /** Validate an x402 payment for a request */
+  async validatePayment(payment: X402Payment, request: PaymentRequest): Promise<ValidatedPayment> {
+    const { signature, memo } = payment.payload;
 
-    // Check if payment has already been used (from database)
-    const existingPayment = await this.getPaymentByNonce(proof.nonce);
-    if (existingPayment) {
-      logger.warn({ nonce: proof.nonce }, 'Attempted replay attack - nonce already used');
-      return {
-        valid: false,
-        proof,
-        wallet: proof.wallet,
-        amount: proof.amount,
-        currency: proof.currency,
-        endpoint,
-        verifiedAt: new Date(),
-        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
-        error: 'Payment proof already used (replay attack prevented)',
-      };
+    if (!signature) {
+      return this.rejected(payment, request, null, 'Payment payload is missing a transaction signature');
     }
 
-    // Route to appropriate validator based on payment mode
-    let validation: ValidatedPayment;
+    // Reject signatures that already unlocked a request before calling the provider
+    const alreadyConsumed = await paymentLedger.getConsumed(signature);
+    if (alreadyConsumed) {
+      logger.warn({
+        signature,
+        resource: request.resource,
+        consumedFor: alreadyConsumed.resource,
+      }, 'Attempted replay attack - payment already used');
 
-    switch (config.payment.mode) {
-      case 'mock':
-        validation = await mockPaymentValidator.validatePayment(proof, expectedAmount, endpoint);
-        break;
+      return this.rejected(
+        payment,
+        request,
+        null,
+        `Payment already used: transaction ${signature} was redeemed for ${alreadyConsumed.resource} at ${alreadyConsumed.consumedAt} (replay attack prevented)`
+      );
+    }
 
-      case 'test':
-        // Test mode uses PayAI facilitator on devnet
-        validation = await payAIPaymentValidator.validatePayment(proof, expectedAmount, endpoint);
-        break;
+    // Bind the payment to the challenge (nonce) it answers
+    const requirement = memo ? await getIssuedRequirement(memo) : null;
 
-      case 'payai':
-        // Production mode uses PayAI facilitator on mainnet
-        validation = await payAIPaymentValidator.validatePayment(proof, expectedAmount, endpoint);
-        break;
+    if (!requirement && this.provider.strict) {
+      logger.warn({ memo, resource: request.resource }, 'Payment with unknown or expired nonce');
 
-      default:
-        throw new Error(`Unknown payment mode: ${config.payment.mode}`);
+      return this.rejected(
+        payment,
+        request,
+        null,
+        memo
+          ? `Payment challenge ${memo} is unknown or expired`
+          : 'Payment must include the memo of an issued payment challenge'
+      );
     }
 
-    // If payment is valid, store it in database
-    if (validation.valid) {
-      await this.storePayment(validation);
-      // Delete nonce from cache so it can't be reused
-      await cacheService.delete(nonceKey);
+    if (requirement) {
+      const termsError = this.checkChallengeTerms(requirement, request);
+      if (termsError) {
+        logger.warn({ memo, resource: request.resource, error: termsError }, 'Payment answers a mismatched challenge');
+        return this.rejected(payment, request, requirement, termsError);
+      }
     }
 
-    return validation;
-  }
+    const verification = await this.provider.verify(payment, request, requirement);
+
+    if (!verification.isValid) {
+      logger.warn({
+        memo,
+        mode: this.provider.mode,
+        reason: verification.reason,
+      }, 'Payment verification failed');
+
+      return this.rejected(payment, request, requirement, `Payment verification failed: ${verification.reason}`);
+    }
+
+    const wallet = verification.wallet || payment.payload.fromAddress;
+    const currency = requirement?.extra?.currency || 'USDC';
 
-  /** Store validated payment in database */
-  private async storePayment(payment: ValidatedPayment): Promise<void> {
-    try {
-      await databaseService.query(
-        `INSERT INTO payment_proofs
-         (nonce, wallet_address, amount_usdc, endpoint, proof_data, verified_at, expires_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-        [
-          payment.proof.nonce,
-          payment.wallet,
-          payment.amount,
-          payment.endpoint,
-          JSON.stringify(payment.proof),
-          payment.verifiedAt,
-          payment.expiresAt,
-        ]
+    // Volume discounts are priced for one wallet, so the payment must come from it
+    const discountedPayer = request.pricing?.payer;
+    if (discountedPayer && wallet !== discountedPayer) {
+      logger.warn({ memo, discountedPayer, wallet }, 'Discounted payment sent from a different wallet');
+      return this.rejected(
+        payment,
+        request,
+        requirement,
+        `Price was discounted for ${discountedPayer}, but the payment came from ${wallet}`
       );
+    }
+
+    // Record the amount the client agreed to in the challenge, which may exceed a discounted price
+    const amountUsdc = requirement?.priceUSD ?? request.priceUSD;
 
-      logger.info({
-        nonce: payment.proof.nonce,
-        wallet: payment.wallet,
-      }, 'Payment stored in database');
-    } catch (error) {
-      logger.error({ error }, 'Failed to store payment in database');
-      // Don't fail the request if database storage fails
-      // Payment was already validated
+    // Record the signature before settling so concurrent requests can't redeem it twice
+    const claim = await paymentLedger.consume({
+      signature,
+      resource: request.resource,
+      requestId: request.requestId,
+      wallet,
+      amountUsdc,
+      mode: this.provider.mode,
+      network: requirement?.network,
+      currency,
+    });
+
+    if (claim.unavailable && this.provider.strict) {
+      return this.rejected(payment, request, requirement, 'Payment ledger unavailable, please retry shortly', 503);
     }
-  }
 
-  /** Get payment by nonce from database */
-  private async getPaymentByNonce(nonce: string): Promise<boolean> {
-    try {
-      const result = await databaseService.query(
-        'SELECT id FROM payment_proofs WHERE nonce = $1 LIMIT 1',
-        [nonce]
+    if (!claim.consumed && !claim.unavailable) {
+      return this.rejected(
+        payment,
+        request,
+        requirement,
+        claim.existing
+          ? `Payment already used: transaction ${signature} was redeemed for ${claim.existing.resource} at ${claim.existing.consumedAt} (replay attack prevented)`
+          : `Payment already used: transaction ${signature} has been redeemed (replay attack prevented)`
       );
-      return result.rows.length > 0;
-    } catch (error) {
-      logger.error({ error }, 'Error checking payment nonce');
-      return false;
     }
+
+    const settlementId = await settlementService.recordPending({
+      signature,
+      mode: this.provider.mode,
+      network: requirement?.network,
+      endpoint: request.resource,
+      wallet,
+      amountUsdc,
+    });
+
+    const settlement = await this.provider.settle(payment, request, requirement, verification);
+
+    if (!settlement.success) {
+      await settlementService.markFailed(settlementId, settlement.error || 'Payment settlement failed');
+
+      // The payment never moved, so let the client retry with the same signature
+      await paymentLedger.release(signature);
+      return this.rejected(payment, request, requirement, settlement.error || 'Payment settlement failed', 500);
+    }
+
+    await settlementService.markSettled(settlementId, {
+      txHash: settlement.txHash || verification.txHash,
+      network: settlement.networkId || verification.networkId,
+    });
+
+    if (settlement.txHash && settlement.txHash !== signature) {
+      await paymentLedger.recordSettlement(signature, {
+        txHash: settlement.txHash,
+        network: settlement.networkId,
+      });
+    }
+
+    // Each challenge can only be redeemed once
+    if (requirement) {
+      await consumeIssuedRequirement(requirement.memo);
+    }
+
+    const now = new Date();
+    const validated: ValidatedPayment = {
+      valid: true,
+      payment,
+      wallet,
+      amount: amountUsdc,
+      currency,
+      paidAmount: requirement?.maxAmountRequired,
+      endpoint: request.resource,
+      mode: this.provider.mode,
+      verifiedAt: now,
+      expiresAt: new Date(now.getTime() + config.payment.idempotencyWindowSeconds * 1000),
+      transactionHash: settlement.txHash || verification.txHash,
+      networkId: settlement.networkId || verification.networkId,
+    };
+
+    await this.cachePayment(validated, request.client);
+
+    logger.info({
+      mode: this.provider.mode,
+      wallet,
+      resource: request.resource,
+      txHash: validated.transactionHash,
+    }, '✅ Payment validated');
+
+    return validated;
   }
 
-  /** Check if payment proof is cached (for retries within TTL) */
-  async getCachedPayment(nonce: string, endpoint: string): Promise<ValidatedPayment | null> {
-    // Cache key includes endpoint to prevent cross-endpoint reuse
-    const cacheKey = `payment:validated:${nonce}:${endpoint}`;
-    const cached = await cacheService.get<ValidatedPayment>(cacheKey);
+  /** Check payment signature is cached (for retries while the paid request runs) */
+  async getCachedPayment(signature: string, endpoint: string, client?: string): Promise<ValidatedPayment | null> {
+    const cached = await cacheService.get<ValidatedPayment>(this.validatedKey(signature, endpoint, client));
     if (cached) {
-      logger.debug({ nonce, endpoint }, 'Using cached payment validation');
+      logger.debug({ signature, endpoint }, 'Using cached payment validation');
     }
     return cached;
   }
 
   /** Cache validated payment for retries */
-  async cachePayment(payment: ValidatedPayment, endpoint: string): Promise<void> {
-    // Cache key includes endpoint to prevent cross-endpoint reuse
-    const cacheKey = `payment:validated:${payment.proof.nonce}:${endpoint}`;
+  async cachePayment(payment: ValidatedPayment, client?: string): Promise<void> {
     await cacheService.set(
-      cacheKey,
+      this.validatedKey(payment.payment.payload.signature, payment.endpoint, client),
       payment,
-      300 // 5 minutes
+      config.payment.idempotencyWindowSeconds
     );
   }
+
+  /**
+   * Stop reusing a validated payment, once the paid request has answered
+   * Retries then get the stored response, or are rejected by the ledger if the request failed.
+   */
+  async forgetPayment(signature: string, endpoint: string, client?: string): Promise<void> {
+    await cacheService.delete(this.validatedKey(signature, endpoint, client));
+  }
+
+  /** Cache key of a validated payment, scoped to the endpoint and to the client that paid */
+  private validatedKey(signature: string, endpoint: string, client?: string): string {
+    return client
+      ? `payment:validated:${signature}:${endpoint}:${client}`
+      : `payment:validated:${signature}:${endpoint}`;
+  }
+
+  /**
+   * Check an issued challenge still matches the request being paid for
+   * @returns Error message, or null if the challenge matches
+   */
+  private checkChallengeTerms(requirement: IssuedPaymentRequirement, request: PaymentRequest): string | null {
+    if (requirement.resource !== request.resource) {
+      return `Payment challenge ${requirement.memo} was issued for ${requirement.resource}, not ${request.resource}`;
+    }
+
+    const currency = requirement.extra?.currency || 'USDC';
+    if (requirement.priceUSD < request.priceUSD || !request.currencies.includes(currency)) {
+      return `Payment challenge ${requirement.memo} no longer matches the price or accepted currencies for ${request.resource}`;
+    }
+
+    return null;
+  }
+
+  /** Build a rejected validation result */
+  private rejected(
+    payment: X402Payment,
+    request: PaymentRequest,
+    requirement: IssuedPaymentRequirement | null,
+    error: string,
+    statusCode = 402
+  ): ValidatedPayment {
+    const now = new Date();
+    return {
+      valid: false,
+      payment,
+      wallet: payment.payload.fromAddress,
+      amount: request.priceUSD,
+      currency: requirement?.extra?.currency || 'USDC',
+      endpoint: request.resource,
+      mode: this.provider.mode,
+      verifiedAt: now,
+      expiresAt: new Date(now.getTime() + config.payment.idempotencyWindowSeconds * 1000),
+      error,
+      statusCode,
+    };
+  }
 }
 
 /** Singleton instance */
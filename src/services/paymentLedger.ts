@@ -0,0 +1,302 @@
+import type { PaymentCurrency, PaymentMode } from '../types/payment.js';
+import { cacheService } from './cache.js';
+import { databaseService } from './database.js';
+import { logger } from '../utils/logger.js';
+
+/** How long consumed signatures stay in the Redis fast path (1 hour) */
+const CONSUMED_CACHE_TTL_SECONDS = 3600;
+
+/** A payment signature that has been redeemed for exactly one resource and request */
+export interface ConsumedPayment {
+  signature: string;
+  resource: string;
+  requestId: string;
+  wallet: string;
+  amountUsdc: number;
+  consumedAt: string;
+  /** Payment mode that accepted the payment (defaults to onchain) */
+  mode?: PaymentMode;
+  /** x402 network the payment was made on */
+  network?: string;
+  /** Currency the payment was made in */
+  currency?: PaymentCurrency;
+}
+
+/** A verified payment as shown to the wallet that made it */
+export interface PaymentReceipt {
+  id: number;
+  endpoint: string;
+  /** Amount paid in USD */
+  amountUsdc: number;
+  currency: PaymentCurrency;
+  txHash: string;
+  network: string | null;
+  mode: PaymentMode;
+  requestId: string | null;
+  /** True if the request failed after payment (the client was issued a retry token) */
+  requestFailed: boolean;
+  paidAt: string;
+}
+
+/** Result of attempting to consume a payment signature */
+export interface ConsumeResult {
+  /** True if this call claimed the signature */
+  consumed: boolean;
+  /** The earlier redemption, when the signature was already used */
+  existing?: ConsumedPayment;
+  /** True if no ledger store was reachable to record the redemption */
+  unavailable?: boolean;
+}
+
+/**
+ * Consumed-signature ledger for x402 payments
+ *
+ * Signatures are stored in the `payment_proofs` table (keyed by the `nonce` column)
+ * so a transaction can only ever unlock one request. Redis is used as a fast path for
+ * lookups and as a fallback claim store when the database is unavailable.
+ */
+export class PaymentLedger {
+  /** Get the earlier redemption of a signature, if any */
+  async getConsumed(signature: string): Promise<ConsumedPayment | null> {
+    const cached = await cacheService.get<ConsumedPayment>(this.cacheKey(signature));
+    if (cached) {
+      return cached;
+    }
+
+    if (!databaseService.connected) {
+      return null;
+    }
+
+    try {
+      const result = await databaseService.query<{
+        endpoint: string;
+        wallet_address: string;
+        amount_usdc: string;
+        proof_data: {
+          requestId?: string;
+          mode?: PaymentMode;
+          network?: string;
+          currency?: PaymentCurrency;
+        };
+        verified_at: Date;
+      }>(
+        `SELECT endpoint, wallet_address, amount_usdc, proof_data, verified_at
+         FROM payment_proofs WHERE nonce = $1 LIMIT 1`,
+        [signature]
+      );
+
+      const row = result.rows[0];
+      if (!row) {
+        return null;
+      }
+
+      const consumed: ConsumedPayment = {
+        signature,
+        resource: row.endpoint,
+        requestId: row.proof_data?.requestId || 'unknown',
+        wallet: row.wallet_address,
+        amountUsdc: parseFloat(row.amount_usdc),
+        consumedAt: new Date(row.verified_at).toISOString(),
+        mode: row.proof_data?.mode,
+        network: row.proof_data?.network,
+        currency: row.proof_data?.currency,
+      };
+
+      // Warm the fast path so repeated replays don't hit the database
+      await cacheService.set(this.cacheKey(signature), consumed, CONSUMED_CACHE_TTL_SECONDS);
+
+      return consumed;
+    } catch (error) {
+      logger.error({ error, signature }, 'Error looking up consumed payment');
+      return null;
+    }
+  }
+
+  /**
+   * Atomically claim a signature for a resource and request
+   * Returns `consumed: false` with the earlier redemption if the signature was already used
+   */
+  async consume(payment: Omit<ConsumedPayment, 'consumedAt'>): Promise<ConsumeResult> {
+    const consumedAt = new Date();
+    const entry: ConsumedPayment = { ...payment, consumedAt: consumedAt.toISOString() };
+    const cacheKey = this.cacheKey(payment.signature);
+
+    if (databaseService.connected) {
+      try {
+        const result = await databaseService.query<{ id: number }>(
+          `INSERT INTO payment_proofs
+           (nonce, wallet_address, amount_usdc, endpoint, proof_data, verified_at, expires_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (nonce) DO NOTHING
+           RETURNING id`,
+          [
+            payment.signature,
+            payment.wallet,
+            payment.amountUsdc,
+            payment.resource,
+            JSON.stringify({
+              mode: payment.mode || 'onchain',
+              signature: payment.signature,
+              requestId: payment.requestId,
+              network: payment.network,
+              currency: payment.currency,
+            }),
+            consumedAt,
+            new Date(consumedAt.getTime() + CONSUMED_CACHE_TTL_SECONDS * 1000),
+          ]
+        );
+
+        if (result.rows.length === 0) {
+          const existing = await this.getConsumed(payment.signature);
+          logger.warn(
+            { signature: payment.signature, resource: payment.resource, existing },
+            'Attempted replay of consumed payment signature'
+          );
+          return { consumed: false, existing: existing ?? undefined };
+        }
+
+        await cacheService.set(cacheKey, entry, CONSUMED_CACHE_TTL_SECONDS);
+
+        logger.info(
+          { signature: payment.signature, resource: payment.resource, requestId: payment.requestId },
+          'Payment signature consumed'
+        );
+
+        return { consumed: true };
+      } catch (error) {
+        logger.error({ error }, 'Failed to record consumed payment in database, falling back to cache');
+      }
+    }
+
+    if (cacheService.connected) {
+      const claimed = await cacheService.setIfNotExists(cacheKey, entry, CONSUMED_CACHE_TTL_SECONDS);
+      if (!claimed) {
+        const existing = await cacheService.get<ConsumedPayment>(cacheKey);
+        logger.warn(
+          { signature: payment.signature, resource: payment.resource, existing },
+          'Attempted replay of consumed payment signature'
+        );
+        return { consumed: false, existing: existing ?? undefined };
+      }
+
+      return { consumed: true };
+    }
+
+    logger.error(
+      { signature: payment.signature },
+      'No payment ledger store available to record payment'
+    );
+    return { consumed: false, unavailable: true };
+  }
+
+  /**
+   * Release a claimed signature so it can be redeemed again
+   * Used when a payment was claimed but could not be settled.
+   */
+  async release(signature: string): Promise<void> {
+    await cacheService.delete(this.cacheKey(signature));
+
+    if (!databaseService.connected) {
+      return;
+    }
+
+    try {
+      await databaseService.query('DELETE FROM payment_proofs WHERE nonce = $1', [signature]);
+      logger.info({ signature }, 'Payment signature released');
+    } catch (error) {
+      logger.error({ error, signature }, 'Failed to release payment signature');
+    }
+  }
+
+  /**
+   * Record the settlement of a consumed payment
+   * Facilitator settlements produce a transaction hash that differs from the payload signature.
+   */
+  async recordSettlement(signature: string, settlement: { txHash?: string; network?: string }): Promise<void> {
+    await this.mergeProofData(signature, settlement, 'Failed to record payment settlement');
+  }
+
+  /**
+   * Record that the request a payment unlocked failed after it was paid
+   * @param failure Response status and how the client was compensated
+   */
+  async recordFailure(
+    signature: string,
+    failure: { statusCode: number; compensation: string }
+  ): Promise<void> {
+    await this.mergeProofData(
+      signature,
+      { requestFailed: { ...failure, failedAt: new Date().toISOString() } },
+      'Failed to record failed paid request'
+    );
+  }
+
+  /**
+   * List the payments made by a wallet, newest first
+   * @param wallet Paying wallet address
+   * @param options Page size, and the receipt ID to continue after
+   */
+  async getReceipts(
+    wallet: string,
+    options: { limit: number; before?: number }
+  ): Promise<PaymentReceipt[]> {
+    const result = await databaseService.query<{
+      id: number;
+      nonce: string;
+      endpoint: string;
+      amount_usdc: string;
+      proof_data: {
+        requestId?: string;
+        mode?: PaymentMode;
+        network?: string;
+        currency?: PaymentCurrency;
+        txHash?: string;
+        requestFailed?: object;
+      };
+      verified_at: Date;
+    }>(
+      `SELECT id, nonce, endpoint, amount_usdc, proof_data, verified_at
+       FROM payment_proofs
+       WHERE wallet_address = $1 AND ($2::integer IS NULL OR id < $2)
+       ORDER BY id DESC
+       LIMIT $3`,
+      [wallet, options.before ?? null, options.limit]
+    );
+
+    return result.rows.map((row) => ({
+      id: row.id,
+      endpoint: row.endpoint,
+      amountUsdc: parseFloat(row.amount_usdc),
+      currency: row.proof_data?.currency || 'USDC',
+      txHash: row.proof_data?.txHash || row.nonce,
+      network: row.proof_data?.network || null,
+      mode: row.proof_data?.mode || 'onchain',
+      requestId: row.proof_data?.requestId || null,
+      requestFailed: Boolean(row.proof_data?.requestFailed),
+      paidAt: new Date(row.verified_at).toISOString(),
+    }));
+  }
+
+  /** Merge fields into the stored proof data of a consumed payment */
+  private async mergeProofData(signature: string, data: object, errorMessage: string): Promise<void> {
+    if (!databaseService.connected) {
+      return;
+    }
+
+    try {
+      await databaseService.query(
+        `UPDATE payment_proofs SET proof_data = proof_data || $2::jsonb WHERE nonce = $1`,
+        [signature, JSON.stringify(data)]
+      );
+    } catch (error) {
+      logger.error({ error, signature }, errorMessage);
+    }
+  }
+
+  private cacheKey(signature: string): string {
+    return `payment:consumed:${signature}`;
+  }
+}
+
+/** Singleton instance */
+export const paymentLedger = new PaymentLedger();
@@ -0,0 +1,50 @@
+import type { X402Network } from '../types/payment.js';
+import { verifyEvmPayment } from './evmVerification.js';
+import { verifyOnChainPayment, type OnChainVerificationResult } from './onChainVerification.js';
+import type { IssuedPaymentRequirement, X402Payment } from './x402.js';
+
+/** Verifies a payment made on one or more x402 networks */
+export interface PaymentVerifier {
+  /** Verifier name, for logging */
+  readonly name: string;
+  /** Whether this verifier handles payments on a network */
+  supports(network: X402Network): boolean;
+  /** Verify a payment against the requirement the client answered */
+  verify(
+    payment: X402Payment,
+    requirement: IssuedPaymentRequirement
+  ): Promise<OnChainVerificationResult>;
+}
+
+/** Solana verifier (all clusters) */
+export const solanaPaymentVerifier: PaymentVerifier = {
+  name: 'solana',
+  supports: (network) => network.startsWith('solana-'),
+  verify: (payment, requirement) => verifyOnChainPayment(payment, requirement),
+};
+
+/**
+ * EVM verifier for USDC on Base
+ * Not registered: Base payments can't be bound to a challenge yet (see createEvmPaymentRequirement).
+ */
+export const evmPaymentVerifier: PaymentVerifier = {
+  name: 'evm',
+  supports: (network) => network === 'base' || network === 'base-sepolia',
+  verify: (payment, requirement) => verifyEvmPayment(payment, requirement),
+};
+
+/** Registered verifiers, checked in order */
+const verifiers: PaymentVerifier[] = [solanaPaymentVerifier];
+
+/**
+ * Register a payment verifier
+ * Verifiers registered later take precedence over the built-in ones.
+ */
+export function registerPaymentVerifier(verifier: PaymentVerifier): void {
+  verifiers.unshift(verifier);
+}
+
+/** Get the verifier for a network, if any */
+export function getPaymentVerifier(network: X402Network): PaymentVerifier | undefined {
+  return verifiers.find((verifier) => verifier.supports(network));
+}
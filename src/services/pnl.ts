@@ -0,0 +1,346 @@
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { config } from '../config/index.js';
+import type { PnlQuery } from '../schemas/wallet.js';
+import type { TokenPnl, WalletPnl } from '../types/wallet.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { logger } from '../utils/logger.js';
+import { cacheService } from './cache.js';
+import { getPriceHistoryProvider, priceAt, type PricePoint } from './priceHistory.js';
+import { solanaService } from './solana.js';
+import { WRAPPED_SOL_MINT, walletChanges } from './transactions/balances.js';
+import { decodeTransaction } from './transactions/decoder.js';
+
+type PnlMethod = PnlQuery['method'];
+
+/** Tokens priced over the replayed history, the most traded ones (each is one price history lookup) */
+const MAX_PRICED_TOKENS = 25;
+
+/** Price history lookups in flight */
+const PRICE_LOOKUP_CONCURRENCY = 3;
+
+/** Stablecoins valued at $1 without a price lookup */
+const STABLECOINS = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+]);
+
+/** An amount of a token (SOL is the wrapped SOL mint) */
+interface Leg {
+  mint: string;
+  amount: number;
+}
+
+/** What a transaction did to the wallet's lots */
+interface Movement {
+  timestamp: number;
+  /** One token traded for another: a sale of the input and a purchase of the output */
+  trade?: { input: Leg; output: Leg };
+  /** Tokens received (positive) or sent (negative) without a trade */
+  transfers: Leg[];
+}
+
+/** Tokens bought together, at a total cost */
+interface Lot {
+  quantity: number;
+  costUSD: number;
+}
+
+/** Trim float noise left by splitting lots */
+function round(amount: number, decimals = 9): number {
+  return Number(amount.toFixed(decimals));
+}
+
+/**
+ * Cost basis lots of one token
+ * FIFO and LIFO consume the oldest or newest lot first; average cost keeps a single pooled lot.
+ */
+class LotBook {
+  /** Oldest first */
+  private readonly lots: Lot[] = [];
+  realizedPnlUSD = 0;
+  complete = true;
+
+  constructor(private readonly method: PnlMethod) {}
+
+  get quantity(): number {
+    return this.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  }
+
+  get costUSD(): number {
+    return this.lots.reduce((sum, lot) => sum + lot.costUSD, 0);
+  }
+
+  /** Add tokens at a cost, unknown costs count as 0 */
+  acquire(quantity: number, costUSD: number | undefined): void {
+    if (costUSD === undefined) {
+      this.complete = false;
+    }
+
+    const pooled = this.lots[0];
+    if (this.method === 'average' && pooled) {
+      pooled.quantity += quantity;
+      pooled.costUSD += costUSD ?? 0;
+    } else {
+      this.lots.push({ quantity, costUSD: costUSD ?? 0 });
+    }
+  }
+
+  /** Sell tokens, realizing the proceeds against the cost of the lots consumed */
+  sell(quantity: number, proceedsUSD: number | undefined): void {
+    const cost = this.take(quantity);
+
+    // Without proceeds the sale is left out of the realized PnL
+    if (proceedsUSD === undefined) {
+      this.complete = false;
+      return;
+    }
+    this.realizedPnlUSD += proceedsUSD - cost;
+  }
+
+  /** Send tokens away: their lots leave the wallet without realizing anything */
+  transferOut(quantity: number): void {
+    this.take(quantity);
+  }
+
+  /** Consume lots for a quantity of tokens, returning their cost */
+  private take(quantity: number): number {
+    let remaining = quantity;
+    let cost = 0;
+
+    while (remaining > 0 && this.lots.length > 0) {
+      const index = this.method === 'lifo' ? this.lots.length - 1 : 0;
+      const lot = this.lots[index]!;
+      const used = Math.min(remaining, lot.quantity);
+      const usedCost = lot.costUSD * (used / lot.quantity);
+
+      lot.quantity -= used;
+      lot.costUSD -= usedCost;
+      cost += usedCost;
+      remaining -= used;
+
+      if (lot.quantity <= quantity * 1e-9) {
+        this.lots.splice(index, 1);
+      }
+    }
+
+    // More went out than the replayed history brought in: the rest had no known cost
+    if (remaining > quantity * 1e-9) {
+      this.complete = false;
+    }
+
+    return cost;
+  }
+}
+
+/**
+ * Realized and unrealized profit and loss
+ *
+ * The wallet's transactions are replayed oldest first into cost basis lots: swaps and liquid
+ * staking sell one token for another at the trade's USD value, other token and SOL deltas are
+ * transfers in (at market value) or out (at cost, realizing nothing). Trades are valued with
+ * the price history provider, remaining lots with current Jupiter prices. NFTs are left out.
+ */
+export class PnlService {
+  async getPnl(address: string, query: PnlQuery): Promise<WalletPnl> {
+    const cacheKey = `pnl:${address}:${query.method}`;
+
+    const cached = await cacheService.get<WalletPnl>(cacheKey);
+    if (cached) {
+      logger.debug({ address, method: query.method }, 'Using cached PnL');
+      return cached;
+    }
+
+    const pnl = await this.compute(address, query.method);
+    await cacheService.set(cacheKey, pnl, 300);
+
+    return pnl;
+  }
+
+  /** Replay the wallet's history into lots and value them */
+  async compute(address: string, method: PnlMethod): Promise<WalletPnl> {
+    const replay = await solanaService.getParsedTransactionsSince(address, 0, config.pnl.maxTransactions);
+
+    // Newest first from the RPC
+    const movements = replay.transactions
+      .filter((tx) => tx.meta && !tx.meta.err)
+      .map((tx) => this.movement(tx, address))
+      .reverse();
+
+    const prices = await this.priceHistory(movements);
+    const priceOf = (mint: string, timestamp: number): number | undefined =>
+      STABLECOINS.has(mint) ? 1 : priceAt(prices.get(mint) ?? [], timestamp);
+
+    const books = new Map<string, LotBook>();
+    const book = (mint: string): LotBook => {
+      let lots = books.get(mint);
+      if (!lots) {
+        lots = new LotBook(method);
+        books.set(mint, lots);
+      }
+      return lots;
+    };
+
+    for (const { timestamp, trade, transfers } of movements) {
+      if (trade) {
+        // Both legs are worth the same: whichever side has a price values the trade
+        const outputPrice = priceOf(trade.output.mint, timestamp);
+        const inputPrice = priceOf(trade.input.mint, timestamp);
+        const valueUSD = outputPrice !== undefined
+          ? trade.output.amount * outputPrice
+          : inputPrice !== undefined ? trade.input.amount * inputPrice : undefined;
+
+        book(trade.input.mint).sell(trade.input.amount, valueUSD);
+        book(trade.output.mint).acquire(trade.output.amount, valueUSD);
+      }
+
+      for (const { mint, amount } of transfers) {
+        if (amount > 0) {
+          const price = priceOf(mint, timestamp);
+          book(mint).acquire(amount, price === undefined ? undefined : amount * price);
+        } else {
+          book(mint).transferOut(-amount);
+        }
+      }
+    }
+
+    const currentPrices = await solanaService.getTokenPrices([...books.keys()]);
+
+    const tokens = [...books]
+      .map(([mint, lots]): TokenPnl => {
+        const quantity = round(lots.quantity);
+        const costBasisUSD = round(lots.costUSD, 2);
+        const currentPriceUSD = STABLECOINS.has(mint) ? 1 : currentPrices.get(mint) ?? null;
+
+        return {
+          mint,
+          quantity,
+          costBasisUSD,
+          averageCostUSD: quantity > 0 ? round(lots.costUSD / lots.quantity, 9) : null,
+          currentPriceUSD,
+          realizedPnlUSD: round(lots.realizedPnlUSD, 2),
+          unrealizedPnlUSD: currentPriceUSD === null ? null : round(lots.quantity * currentPriceUSD - lots.costUSD, 2),
+          costBasisComplete: lots.complete && replay.complete,
+        };
+      })
+      .filter((token) => token.quantity > 0 || token.realizedPnlUSD !== 0)
+      .sort((a, b) =>
+        Math.abs(b.realizedPnlUSD) + Math.abs(b.unrealizedPnlUSD ?? 0) -
+        (Math.abs(a.realizedPnlUSD) + Math.abs(a.unrealizedPnlUSD ?? 0))
+      );
+
+    const totals = {
+      realizedPnlUSD: round(tokens.reduce((sum, token) => sum + token.realizedPnlUSD, 0), 2),
+      unrealizedPnlUSD: round(tokens.reduce((sum, token) => sum + (token.unrealizedPnlUSD ?? 0), 0), 2),
+      costBasisUSD: round(tokens.reduce((sum, token) => sum + token.costBasisUSD, 0), 2),
+      valueUSD: round(tokens.reduce((sum, token) => sum + token.quantity * (token.currentPriceUSD ?? 0), 0), 2),
+    };
+
+    logger.info({
+      address,
+      method,
+      tokens: tokens.length,
+      transactions: replay.transactions.length,
+      complete: replay.complete,
+    }, 'PnL computed');
+
+    return {
+      address,
+      method,
+      tokens,
+      totals,
+      transactionsReplayed: replay.transactions.length,
+      truncated: !replay.complete,
+      priceSource: getPriceHistoryProvider().name,
+    };
+  }
+
+  /** What a successful transaction did to the wallet's lots */
+  private movement(tx: ParsedTransactionWithMeta, address: string): Movement {
+    const timestamp = tx.blockTime ?? 0;
+
+    for (const event of decodeTransaction(tx, address)) {
+      if (event.type === 'swap') {
+        return {
+          timestamp,
+          trade: {
+            input: { mint: event.inputMint, amount: event.inputAmount },
+            output: { mint: event.outputMint, amount: event.outputAmount },
+          },
+          transfers: [],
+        };
+      }
+
+      // Liquid staking trades SOL for the pool's token and back
+      if (event.type === 'stake' && event.mint && event.tokenAmount) {
+        return {
+          timestamp,
+          trade: {
+            input: { mint: WRAPPED_SOL_MINT, amount: event.amount },
+            output: { mint: event.mint, amount: event.tokenAmount },
+          },
+          transfers: [],
+        };
+      }
+      if (event.type === 'unstake' && event.mint && event.tokenAmount && event.amount > 0) {
+        return {
+          timestamp,
+          trade: {
+            input: { mint: event.mint, amount: event.tokenAmount },
+            output: { mint: WRAPPED_SOL_MINT, amount: event.amount },
+          },
+          transfers: [],
+        };
+      }
+    }
+
+    const changes = walletChanges(tx, address);
+    const transfers: Leg[] = changes.tokens
+      .filter((token) => token.decimals > 0)
+      .map((token) => ({ mint: token.mint, amount: token.amount }));
+    if (changes.sol !== 0) {
+      transfers.unshift({ mint: WRAPPED_SOL_MINT, amount: changes.sol });
+    }
+
+    return { timestamp, transfers };
+  }
+
+  /** Price history of SOL and of the most traded tokens, over the replayed history */
+  private async priceHistory(movements: Movement[]): Promise<Map<string, PricePoint[]>> {
+    const prices = new Map<string, PricePoint[]>();
+    const first = movements[0];
+    if (!first) {
+      return prices;
+    }
+
+    const counts = new Map<string, number>();
+    for (const { trade, transfers } of movements) {
+      const legs = trade ? [trade.input, trade.output] : transfers;
+      for (const { mint } of legs) {
+        if (mint !== WRAPPED_SOL_MINT && !STABLECOINS.has(mint)) {
+          counts.set(mint, (counts.get(mint) ?? 0) + 1);
+        }
+      }
+    }
+
+    const ranked = [...counts].sort((a, b) => b[1] - a[1]).map(([mint]) => mint);
+    const toPrice = [WRAPPED_SOL_MINT, ...ranked.slice(0, MAX_PRICED_TOKENS)];
+    const provider = getPriceHistoryProvider();
+    const to = Math.floor(Date.now() / 1000);
+
+    await mapWithConcurrency(toPrice, PRICE_LOOKUP_CONCURRENCY, async (mint) => {
+      try {
+        // A day of margin so the first transaction has a price at or before it
+        const series = await provider.getPriceHistory(mint, first.timestamp - 86_400, to);
+        if (series.length > 0) {
+          prices.set(mint, series);
+        }
+      } catch (error) {
+        logger.warn({ error, mint, provider: provider.name }, 'Failed to fetch price history');
+      }
+    });
+
+    return prices;
+  }
+}
+
+export const pnlService = new PnlService();
@@ -0,0 +1,224 @@
+import { config } from '../config/index.js';
+import type { HistoryQuery } from '../schemas/wallet.js';
+import type { PortfolioHistory, PortfolioHistoryPoint } from '../types/wallet.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { logger } from '../utils/logger.js';
+import { databaseService } from './database.js';
+import { getPriceHistoryProvider, priceAt, type PricePoint } from './priceHistory.js';
+import { solanaService } from './solana.js';
+import { WRAPPED_SOL_MINT, balanceChanges } from './transactions/balances.js';
+
+/** Tokens valued per series, the most valuable ones (each is one price history lookup) */
+const MAX_PRICED_TOKENS = 25;
+
+/** Price history lookups in flight */
+const PRICE_LOOKUP_CONCURRENCY = 3;
+
+/** Wallet holdings at a point in time (token amounts by mint) */
+interface Holdings {
+  sol: number;
+  tokens: Map<string, number>;
+}
+
+/** Row shape of `portfolio_history` */
+interface PortfolioHistoryRow {
+  series: PortfolioHistory;
+}
+
+/** Trim float noise left by replaying deltas */
+function round(amount: number, decimals = 9): number {
+  return Number(amount.toFixed(decimals));
+}
+
+/**
+ * Portfolio value over time
+ *
+ * Balances are reconstructed by replaying the wallet's SOL and token deltas backward from its
+ * current holdings, then valued with the price history provider. Complete series are cached
+ * in Postgres for `HISTORY_CACHE_TTL_SECONDS`.
+ */
+export class PortfolioHistoryService {
+  async getHistory(address: string, window: HistoryQuery): Promise<PortfolioHistory> {
+    const cached = await this.getCached(address, window);
+    if (cached) {
+      logger.debug({ address, interval: window.interval }, 'Using cached portfolio history');
+      return cached;
+    }
+
+    const history = await this.compute(address, window);
+
+    // A truncated series would be cached as if the wallet had no older history
+    if (!history.truncated) {
+      await this.store(address, window, history);
+    }
+
+    return history;
+  }
+
+  /** Reconstruct and value a series */
+  async compute(address: string, window: HistoryQuery): Promise<PortfolioHistory> {
+    const [sol, tokenAccounts, replay] = await Promise.all([
+      solanaService.getSOLBalance(address),
+      solanaService.getTokenAccounts(address),
+      solanaService.getParsedTransactionsSince(address, window.from, config.history.maxTransactions),
+    ]);
+
+    const holdings: Holdings = { sol, tokens: new Map() };
+    const decimals = new Map<string, number>();
+    for (const account of tokenAccounts) {
+      holdings.tokens.set(account.mint, (holdings.tokens.get(account.mint) ?? 0) + account.uiAmount);
+      decimals.set(account.mint, account.decimals);
+    }
+
+    // Walk back from now: undo every transaction newer than each point (newest point first)
+    const changes = replay.transactions.map((tx) => ({ blockTime: tx.blockTime ?? 0, ...balanceChanges(tx, address) }));
+    const oldestReplayed = changes[changes.length - 1]?.blockTime ?? 0;
+    const snapshots: { timestamp: number; holdings: Holdings }[] = [];
+    let next = 0;
+
+    for (let timestamp = window.to; timestamp >= window.from; timestamp -= window.step) {
+      // Without the older transactions, points before the oldest replayed one are unknown
+      if (!replay.complete && timestamp < oldestReplayed) {
+        break;
+      }
+
+      for (; next < changes.length && changes[next]!.blockTime > timestamp; next++) {
+        const change = changes[next]!;
+        holdings.sol -= change.sol;
+        for (const token of change.tokens) {
+          holdings.tokens.set(token.mint, (holdings.tokens.get(token.mint) ?? 0) - token.amount);
+          decimals.set(token.mint, token.decimals);
+        }
+      }
+
+      snapshots.unshift({
+        timestamp,
+        holdings: {
+          sol: round(holdings.sol),
+          tokens: new Map([...holdings.tokens].map(([mint, amount]) => [mint, round(amount)])),
+        },
+      });
+    }
+
+    const { prices, unpricedMints } = await this.priceHistory(snapshots.map((s) => s.holdings), decimals, window);
+
+    const points = snapshots.map(({ timestamp, holdings: held }): PortfolioHistoryPoint => {
+      const solPrice = priceAt(prices.get(WRAPPED_SOL_MINT) ?? [], timestamp) ?? 0;
+      const tokens = [...held.tokens]
+        .filter(([mint, amount]) => amount > 0 && mint !== WRAPPED_SOL_MINT && prices.has(mint))
+        .map(([mint, amount]) => ({ mint, amount, valueUSD: round(amount * (priceAt(prices.get(mint)!, timestamp) ?? 0), 2) }));
+      // Wrapped SOL is valued as SOL
+      const wrappedSol = Math.max(held.tokens.get(WRAPPED_SOL_MINT) ?? 0, 0);
+
+      return {
+        timestamp,
+        solBalance: held.sol,
+        tokens,
+        valueUSD: round((held.sol + wrappedSol) * solPrice + tokens.reduce((sum, token) => sum + token.valueUSD, 0), 2),
+      };
+    });
+
+    logger.info({
+      address,
+      interval: window.interval,
+      points: points.length,
+      transactions: changes.length,
+      complete: replay.complete,
+    }, 'Portfolio history computed');
+
+    return {
+      address,
+      interval: window.interval,
+      from: points[0]?.timestamp ?? window.to,
+      to: window.to,
+      points,
+      unpricedMints,
+      truncated: !replay.complete && points[0]?.timestamp !== window.from,
+      transactionsReplayed: changes.length,
+      priceSource: getPriceHistoryProvider().name,
+    };
+  }
+
+  /**
+   * Price history of SOL and of the most valuable tokens held during the window
+   * Tokens are ranked by their largest holding at current Jupiter prices; NFTs are not valued.
+   */
+  private async priceHistory(
+    snapshots: Holdings[],
+    decimals: Map<string, number>,
+    window: HistoryQuery
+  ): Promise<{ prices: Map<string, PricePoint[]>; unpricedMints: string[] }> {
+    const largest = new Map<string, number>();
+    for (const holdings of snapshots) {
+      for (const [mint, amount] of holdings.tokens) {
+        if (mint !== WRAPPED_SOL_MINT && decimals.get(mint) !== 0 && amount > (largest.get(mint) ?? 0)) {
+          largest.set(mint, amount);
+        }
+      }
+    }
+
+    const currentPrices = await solanaService.getTokenPrices([...largest.keys()]);
+    const ranked = [...largest]
+      .map(([mint, amount]) => ({ mint, value: amount * (currentPrices.get(mint) ?? 0) }))
+      .sort((a, b) => b.value - a.value);
+    const toPrice = [WRAPPED_SOL_MINT, ...ranked.filter((t) => t.value > 0).slice(0, MAX_PRICED_TOKENS).map((t) => t.mint)];
+
+    const provider = getPriceHistoryProvider();
+    const prices = new Map<string, PricePoint[]>();
+
+    await mapWithConcurrency(toPrice, PRICE_LOOKUP_CONCURRENCY, async (mint) => {
+      try {
+        // One interval of margin so the first point has a price at or before it
+        const series = await provider.getPriceHistory(mint, window.from - window.step, window.to);
+        if (series.length > 0) {
+          prices.set(mint, series);
+        }
+      } catch (error) {
+        logger.warn({ error, mint, provider: provider.name }, 'Failed to fetch price history');
+      }
+    });
+
+    return {
+      prices,
+      unpricedMints: ranked.map((t) => t.mint).filter((mint) => !prices.has(mint)),
+    };
+  }
+
+  private async getCached(address: string, window: HistoryQuery): Promise<PortfolioHistory | null> {
+    if (!databaseService.connected || config.history.cacheTtlSeconds === 0) {
+      return null;
+    }
+
+    try {
+      const result = await databaseService.query<PortfolioHistoryRow>(
+        `SELECT series FROM portfolio_history
+         WHERE wallet_address = $1 AND interval = $2 AND from_ts = $3 AND to_ts = $4 AND expires_at > NOW()`,
+        [address, window.interval, window.from, window.to]
+      );
+      return result.rows[0]?.series ?? null;
+    } catch (error) {
+      logger.warn({ error, address }, 'Failed to read cached portfolio history');
+      return null;
+    }
+  }
+
+  private async store(address: string, window: HistoryQuery, history: PortfolioHistory): Promise<void> {
+    if (!databaseService.connected || config.history.cacheTtlSeconds === 0) {
+      return;
+    }
+
+    try {
+      await databaseService.query(
+        `INSERT INTO portfolio_history (wallet_address, interval, from_ts, to_ts, series, expires_at)
+         VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(secs => $6))
+         ON CONFLICT (wallet_address, interval, from_ts, to_ts)
+         DO UPDATE SET series = EXCLUDED.series, computed_at = NOW(), expires_at = EXCLUDED.expires_at`,
+        [address, window.interval, window.from, window.to, JSON.stringify(history), config.history.cacheTtlSeconds]
+      );
+    } catch (error) {
+      logger.warn({ error, address }, 'Failed to cache portfolio history');
+    }
+  }
+}
+
+export const portfolioHistoryService = new PortfolioHistoryService();
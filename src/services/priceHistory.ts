@@ -0,0 +1,86 @@
+import { config } from '../config/index.js';
+import { WRAPPED_SOL_MINT } from './transactions/balances.js';
+
+/** USD price of a token at a point in time */
+export interface PricePoint {
+  /** Unix seconds */
+  timestamp: number;
+  priceUSD: number;
+}
+
+/** Source of historical token prices, used to value portfolio history */
+export interface PriceHistoryProvider {
+  /** Provider name, reported with the series it priced */
+  readonly name: string;
+  /**
+   * USD prices of a token over a time range, oldest first
+   * @param mint Token mint (SOL is the wrapped SOL mint)
+   * @param from Unix seconds
+   * @param to Unix seconds
+   * @returns Prices, empty if the provider doesn't know the token
+   */
+  getPriceHistory(mint: string, from: number, to: number): Promise<PricePoint[]>;
+}
+
+const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3';
+
+/** How long CoinGecko has to answer */
+const COINGECKO_TIMEOUT_MS = 10_000;
+
+/**
+ * CoinGecko market charts (Solana tokens by contract address)
+ * Granularity depends on the range: 5 minutes up to a day, hourly up to 90 days, daily beyond.
+ */
+export const coinGeckoPriceHistoryProvider: PriceHistoryProvider = {
+  name: 'coingecko',
+  async getPriceHistory(mint, from, to) {
+    const coin = mint === WRAPPED_SOL_MINT ? '/coins/solana' : `/coins/solana/contract/${mint}`;
+    const response = await fetch(
+      `${COINGECKO_API_URL}${coin}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
+      {
+        headers: config.history.coingeckoApiKey ? { 'x-cg-demo-api-key': config.history.coingeckoApiKey } : {},
+        signal: AbortSignal.timeout(COINGECKO_TIMEOUT_MS),
+      }
+    );
+
+    // Unlisted token
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`CoinGecko answered ${response.status}`);
+    }
+
+    const data = await response.json() as { prices?: [number, number][] };
+    return (data.prices ?? []).map(([ms, priceUSD]) => ({ timestamp: Math.floor(ms / 1000), priceUSD }));
+  },
+};
+
+let provider: PriceHistoryProvider = coinGeckoPriceHistoryProvider;
+
+/** Replace the price history provider (CoinGecko by default) */
+export function setPriceHistoryProvider(priceHistoryProvider: PriceHistoryProvider): void {
+  provider = priceHistoryProvider;
+}
+
+/** Get the price history provider */
+export function getPriceHistoryProvider(): PriceHistoryProvider {
+  return provider;
+}
+
+/**
+ * Price of a series at a point in time
+ * The latest price at or before it, or the first one after it when the series starts later.
+ */
+export function priceAt(series: PricePoint[], timestamp: number): number | undefined {
+  let price = series[0]?.priceUSD;
+
+  for (const point of series) {
+    if (point.timestamp > timestamp) {
+      break;
+    }
+    price = point.priceUSD;
+  }
+
+  return price;
+}
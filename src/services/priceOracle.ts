@@ -0,0 +1,57 @@
+import type { PaymentAsset } from '../config/assets.js';
+import { solanaService } from './solana.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Get the USD price of a payment asset
+ * Stablecoins the API is priced in are fixed at 1; everything else comes from Jupiter.
+ * @param asset Payment asset
+ * @returns USD price, or null if unavailable
+ */
+export async function getAssetPriceUSD(asset: PaymentAsset): Promise<number | null> {
+  if (asset.stablecoin) {
+    return 1;
+  }
+
+  try {
+    const price = asset.native
+      ? await solanaService.getSOLPrice()
+      : (await solanaService.getTokenPrices([asset.mint])).get(asset.mint);
+
+    return price && price > 0 ? price : null;
+  } catch (error) {
+    logger.warn({ error, currency: asset.currency }, 'Failed to fetch payment asset price');
+    return null;
+  }
+}
+
+/**
+ * Convert a USD price into atomic units of a payment asset
+ * Rounds up so the merchant never receives less than the USD price.
+ * @param usdAmount Price in USD
+ * @param asset Payment asset
+ * @returns Amount in atomic units as string, or null if the asset can't be priced
+ */
+export async function quoteAssetAmount(
+  usdAmount: number,
+  asset: PaymentAsset
+): Promise<string | null> {
+  const priceUSD = await getAssetPriceUSD(asset);
+  if (!priceUSD) {
+    return null;
+  }
+
+  return toAtomicUnits(usdAmount / priceUSD, asset.decimals);
+}
+
+/**
+ * Convert an amount of a token into its atomic units, rounding up
+ * @param amount Amount in whole tokens
+ * @param decimals Token decimals
+ * @returns Amount in atomic units as string
+ */
+export function toAtomicUnits(amount: number, decimals: number): string {
+  // Trim floating point noise (0.07 * 1e6 = 70000.00000000001) before rounding up
+  const exact = parseFloat((amount * 10 ** decimals).toPrecision(12));
+  return Math.ceil(exact).toString();
+}
@@ -0,0 +1,292 @@
+import { readFile } from 'fs/promises';
+import { config } from '../config/index.js';
+import { findEndpointPricing } from '../config/pricing.js';
+import { pricingRulesSchema, type PricingRules, type SurgePricing } from '../schemas/pricing.js';
+import { cacheService } from './cache.js';
+import { databaseService } from './database.js';
+import { solanaService } from './solana.js';
+import { logger } from '../utils/logger.js';
+
+/** Window payer spend is summed over for volume tiers */
+const VOLUME_WINDOW_DAYS = 30;
+
+/** How long a payer's spend is cached */
+const VOLUME_CACHE_TTL_SECONDS = 300;
+
+/** Smallest chargeable price (one USDC atomic unit) */
+const MIN_PRICE_USDC = 0.000001;
+
+/** Where the active pricing rules were loaded from */
+export type PricingRulesSource = 'default' | 'file' | 'database';
+
+/** A price change applied on top of the base price */
+export interface PriceAdjustment {
+  type: 'depth' | 'surge' | 'promotion' | 'volume';
+  /** Promotion name, or the requested depth (e.g. `limit=500`) */
+  name?: string;
+  /** Percentage change of the base price (positive for surcharges, negative for discounts) */
+  percent: number;
+}
+
+/** Price of a request, with how it was computed */
+export interface PriceQuote {
+  priceUSD: number;
+  basePriceUSD: number;
+  adjustments: PriceAdjustment[];
+  /** Wallet the volume discount was priced for (the payment must come from it) */
+  payer?: string;
+}
+
+/** Loads pricing rules, returning null when none are configured */
+export type PricingRulesLoader = () => Promise<{ rules: PricingRules; source: PricingRulesSource } | null>;
+
+/**
+ * Load the configured rules: `PRICING_RULES_FILE` if set, otherwise the latest rules in
+ * the database
+ */
+export async function loadConfiguredPricingRules(): Promise<{ rules: PricingRules; source: PricingRulesSource } | null> {
+  if (config.pricing.rulesFile) {
+    const file = await readFile(config.pricing.rulesFile, 'utf-8');
+    return { rules: pricingRulesSchema.parse(JSON.parse(file)), source: 'file' };
+  }
+
+  if (!databaseService.connected) {
+    return null;
+  }
+
+  const result = await databaseService.query<{ rules: unknown }>(
+    'SELECT rules FROM pricing_rules ORDER BY id DESC LIMIT 1'
+  );
+  const row = result.rows[0];
+
+  return row ? { rules: pricingRulesSchema.parse(row.rules), source: 'database' } : null;
+}
+
+/**
+ * Dynamic pricing engine
+ *
+ * Prices start from the endpoint's base price, plus a surcharge for requests deeper than
+ * the endpoint includes (e.g. `?limit=`), and are adjusted by the active rules: a surge
+ * multiplier while RPC latency is above a threshold, the best running promotion,
+ * and a volume discount for payers by their spend over the last 30 days. Adjustments
+ * compound. Rules come from `PRICING_RULES_FILE` or, when unset, the latest rules in the
+ * database, and are reloaded every `PRICING_REFRESH_SECONDS` without a redeploy.
+ */
+export class PricingEngine {
+  private rules: PricingRules = pricingRulesSchema.parse({});
+  private source: PricingRulesSource = 'default';
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private rpcLatencyMs: number | null = null;
+  private rpcSampledAt = 0;
+  private sampling = false;
+
+  constructor(private readonly loadRules: PricingRulesLoader = loadConfiguredPricingRules) {}
+
+  /**
+   * Price a request
+   * @param path Request path
+   * @param payer Paying wallet, if known, for volume discounts
+   * @param query Validated query parameters, for depth pricing
+   */
+  async quote(path: string, payer?: string, query: Record<string, unknown> = {}): Promise<PriceQuote> {
+    const pricing = findEndpointPricing(path);
+
+    if (!pricing) {
+      throw new Error(`No pricing configured for endpoint: ${path}`);
+    }
+
+    const rules = await this.getRules();
+    const basePriceUSD = rules.basePrices[pricing.path] ?? pricing.priceUSDC;
+    const adjustments: PriceAdjustment[] = [];
+    let price = basePriceUSD;
+
+    const depth = pricing.depth ? Number(query[pricing.depth.param]) : NaN;
+    if (pricing.depth && depth > pricing.depth.included) {
+      const steps = Math.ceil((depth - pricing.depth.included) / pricing.depth.step);
+      const surcharge = steps * pricing.depth.stepPriceUSDC;
+
+      price += surcharge;
+      adjustments.push({
+        type: 'depth',
+        name: `${pricing.depth.param}=${depth}`,
+        percent: Math.round((surcharge / basePriceUSD) * 100),
+      });
+    }
+
+    if (rules.surge) {
+      this.sampleRpcLatency(rules.surge);
+
+      if (this.rpcLatencyMs !== null && this.rpcLatencyMs > rules.surge.latencyThresholdMs && rules.surge.multiplier > 1) {
+        price *= rules.surge.multiplier;
+        adjustments.push({ type: 'surge', percent: Math.round((rules.surge.multiplier - 1) * 100) });
+      }
+    }
+
+    const now = Date.now();
+    const promotion = rules.promotions
+      .filter((promo) => Date.parse(promo.startsAt) <= now && now < Date.parse(promo.endsAt))
+      .filter((promo) => !promo.endpoints || promo.endpoints.includes(pricing.path))
+      .sort((a, b) => b.discountPercent - a.discountPercent)[0];
+
+    if (promotion) {
+      price *= 1 - promotion.discountPercent / 100;
+      adjustments.push({ type: 'promotion', name: promotion.name, percent: -promotion.discountPercent });
+    }
+
+    let discountedPayer: string | undefined;
+
+    if (payer && rules.volumeTiers.length > 0) {
+      const spend = await this.getPayerSpend(payer);
+      const tier = rules.volumeTiers
+        .filter((volumeTier) => spend >= volumeTier.minSpendUsdc)
+        .sort((a, b) => b.discountPercent - a.discountPercent)[0];
+
+      if (tier) {
+        price *= 1 - tier.discountPercent / 100;
+        adjustments.push({ type: 'volume', percent: -tier.discountPercent });
+        discountedPayer = payer;
+      }
+    }
+
+    return {
+      priceUSD: Math.max(Number(price.toFixed(6)), MIN_PRICE_USDC),
+      basePriceUSD,
+      adjustments,
+      payer: discountedPayer,
+    };
+  }
+
+  /**
+   * Price a batch: every endpoint once per address, each at its own quoted price
+   * @param paths Endpoint patterns the batch runs
+   * @param addressCount Addresses each endpoint runs for
+   * @param payer Paying wallet, if known, for volume discounts
+   */
+  async quoteBatch(paths: string[], addressCount: number, payer?: string): Promise<PriceQuote> {
+    const quotes = await Promise.all(paths.map((path) => this.quote(path, payer)));
+    const adjustments = new Map<string, PriceAdjustment>();
+
+    for (const adjustment of quotes.flatMap((quote) => quote.adjustments)) {
+      adjustments.set(`${adjustment.type}:${adjustment.name ?? ''}:${adjustment.percent}`, adjustment);
+    }
+
+    const sum = (prices: number[]) => prices.reduce((total, price) => total + price, 0) * addressCount;
+
+    return {
+      priceUSD: Number(sum(quotes.map((quote) => quote.priceUSD)).toFixed(6)),
+      basePriceUSD: Number(sum(quotes.map((quote) => quote.basePriceUSD)).toFixed(6)),
+      adjustments: [...adjustments.values()],
+      payer: quotes.find((quote) => quote.payer)?.payer,
+    };
+  }
+
+  /** Active rules and where they came from */
+  async describe(): Promise<{ source: PricingRulesSource; loadedAt: string; rules: PricingRules }> {
+    const rules = await this.getRules();
+    return { source: this.source, loadedAt: new Date(this.loadedAt).toISOString(), rules };
+  }
+
+  /**
+   * Save new rules to the database and apply them
+   * @throws When rules are loaded from a file, which takes precedence
+   */
+  async saveRules(rules: PricingRules): Promise<void> {
+    if (config.pricing.rulesFile) {
+      throw new Error(`Pricing rules are loaded from ${config.pricing.rulesFile}`);
+    }
+
+    await databaseService.query('INSERT INTO pricing_rules (rules) VALUES ($1)', [JSON.stringify(rules)]);
+    logger.info({ rules }, 'Pricing rules updated');
+
+    await this.reload();
+  }
+
+  /** Get the rules, reloading them when the refresh interval has passed */
+  private async getRules(): Promise<PricingRules> {
+    if (Date.now() - this.loadedAt >= config.pricing.refreshSeconds * 1000) {
+      this.loading ??= this.reload().finally(() => {
+        this.loading = null;
+      });
+      await this.loading;
+    }
+
+    return this.rules;
+  }
+
+  /** Load the rules, keeping the previous rules on error */
+  private async reload(): Promise<void> {
+    try {
+      const loaded = await this.loadRules();
+
+      if (loaded) {
+        this.rules = loaded.rules;
+        this.source = loaded.source;
+      }
+    } catch (error) {
+      logger.error({ error, source: config.pricing.rulesFile || 'database' }, 'Failed to load pricing rules, keeping previous rules');
+    }
+
+    this.loadedAt = Date.now();
+  }
+
+  /** Total a payer spent over the volume window */
+  private async getPayerSpend(wallet: string): Promise<number> {
+    const cacheKey = `pricing:spend:${wallet}`;
+    const cached = await cacheService.get<number>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    if (!databaseService.connected) {
+      return 0;
+    }
+
+    try {
+      const result = await databaseService.query<{ spend: string | null }>(
+        `SELECT SUM(amount_usdc) AS spend FROM payment_proofs
+         WHERE wallet_address = $1 AND verified_at > NOW() - make_interval(days => $2)`,
+        [wallet, VOLUME_WINDOW_DAYS]
+      );
+
+      const spend = parseFloat(result.rows[0]?.spend ?? '0');
+      await cacheService.set(cacheKey, spend, VOLUME_CACHE_TTL_SECONDS);
+
+      return spend;
+    } catch (error) {
+      logger.error({ error, wallet }, 'Failed to look up payer spend');
+      return 0;
+    }
+  }
+
+  /**
+   * Measure RPC latency in the background, at most once per sample interval
+   * Quotes use the latest sample, so pricing never waits on the RPC.
+   */
+  private sampleRpcLatency(surge: SurgePricing): void {
+    if (this.sampling || Date.now() - this.rpcSampledAt < surge.sampleIntervalSeconds * 1000) {
+      return;
+    }
+
+    this.sampling = true;
+    const start = Date.now();
+
+    solanaService.connection
+      .getSlot()
+      .then(() => {
+        this.rpcLatencyMs = Date.now() - start;
+      })
+      .catch((error) => {
+        // Failed samples don't surge prices: the requests would fail anyway
+        logger.warn({ error }, 'RPC latency sample failed');
+        this.rpcLatencyMs = null;
+      })
+      .finally(() => {
+        this.rpcSampledAt = Date.now();
+        this.sampling = false;
+      });
+  }
+}
+
+/** Singleton instance */
+export const pricingEngine = new PricingEngine();
@@ -0,0 +1,94 @@
+import { databaseService } from './database.js';
+import { settlementService, type SettlementStatus } from './settlements.js';
+import type { PaymentMode } from '../types/payment.js';
+
+/** Revenue for one group (endpoint, day, wallet or mode) */
+export interface RevenueBucket {
+  key: string;
+  payments: number;
+  revenueUsdc: number;
+}
+
+/** Aggregated revenue over a time range */
+export interface RevenueReport {
+  from: string;
+  to: string;
+  totals: {
+    payments: number;
+    revenueUsdc: number;
+  };
+  byEndpoint: RevenueBucket[];
+  byDay: RevenueBucket[];
+  byWallet: RevenueBucket[];
+  byMode: RevenueBucket[];
+  settlements: Array<{
+    mode: PaymentMode;
+    status: SettlementStatus;
+    count: number;
+    amountUsdc: number;
+  }>;
+}
+
+/** Number of top payer wallets included in a report */
+const TOP_WALLETS_LIMIT = 50;
+
+/**
+ * SQL expressions for each breakdown, over `payment_proofs`
+ * Endpoints are grouped by route pattern, so wallet addresses and query strings don't
+ * split the revenue of one endpoint.
+ */
+const GROUP_EXPRESSIONS = {
+  endpoint: `regexp_replace(split_part(endpoint, '?', 1), '^/api/v1/wallet/[^/]+/', '/api/v1/wallet/:address/')`,
+  day: `to_char(date_trunc('day', verified_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')`,
+  wallet: `wallet_address`,
+  mode: `COALESCE(proof_data->>'mode', 'onchain')`,
+} as const;
+
+/**
+ * Build a revenue report from verified payments
+ * @param from Start of the range (inclusive)
+ * @param to End of the range (exclusive)
+ * @param mode Only include payments accepted in this mode
+ */
+export async function getRevenueReport(from: Date, to: Date, mode?: PaymentMode): Promise<RevenueReport> {
+  const groupBy = async (expression: string, orderBy: string, limit?: number): Promise<RevenueBucket[]> => {
+    const result = await databaseService.query<{ key: string; payments: string; revenue_usdc: string }>(
+      `SELECT ${expression} AS key, COUNT(*) AS payments, SUM(amount_usdc) AS revenue_usdc
+       FROM payment_proofs
+       WHERE verified_at >= $1 AND verified_at < $2
+         AND ($3::varchar IS NULL OR COALESCE(proof_data->>'mode', 'onchain') = $3)
+       GROUP BY 1
+       ORDER BY ${orderBy}
+       ${limit ? `LIMIT ${limit}` : ''}`,
+      [from, to, mode ?? null]
+    );
+
+    return result.rows.map((row) => ({
+      key: row.key,
+      payments: parseInt(row.payments, 10),
+      revenueUsdc: parseFloat(row.revenue_usdc),
+    }));
+  };
+
+  const [byEndpoint, byDay, byWallet, byMode, settlements] = await Promise.all([
+    groupBy(GROUP_EXPRESSIONS.endpoint, 'revenue_usdc DESC'),
+    groupBy(GROUP_EXPRESSIONS.day, 'key ASC'),
+    groupBy(GROUP_EXPRESSIONS.wallet, 'revenue_usdc DESC', TOP_WALLETS_LIMIT),
+    groupBy(GROUP_EXPRESSIONS.mode, 'revenue_usdc DESC'),
+    settlementService.summarize(from, to),
+  ]);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: {
+      payments: byMode.reduce((total, bucket) => total + bucket.payments, 0),
+      revenueUsdc: Number(byMode.reduce((total, bucket) => total + bucket.revenueUsdc, 0).toFixed(6)),
+    },
+    byEndpoint,
+    byDay,
+    byWallet,
+    byMode,
+    settlements: mode ? settlements.filter((row) => row.mode === mode) : settlements,
+  };
+}
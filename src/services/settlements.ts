@@ -0,0 +1,212 @@
+import { databaseService } from './database.js';
+import type { PaymentMode } from '../types/payment.js';
+import { logger } from '../utils/logger.js';
+
+/** Settlement lifecycle: recorded as pending before the provider settles */
+export type SettlementStatus = 'pending' | 'settled' | 'failed';
+
+/** A settlement attempt for a verified payment */
+export interface SettlementRecord {
+  id: number;
+  signature: string;
+  mode: PaymentMode;
+  network: string | null;
+  endpoint: string;
+  wallet: string;
+  amountUsdc: number;
+  status: SettlementStatus;
+  txHash: string | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Row shape of `payment_settlements` */
+interface SettlementRow {
+  id: number;
+  signature: string;
+  mode: PaymentMode;
+  network: string | null;
+  endpoint: string;
+  wallet_address: string;
+  amount_usdc: string;
+  status: SettlementStatus;
+  tx_hash: string | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Settlement records
+ *
+ * Every verified payment gets a settlement record, so operators can see which facilitator
+ * settlements succeeded, failed, or never completed. Recording is best-effort: a missing
+ * database never blocks a payment.
+ */
+export class SettlementService {
+  /**
+   * Record a settlement attempt before calling the provider
+   * @returns Record ID, or null if it could not be stored
+   */
+  async recordPending(settlement: {
+    signature: string;
+    mode: PaymentMode;
+    network?: string;
+    endpoint: string;
+    wallet: string;
+    amountUsdc: number;
+  }): Promise<number | null> {
+    if (!databaseService.connected) {
+      return null;
+    }
+
+    try {
+      const result = await databaseService.query<{ id: number }>(
+        `INSERT INTO payment_settlements
+         (signature, mode, network, endpoint, wallet_address, amount_usdc, status)
+         VALUES ($1, $2, $3, $4, $5, $6, 'pending')
+         RETURNING id`,
+        [
+          settlement.signature,
+          settlement.mode,
+          settlement.network ?? null,
+          settlement.endpoint,
+          settlement.wallet,
+          settlement.amountUsdc,
+        ]
+      );
+
+      return result.rows[0]?.id ?? null;
+    } catch (error) {
+      logger.error({ error, signature: settlement.signature }, 'Failed to record pending settlement');
+      return null;
+    }
+  }
+
+  /** Mark a settlement as settled */
+  async markSettled(id: number | null, result: { txHash?: string; network?: string }): Promise<void> {
+    await this.update(id, 'settled', result.txHash ?? null, result.network ?? null, null);
+  }
+
+  /** Mark a settlement as failed */
+  async markFailed(id: number | null, error: string): Promise<void> {
+    await this.update(id, 'failed', null, null, error);
+  }
+
+  /**
+   * Mark the settled records of a payment as failed
+   * Used when a settled payment is released so it can be resent, which records a new settlement.
+   */
+  async markFailedBySignature(signature: string, error: string): Promise<void> {
+    if (!databaseService.connected) {
+      return;
+    }
+
+    try {
+      await databaseService.query(
+        `UPDATE payment_settlements
+         SET status = 'failed', error = $2, updated_at = NOW()
+         WHERE signature = $1 AND status = 'settled'`,
+        [signature, error]
+      );
+    } catch (updateError) {
+      logger.error({ error: updateError, signature }, 'Failed to update settlement record');
+    }
+  }
+
+  /**
+   * List settlements, newest first
+   * @param options Status filter, page size, and the record ID to continue after
+   */
+  async list(options: {
+    status?: SettlementStatus;
+    limit: number;
+    before?: number;
+  }): Promise<SettlementRecord[]> {
+    const result = await databaseService.query<SettlementRow>(
+      `SELECT id, signature, mode, network, endpoint, wallet_address, amount_usdc,
+              status, tx_hash, error, created_at, updated_at
+       FROM payment_settlements
+       WHERE ($1::varchar IS NULL OR status = $1) AND ($2::integer IS NULL OR id < $2)
+       ORDER BY id DESC
+       LIMIT $3`,
+      [options.status ?? null, options.before ?? null, options.limit]
+    );
+
+    return result.rows.map((row) => this.toRecord(row));
+  }
+
+  /** Count settlements and their amounts by mode and status */
+  async summarize(from: Date, to: Date): Promise<Array<{
+    mode: PaymentMode;
+    status: SettlementStatus;
+    count: number;
+    amountUsdc: number;
+  }>> {
+    const result = await databaseService.query<{
+      mode: PaymentMode;
+      status: SettlementStatus;
+      count: string;
+      amount_usdc: string;
+    }>(
+      `SELECT mode, status, COUNT(*) AS count, COALESCE(SUM(amount_usdc), 0) AS amount_usdc
+       FROM payment_settlements
+       WHERE created_at >= $1 AND created_at < $2
+       GROUP BY mode, status
+       ORDER BY mode, status`,
+      [from, to]
+    );
+
+    return result.rows.map((row) => ({
+      mode: row.mode,
+      status: row.status,
+      count: parseInt(row.count, 10),
+      amountUsdc: parseFloat(row.amount_usdc),
+    }));
+  }
+
+  private async update(
+    id: number | null,
+    status: SettlementStatus,
+    txHash: string | null,
+    network: string | null,
+    error: string | null
+  ): Promise<void> {
+    if (id === null || !databaseService.connected) {
+      return;
+    }
+
+    try {
+      await databaseService.query(
+        `UPDATE payment_settlements
+         SET status = $2, tx_hash = COALESCE($3, tx_hash), network = COALESCE($4, network),
+             error = $5, updated_at = NOW()
+         WHERE id = $1`,
+        [id, status, txHash, network, error]
+      );
+    } catch (updateError) {
+      logger.error({ error: updateError, settlementId: id, status }, 'Failed to update settlement record');
+    }
+  }
+
+  private toRecord(row: SettlementRow): SettlementRecord {
+    return {
+      id: row.id,
+      signature: row.signature,
+      mode: row.mode,
+      network: row.network,
+      endpoint: row.endpoint,
+      wallet: row.wallet_address,
+      amountUsdc: parseFloat(row.amount_usdc),
+      status: row.status,
+      txHash: row.tx_hash,
+      error: row.error,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
+
+/** Singleton instance */
+export const settlementService = new SettlementService();
@@ -1,10 +1,13 @@
-import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, PublicKey, LAMPORTS_PER_SOL, type ConfirmedSignatureInfo, type ParsedTransactionWithMeta } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 import { config } from '../config/index.js';
 import { cacheService } from './cache.js';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/rpcErrorHandler.js';
-import type { TokenAccount, WalletOverview, NFT, WalletPortfolio, WalletActivity, Transaction, WalletRisk, RiskFactor } from '../types/wallet.js';
+import { WRAPPED_SOL_MINT, balanceChanges } from './transactions/balances.js';
+import { decodeTransaction } from './transactions/decoder.js';
+import type { TokenAccount, WalletOverview, NFT, WalletPortfolio, WalletActivity, Transaction, TransactionEvent, TransactionHistory, WalletRisk, RiskFactor } from '../types/wallet.js';
+import type { TransactionsQuery } from '../schemas/wallet.js';
 
 /** Solana RPC service using Helius */
 export class SolanaService {
@@ -452,8 +455,12 @@ export class SolanaService {
   /**
    * Get detailed wallet portfolio
    */
-  async getWalletPortfolio(address: string): Promise<WalletPortfolio> {
-    const cacheKey = `portfolio:${address}`;
+  async getWalletPortfolio(
+    address: string,
+    options: { includeNfts?: boolean; nftLimit?: number } = {}
+  ): Promise<WalletPortfolio> {
+    const { includeNfts = true, nftLimit = 100 } = options;
+    const cacheKey = `portfolio:${address}:${includeNfts ? nftLimit : 'no-nfts'}`;
     const cached = await cacheService.get<WalletPortfolio>(cacheKey);
 
     if (cached) {
@@ -471,7 +478,7 @@ export class SolanaService {
       const [solBalance, tokens, nfts, solPrice] = await Promise.all([
         this.getSOLBalance(address),
         this.getTokenAccounts(address),
-        this.getNFTs(address, 100), // Get up to 100 NFTs
+        includeNfts ? this.getNFTs(address, nftLimit) : Promise.resolve([]),
         this.getSOLPrice(),
       ]);
 
@@ -528,8 +535,8 @@ export class SolanaService {
   /**
    * Get wallet transaction activity using Helius Enhanced Transactions API
    */
-  async getWalletActivity(address: string, limit: number = 100): Promise<WalletActivity> {
-    const cacheKey = `activity:${address}:${limit}`;
+  async getWalletActivity(address: string, limit: number = 100, before?: string): Promise<WalletActivity> {
+    const cacheKey = `activity:${address}:${limit}:${before ?? 'latest'}`;
     const cached = await cacheService.get<WalletActivity>(cacheKey);
 
     if (cached) {
@@ -544,7 +551,7 @@ export class SolanaService {
       const pubkey = new PublicKey(address);
 
       // Get transaction signatures
-      const signatures = await this.connection.getSignaturesForAddress(pubkey, { limit });
+      const signatures = await this.connection.getSignaturesForAddress(pubkey, { limit, before });
 
       if (signatures.length === 0) {
         const emptyActivity: WalletActivity = {
@@ -557,44 +564,19 @@ export class SolanaService {
         return emptyActivity;
       }
 
-      // Use Helius Enhanced Transactions API for detailed transaction info
-      const heliusUrl = `https://mainnet.helius-rpc.com/?api-key=${this.heliusApiKey}`;
-
-      // Get up to 100 recent transactions with details
-      const signaturesToFetch = signatures.slice(0, Math.min(limit, 100)).map(s => s.signature);
-
-      const response = await fetch(heliusUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 'activity-txs',
-          method: 'getTransaction',
-          params: signaturesToFetch.map(sig => [
-            sig,
-            {
-              encoding: 'jsonParsed',
-              maxSupportedTransactionVersion: 0,
-            },
-          ]),
-        }),
-      });
-
-      const data = await response.json() as { result?: any[] };
+      // Fetch the recent transactions in full (parsed, with balances)
+      const recentSignatures = signatures.slice(0, 10);
+      const parsed = await withRetry(
+        () => this.connection.getParsedTransactions(
+          recentSignatures.map((sig) => sig.signature),
+          { maxSupportedTransactionVersion: 0 }
+        ),
+        { maxRetries: 2 },
+        `Get recent transactions for ${address}`
+      );
 
-      // Parse enhanced transactions
-      const recentTransactions: Transaction[] = signatures.slice(0, 10).map((sig, idx) => {
-        const tx = data.result?.[idx];
-
-        return {
-          signature: sig.signature,
-          timestamp: sig.blockTime || 0,
-          type: this.inferTransactionType(tx),
-          status: sig.err ? 'failed' : 'success',
-          fee: tx?.meta?.fee ? tx.meta.fee / LAMPORTS_PER_SOL : 0,
-          description: this.generateTransactionDescription(tx),
-        };
-      });
+      const recentTransactions: Transaction[] = recentSignatures
+        .map((sig, idx) => this.toTransaction(address, sig, parsed[idx]));
 
       // Get first and last transaction timestamps
       const firstTransaction = signatures.length > 0
@@ -611,6 +593,8 @@ export class SolanaService {
         firstTransaction,
         lastTransaction,
         recentTransactions,
+        // A full page may have older transactions
+        nextBefore: signatures.length === limit ? signatures[signatures.length - 1]?.signature : undefined,
       };
 
       // Cache for 5 minutes
@@ -629,6 +613,139 @@ export class SolanaService {
     }
   }
 
+  /**
+   * Get one page of a wallet's transaction history
+   * A page scans `limit` signatures older than `before` (and newer than `until`), then keeps
+   * the transactions matching the filters, so pages can hold fewer than `limit` transactions.
+   * Only matching transactions are fetched in full.
+   */
+  async getWalletTransactions(address: string, query: TransactionsQuery): Promise<TransactionHistory> {
+    const cacheKey = `transactions:${address}:${JSON.stringify(query)}`;
+    const cached = await cacheService.get<TransactionHistory>(cacheKey);
+
+    if (cached) {
+      logger.debug({ address }, 'Using cached transaction history');
+      return cached;
+    }
+
+    try {
+      const pubkey = new PublicKey(address);
+
+      const signatures = await withRetry(
+        () => this.connection.getSignaturesForAddress(pubkey, {
+          limit: query.limit,
+          before: query.before,
+          until: query.until,
+        }),
+        { maxRetries: 2 },
+        `Get signatures for ${address}`
+      );
+
+      const matching = signatures.filter((sig) => {
+        const status = sig.err ? 'failed' : 'success';
+        const blockTime = sig.blockTime ?? 0;
+
+        return (!query.status || status === query.status)
+          && (query.from === undefined || blockTime >= query.from)
+          && (query.to === undefined || blockTime <= query.to);
+      });
+
+      const parsed = matching.length > 0
+        ? await withRetry(
+            () => this.connection.getParsedTransactions(
+              matching.map((sig) => sig.signature),
+              { maxSupportedTransactionVersion: 0 }
+            ),
+            { maxRetries: 2 },
+            `Get ${matching.length} transactions for ${address}`
+          )
+        : [];
+
+      const transactions = matching
+        .map((sig, idx) => this.toTransaction(address, sig, parsed[idx]))
+        .filter((tx) => !query.type || query.type.includes(tx.type.toLowerCase()));
+
+      // Signatures are newest first, so once a page reaches past `from` there is nothing older to match
+      const oldest = signatures[signatures.length - 1];
+      const exhausted = signatures.length < query.limit
+        || (query.from !== undefined && (oldest?.blockTime ?? 0) < query.from);
+
+      const history: TransactionHistory = {
+        address,
+        transactions,
+        scanned: signatures.length,
+        nextBefore: exhausted ? undefined : oldest?.signature,
+      };
+
+      await cacheService.set(cacheKey, history, 300);
+
+      logger.info({
+        address,
+        scanned: signatures.length,
+        matched: transactions.length,
+      }, 'Transaction history page fetched successfully');
+
+      return history;
+    } catch (error) {
+      logger.error({ error, address }, 'Error fetching transaction history');
+      throw new Error('Failed to fetch transaction history');
+    }
+  }
+
+  /**
+   * Get every transaction of a wallet newer than a point in time, newest first
+   * Stops after `maxTransactions`; `complete` is false when older ones since `since` were left out.
+   * @param since Unix seconds
+   */
+  async getParsedTransactionsSince(
+    address: string,
+    since: number,
+    maxTransactions: number
+  ): Promise<{ transactions: ParsedTransactionWithMeta[]; complete: boolean }> {
+    const pubkey = new PublicKey(address);
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+    let complete = false;
+
+    for (;;) {
+      const page = await withRetry(
+        () => this.connection.getSignaturesForAddress(pubkey, { limit: 1000, before }),
+        { maxRetries: 2 },
+        `Get signatures for ${address}`
+      );
+
+      const recent = page.filter((sig) => (sig.blockTime ?? 0) > since);
+      const room = maxTransactions - signatures.length;
+      signatures.push(...recent.slice(0, room));
+
+      if (recent.length > room) {
+        break;
+      }
+      // Reached `since`, or the start of the wallet's history
+      if (recent.length < page.length || page.length < 1000) {
+        complete = true;
+        break;
+      }
+      if (signatures.length === maxTransactions) {
+        break;
+      }
+      before = page[page.length - 1]?.signature;
+    }
+
+    const transactions: ParsedTransactionWithMeta[] = [];
+    for (let i = 0; i < signatures.length; i += 100) {
+      const chunk = signatures.slice(i, i + 100).map((sig) => sig.signature);
+      const parsed = await withRetry(
+        () => this.connection.getParsedTransactions(chunk, { maxSupportedTransactionVersion: 0 }),
+        { maxRetries: 2 },
+        `Get ${chunk.length} transactions for ${address}`
+      );
+      transactions.push(...parsed.filter((tx): tx is ParsedTransactionWithMeta => tx !== null));
+    }
+
+    return { transactions, complete };
+  }
+
   /**
    * Get the actual first transaction of a wallet by paginating backwards
    */
@@ -851,56 +968,88 @@ export class SolanaService {
   }
 
   /**
-   * Infer transaction type from transaction data
+   * Summarize a transaction from its signature info and parsed transaction (if fetched)
    */
-  private inferTransactionType(tx: any): string {
-    if (!tx?.transaction?.message) return 'Unknown';
+  private toTransaction(address: string, sig: ConfirmedSignatureInfo, tx: ParsedTransactionWithMeta | null | undefined): Transaction {
+    const events = decodeTransaction(tx, address);
+
+    return {
+      signature: sig.signature,
+      timestamp: sig.blockTime || 0,
+      type: this.inferTransactionType(tx, events),
+      status: sig.err ? 'failed' : 'success',
+      fee: tx?.meta?.fee ? tx.meta.fee / LAMPORTS_PER_SOL : 0,
+      description: this.generateTransactionDescription(tx, events),
+      events,
+      balanceChanges: tx?.transaction?.message && tx.meta ? balanceChanges(tx, address) : undefined,
+    };
+  }
 
-    const instructions = tx.transaction.message.instructions || [];
+  /**
+   * Infer transaction type from its main event (the first one that isn't a plain transfer)
+   */
+  private inferTransactionType(tx: ParsedTransactionWithMeta | null | undefined, events: TransactionEvent[]): string {
+    if (!tx?.transaction?.message) return 'Unknown';
 
-    // Check for common program IDs
-    for (const ix of instructions) {
-      const programId = ix.programId?.toString() || '';
+    const event = events.find((e) => e.type !== 'transfer') ?? events[0];
 
-      if (programId === 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') {
-        return 'Token Transfer';
-      }
-      if (programId === '11111111111111111111111111111111') {
-        return 'SOL Transfer';
-      }
-      if (programId.includes('Swap')) {
+    switch (event?.type) {
+      case 'swap':
         return 'Swap';
-      }
-      if (programId.includes('Stake')) {
+      case 'stake':
         return 'Staking';
-      }
+      case 'unstake':
+        return 'Unstaking';
+      case 'nft_buy':
+        return 'NFT Purchase';
+      case 'nft_sell':
+        return 'NFT Sale';
+      case 'transfer':
+        return event.mint ? 'Token Transfer' : 'SOL Transfer';
+      default:
+        return 'Transaction';
     }
-
-    return 'Transaction';
   }
 
   /**
    * Generate human-readable transaction description
    */
-  private generateTransactionDescription(tx: any): string {
+  private generateTransactionDescription(tx: ParsedTransactionWithMeta | null | undefined, events: TransactionEvent[]): string {
     if (!tx?.transaction?.message) return 'Transaction';
 
+    const event = events.find((e) => e.type !== 'transfer') ?? events[0];
+
+    if (event) {
+      const more = events.length > 1 ? ` (+${events.length - 1} more)` : '';
+      return `${this.describeEvent(event)}${more}`;
+    }
+
     const instructions = tx.transaction.message.instructions || [];
 
     if (instructions.length === 0) return 'Transaction';
 
-    // Simple description based on first instruction
-    const firstIx = instructions[0];
-    const programId = firstIx.programId?.toString() || '';
+    return `Program interaction (${instructions.length} instruction${instructions.length > 1 ? 's' : ''})`;
+  }
 
-    if (programId === 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA') {
-      return 'Token operation';
-    }
-    if (programId === '11111111111111111111111111111111') {
-      return 'SOL transfer';
+  private describeEvent(event: TransactionEvent): string {
+    const amount = (value: number) => String(Number(value.toFixed(6)));
+    const token = (mint?: string) =>
+      !mint || mint === WRAPPED_SOL_MINT ? 'SOL' : `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+
+    switch (event.type) {
+      case 'swap':
+        return `Swapped ${amount(event.inputAmount)} ${token(event.inputMint)} for ${amount(event.outputAmount)} ${token(event.outputMint)} on ${event.program}`;
+      case 'stake':
+        return `Staked ${amount(event.amount)} SOL with ${event.program}`;
+      case 'unstake':
+        return `Unstaked from ${event.program}`;
+      case 'nft_buy':
+        return `Bought NFT ${token(event.mint)} for ${amount(event.price)} SOL on ${event.program}`;
+      case 'nft_sell':
+        return `Sold NFT ${token(event.mint)} for ${amount(event.price)} SOL on ${event.program}`;
+      case 'transfer':
+        return `Transferred ${amount(event.amount)} ${token(event.mint)}`;
     }
-
-    return `Program interaction (${instructions.length} instruction${instructions.length > 1 ? 's' : ''})`;
   }
 
   /**
@@ -967,8 +1116,14 @@ export const solanaService = {
   getNFTs: (address: string, limit?: number) => getSolanaService().getNFTs(address, limit),
   isWalletActive: (address: string) => getSolanaService().isWalletActive(address),
   getWalletOverview: (address: string) => getSolanaService().getWalletOverview(address),
-  getWalletPortfolio: (address: string) => getSolanaService().getWalletPortfolio(address),
-  getWalletActivity: (address: string, limit?: number) => getSolanaService().getWalletActivity(address, limit),
+  getWalletPortfolio: (address: string, options?: { includeNfts?: boolean; nftLimit?: number }) =>
+    getSolanaService().getWalletPortfolio(address, options),
+  getWalletActivity: (address: string, limit?: number, before?: string) =>
+    getSolanaService().getWalletActivity(address, limit, before),
+  getWalletTransactions: (address: string, query: TransactionsQuery) =>
+    getSolanaService().getWalletTransactions(address, query),
+  getParsedTransactionsSince: (address: string, since: number, maxTransactions: number) =>
+    getSolanaService().getParsedTransactionsSince(address, since, maxTransactions),
   getWalletRisk: (address: string) => getSolanaService().getWalletRisk(address),
   isValidAddress: (address: string) => getSolanaService().isValidAddress(address),
 };
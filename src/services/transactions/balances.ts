@@ -0,0 +1,135 @@
+import { LAMPORTS_PER_SOL, type ParsedTransactionWithMeta, type TokenBalance } from '@solana/web3.js';
+import type { BalanceChanges, TokenBalanceChange } from '../../types/wallet.js';
+
+export const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/** What a wallet gave and received in a transaction */
+export interface WalletChanges {
+  /** SOL change not counting the fee the wallet paid, wrapped SOL included */
+  sol: number;
+  /** Token changes, wrapped SOL excluded */
+  tokens: TokenBalanceChange[];
+}
+
+/** Account addresses of a transaction, in account index order */
+export function accountKeys(tx: ParsedTransactionWithMeta): string[] {
+  return tx.transaction.message.accountKeys.map((key) => String(key.pubkey));
+}
+
+/** SOL balance of an account after the transaction */
+export function postSolBalance(tx: ParsedTransactionWithMeta, address: string): number {
+  const index = accountKeys(tx).indexOf(address);
+  return index === -1 ? 0 : (tx.meta?.postBalances[index] ?? 0) / LAMPORTS_PER_SOL;
+}
+
+/** Change in an account's balance in lamports, fee included */
+function lamportDelta(tx: ParsedTransactionWithMeta, address: string): number {
+  const index = accountKeys(tx).indexOf(address);
+  if (index === -1 || !tx.meta) {
+    return 0;
+  }
+  return (tx.meta.postBalances[index] ?? 0) - (tx.meta.preBalances[index] ?? 0);
+}
+
+/** Lamports of fee paid by an address (only the fee payer, the first account, pays it) */
+function lamportFee(tx: ParsedTransactionWithMeta, address: string): number {
+  return accountKeys(tx)[0] === address ? tx.meta?.fee ?? 0 : 0;
+}
+
+/** Change in an account's SOL balance, fee included */
+export function solDelta(tx: ParsedTransactionWithMeta, address: string): number {
+  return lamportDelta(tx, address) / LAMPORTS_PER_SOL;
+}
+
+/** Token balance entry of a token account, from before or after the transaction */
+export function tokenBalanceOf(tx: ParsedTransactionWithMeta, account: string): TokenBalance | undefined {
+  const index = accountKeys(tx).indexOf(account);
+  return [...(tx.meta?.postTokenBalances ?? []), ...(tx.meta?.preTokenBalances ?? [])]
+    .find((balance) => balance.accountIndex === index);
+}
+
+/** Net raw change of every token, by owner then mint */
+function tokenDeltasByOwner(tx: ParsedTransactionWithMeta): Map<string, Map<string, { decimals: number; raw: bigint }>> {
+  const owners = new Map<string, Map<string, { decimals: number; raw: bigint }>>();
+
+  const add = (balances: TokenBalance[] | null | undefined, sign: bigint) => {
+    for (const balance of balances ?? []) {
+      if (!balance.owner) {
+        continue;
+      }
+      const deltas = owners.get(balance.owner) ?? new Map<string, { decimals: number; raw: bigint }>();
+      const delta = deltas.get(balance.mint) ?? { decimals: balance.uiTokenAmount.decimals, raw: 0n };
+      delta.raw += sign * BigInt(balance.uiTokenAmount.amount);
+      deltas.set(balance.mint, delta);
+      owners.set(balance.owner, deltas);
+    }
+  };
+
+  add(tx.meta?.preTokenBalances, -1n);
+  add(tx.meta?.postTokenBalances, 1n);
+
+  return owners;
+}
+
+/** Net change of every token held by an owner, by mint (unchanged tokens omitted) */
+export function tokenDeltas(tx: ParsedTransactionWithMeta, owner: string): TokenBalanceChange[] {
+  return [...(tokenDeltasByOwner(tx).get(owner) ?? [])]
+    .filter(([, delta]) => delta.raw !== 0n)
+    .map(([mint, delta]) => ({ mint, decimals: delta.decimals, amount: Number(delta.raw) / 10 ** delta.decimals }));
+}
+
+/**
+ * Everything that moved in and out of a wallet, and who was on the other side
+ * Counterparties are the accounts whose SOL moved opposite to the wallet's (fee aside), and
+ * the owners whose tokens moved opposite to the wallet's for the same mint. The wallet's own
+ * token accounts are not counterparties.
+ */
+export function balanceChanges(tx: ParsedTransactionWithMeta, wallet: string): BalanceChanges {
+  const keys = accountKeys(tx);
+  const byOwner = tokenDeltasByOwner(tx);
+  const tokens = tokenDeltas(tx, wallet);
+  const counterparties = new Set<string>();
+
+  const walletTokenAccounts = new Set(
+    [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]
+      .filter((balance) => balance.owner === wallet)
+      .map((balance) => keys[balance.accountIndex])
+  );
+
+  const solMoved = lamportDelta(tx, wallet) + lamportFee(tx, wallet);
+  if (solMoved !== 0) {
+    for (const key of keys) {
+      const delta = lamportDelta(tx, key);
+      if (key !== wallet && !walletTokenAccounts.has(key) && delta !== 0 && Math.sign(delta) !== Math.sign(solMoved)) {
+        counterparties.add(key);
+      }
+    }
+  }
+
+  for (const token of tokens) {
+    for (const [owner, deltas] of byOwner) {
+      const delta = deltas.get(token.mint)?.raw ?? 0n;
+      if (owner !== wallet && delta !== 0n && (delta > 0n) !== (token.amount > 0)) {
+        counterparties.add(owner);
+      }
+    }
+  }
+
+  return {
+    sol: solDelta(tx, wallet),
+    tokens,
+    counterparties: [...counterparties],
+  };
+}
+
+/** What a wallet gave and received, the way swaps and trades see it */
+export function walletChanges(tx: ParsedTransactionWithMeta, wallet: string): WalletChanges {
+  const deltas = tokenDeltas(tx, wallet);
+  const wrappedSol = deltas.find((delta) => delta.mint === WRAPPED_SOL_MINT)?.amount ?? 0;
+
+  return {
+    // Summed in lamports so the fee doesn't leave float noise behind
+    sol: (lamportDelta(tx, wallet) + lamportFee(tx, wallet) + Math.round(wrappedSol * LAMPORTS_PER_SOL)) / LAMPORTS_PER_SOL,
+    tokens: deltas.filter((delta) => delta.mint !== WRAPPED_SOL_MINT),
+  };
+}
@@ -0,0 +1,80 @@
+import type { ParsedInstruction, ParsedTransactionWithMeta, PartiallyDecodedInstruction } from '@solana/web3.js';
+import type { TransactionEvent } from '../../types/wallet.js';
+import { logger } from '../../utils/logger.js';
+import { nftDecoders } from './nft.js';
+import { stakingDecoders } from './staking.js';
+import { swapDecoders } from './swaps.js';
+import { transferDecoders } from './transfers.js';
+
+/** What a decoder sees of the instruction it decodes */
+export interface DecodeContext {
+  tx: ParsedTransactionWithMeta;
+  /** Wallet the transaction is being described for */
+  wallet: string;
+  /** Top-level instruction of the decoder's program */
+  instruction: ParsedInstruction | PartiallyDecodedInstruction;
+}
+
+/** Turns the instructions of one or more programs into transaction events */
+export interface InstructionDecoder {
+  /** Protocol name, reported on its events */
+  readonly name: string;
+  readonly programIds: readonly string[];
+  /**
+   * Whether events are read from the wallet's balance changes rather than the instruction
+   * Balance changes cover the whole transaction, so only the first such decoder that
+   * produces events is used (a Jupiter route through Raydium is one swap, not two).
+   */
+  readonly fromBalances?: boolean;
+  decode(context: DecodeContext): TransactionEvent[];
+}
+
+/** Registered decoders, by program ID */
+const decoders = new Map<string, InstructionDecoder>();
+
+/**
+ * Register an instruction decoder
+ * Replaces any decoder registered for the same program IDs.
+ */
+export function registerInstructionDecoder(decoder: InstructionDecoder): void {
+  for (const programId of decoder.programIds) {
+    decoders.set(programId, decoder);
+  }
+}
+
+/** Get the decoder for a program, if any */
+export function getInstructionDecoder(programId: string): InstructionDecoder | undefined {
+  return decoders.get(programId);
+}
+
+/**
+ * Decode a parsed transaction into events, from a wallet's point of view
+ * Only top-level instructions are decoded; failed transactions have no events.
+ */
+export function decodeTransaction(tx: ParsedTransactionWithMeta | null | undefined, wallet: string): TransactionEvent[] {
+  if (!tx?.transaction?.message || !tx.meta || tx.meta.err) {
+    return [];
+  }
+
+  const events: TransactionEvent[] = [];
+  let balancesDecoded = false;
+
+  for (const instruction of tx.transaction.message.instructions) {
+    const decoder = decoders.get(String(instruction.programId));
+    if (!decoder || (decoder.fromBalances && balancesDecoded)) {
+      continue;
+    }
+
+    try {
+      const decoded = decoder.decode({ tx, wallet, instruction });
+      balancesDecoded ||= Boolean(decoder.fromBalances) && decoded.length > 0;
+      events.push(...decoded);
+    } catch (error) {
+      logger.debug({ error, decoder: decoder.name }, 'Failed to decode instruction');
+    }
+  }
+
+  return events;
+}
+
+[...transferDecoders, ...stakingDecoders, ...swapDecoders, ...nftDecoders].forEach(registerInstructionDecoder);
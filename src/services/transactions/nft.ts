@@ -0,0 +1,52 @@
+import type { NftTradeEvent } from '../../types/wallet.js';
+import { walletChanges } from './balances.js';
+import type { InstructionDecoder } from './decoder.js';
+
+/**
+ * NFT trade on a marketplace, read from the wallet's balance changes
+ * An NFT in for SOL out is a buy, an NFT out for SOL in a sale. NFTs that move without SOL
+ * (listings into escrow, delistings) are not trades.
+ */
+function nftTradeDecoder(name: string, programIds: string[]): InstructionDecoder {
+  return {
+    name,
+    programIds,
+    fromBalances: true,
+    decode({ tx, wallet }) {
+      const changes = walletChanges(tx, wallet);
+      const nfts = changes.tokens.filter((token) => token.decimals === 0 && Math.abs(token.amount) === 1);
+      const bought = nfts.filter((nft) => nft.amount > 0);
+      const sold = nfts.filter((nft) => nft.amount < 0);
+
+      if (bought.length > 0 && sold.length === 0 && changes.sol < 0) {
+        return bought.map((nft): NftTradeEvent => ({
+          type: 'nft_buy',
+          program: name,
+          mint: nft.mint,
+          price: -changes.sol / bought.length,
+        }));
+      }
+      if (sold.length > 0 && bought.length === 0 && changes.sol > 0) {
+        return sold.map((nft): NftTradeEvent => ({
+          type: 'nft_sell',
+          program: name,
+          mint: nft.mint,
+          price: changes.sol / sold.length,
+        }));
+      }
+      return [];
+    },
+  };
+}
+
+export const nftDecoders: InstructionDecoder[] = [
+  nftTradeDecoder('Magic Eden', [
+    'M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K', // Marketplace v2
+    'mmm3XBJg5gk8XJxEKBvdgptZz6SgK4tXvn36sodowMc', // MMM pools
+  ]),
+  nftTradeDecoder('Tensor', [
+    'TSWAPaqyCSx2KABk68Shruf4rp7CxcNi8hAsbdwmHbN', // TensorSwap
+    'TCMPhJdwDryooaGtiocG1u3xcYbRpiJzb283XfCZsDp', // Marketplace
+  ]),
+  nftTradeDecoder('Metaplex Auction House', ['hausS13jsjafwWwGqZTUQRmWyvyxn9EQpqMwV1PBBmk']),
+];
@@ -0,0 +1,90 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { StakeEvent, TransferEvent } from '../../types/wallet.js';
+import { postSolBalance, walletChanges } from './balances.js';
+import type { InstructionDecoder } from './decoder.js';
+import { infoNumber, infoString, parsedInstruction } from './transfers.js';
+
+export const STAKE_PROGRAM_ID = 'Stake11111111111111111111111111111111111111';
+export const MARINADE_PROGRAM_ID = 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD';
+export const STAKE_POOL_PROGRAM_ID = 'SPoo1Ku8WFXoNDMHPsrGSTSG1Y4DhC9QzhMKgXhfRh9K';
+export const JITOSOL_MINT = 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn';
+
+/** Native staking: delegating and deactivating stake accounts, and withdrawing from them */
+export const stakeDecoder: InstructionDecoder = {
+  name: 'Stake',
+  programIds: [STAKE_PROGRAM_ID],
+  decode(context) {
+    const parsed = parsedInstruction(context);
+    const stakeAccount = parsed && infoString(parsed.info, 'stakeAccount');
+    if (!parsed || !stakeAccount) {
+      return [];
+    }
+
+    switch (parsed.type) {
+      case 'delegate':
+      case 'deactivate': {
+        const event: StakeEvent = {
+          type: parsed.type === 'delegate' ? 'stake' : 'unstake',
+          program: 'Stake',
+          amount: postSolBalance(context.tx, stakeAccount),
+          stakeAccount,
+        };
+        return [event];
+      }
+      case 'withdraw': {
+        const destination = infoString(parsed.info, 'destination');
+        const lamports = infoNumber(parsed.info, 'lamports');
+        if (!destination || lamports === undefined) {
+          return [];
+        }
+
+        const event: TransferEvent = {
+          type: 'transfer',
+          program: 'Stake',
+          amount: lamports / LAMPORTS_PER_SOL,
+          source: stakeAccount,
+          destination,
+        };
+        return [event];
+      }
+      default:
+        return [];
+    }
+  },
+};
+
+/**
+ * Liquid staking, read from the wallet's balance changes
+ * SOL in for pool tokens out is a stake; pool tokens in is an unstake (SOL back right away, or
+ * nothing yet for a delayed unstake).
+ */
+function liquidStakingDecoder(name: string, programId: string, programOf: (mint: string) => string): InstructionDecoder {
+  return {
+    name,
+    programIds: [programId],
+    fromBalances: true,
+    decode({ tx, wallet }) {
+      const changes = walletChanges(tx, wallet);
+      const token = changes.tokens[0];
+
+      if (!token || changes.tokens.length > 1) {
+        return [];
+      }
+
+      if (token.amount > 0 && changes.sol < 0) {
+        return [{ type: 'stake', program: programOf(token.mint), amount: -changes.sol, mint: token.mint, tokenAmount: token.amount }];
+      }
+      if (token.amount < 0) {
+        return [{ type: 'unstake', program: programOf(token.mint), amount: Math.max(changes.sol, 0), mint: token.mint, tokenAmount: -token.amount }];
+      }
+      return [];
+    },
+  };
+}
+
+export const stakingDecoders: InstructionDecoder[] = [
+  stakeDecoder,
+  liquidStakingDecoder('Marinade', MARINADE_PROGRAM_ID, () => 'Marinade'),
+  // Jito runs on the SPL stake pool program, shared with other pools
+  liquidStakingDecoder('Stake Pool', STAKE_POOL_PROGRAM_ID, (mint) => (mint === JITOSOL_MINT ? 'Jito' : 'Stake Pool')),
+];
@@ -0,0 +1,57 @@
+import type { SwapEvent } from '../../types/wallet.js';
+import { WRAPPED_SOL_MINT, walletChanges } from './balances.js';
+import type { InstructionDecoder } from './decoder.js';
+
+/**
+ * Swap through a DEX or aggregator, read from the wallet's balance changes
+ * The token the wallet lost is the input and the token it gained the output. SOL only counts
+ * when no token moved on that side, since it also pays for new token accounts.
+ */
+function swapDecoder(name: string, programIds: string[]): InstructionDecoder {
+  return {
+    name,
+    programIds,
+    fromBalances: true,
+    decode({ tx, wallet }) {
+      const changes = walletChanges(tx, wallet);
+      const sol = { mint: WRAPPED_SOL_MINT, amount: changes.sol };
+
+      const input = changes.tokens.find((token) => token.amount < 0) ?? (sol.amount < 0 ? sol : undefined);
+      const output = changes.tokens.find((token) => token.amount > 0) ?? (sol.amount > 0 ? sol : undefined);
+
+      if (!input || !output || input.mint === output.mint) {
+        return [];
+      }
+
+      const event: SwapEvent = {
+        type: 'swap',
+        program: name,
+        inputMint: input.mint,
+        inputAmount: -input.amount,
+        outputMint: output.mint,
+        outputAmount: output.amount,
+      };
+      return [event];
+    },
+  };
+}
+
+export const swapDecoders: InstructionDecoder[] = [
+  swapDecoder('Jupiter', [
+    'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
+    'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB',
+  ]),
+  swapDecoder('Raydium', [
+    '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', // AMM v4
+    'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK', // CLMM
+    'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C', // CPMM
+  ]),
+  swapDecoder('Orca', [
+    'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', // Whirlpools
+    '9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP', // Token swap v2
+  ]),
+  swapDecoder('Meteora', [
+    'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo', // DLMM
+    'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB', // Dynamic AMM
+  ]),
+];
@@ -0,0 +1,103 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { TransferEvent } from '../../types/wallet.js';
+import { tokenBalanceOf } from './balances.js';
+import type { DecodeContext, InstructionDecoder } from './decoder.js';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+/** Parsed instruction type and info, if the RPC parsed it */
+export function parsedInstruction(context: DecodeContext): { type: string; info: Record<string, unknown> } | undefined {
+  if (!('parsed' in context.instruction)) {
+    return undefined;
+  }
+
+  const { type, info } = context.instruction.parsed as { type?: unknown; info?: unknown };
+  if (typeof type !== 'string' || typeof info !== 'object' || info === null) {
+    return undefined;
+  }
+  return { type, info: info as Record<string, unknown> };
+}
+
+/** String field of parsed instruction info */
+export function infoString(info: Record<string, unknown>, key: string): string | undefined {
+  const value = info[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Numeric field of parsed instruction info (token amounts come as strings) */
+export function infoNumber(info: Record<string, unknown>, key: string): number | undefined {
+  const value = info[key];
+  const number = typeof value === 'string' && value !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/** SOL transfers through the System program */
+export const systemDecoder: InstructionDecoder = {
+  name: 'System',
+  programIds: [SYSTEM_PROGRAM_ID],
+  decode(context) {
+    const parsed = parsedInstruction(context);
+    if (parsed?.type !== 'transfer') {
+      return [];
+    }
+
+    const source = infoString(parsed.info, 'source');
+    const destination = infoString(parsed.info, 'destination');
+    const lamports = infoNumber(parsed.info, 'lamports');
+    if (!source || !destination || lamports === undefined) {
+      return [];
+    }
+
+    return [{ type: 'transfer', program: 'System', amount: lamports / LAMPORTS_PER_SOL, source, destination }];
+  },
+};
+
+/** Token transfers through a token program (`transfer` carries no mint, so it is looked up) */
+function tokenDecoder(name: string, programId: string): InstructionDecoder {
+  return {
+    name,
+    programIds: [programId],
+    decode(context) {
+      const parsed = parsedInstruction(context);
+      if (parsed?.type !== 'transfer' && parsed?.type !== 'transferChecked') {
+        return [];
+      }
+
+      const source = infoString(parsed.info, 'source');
+      const destination = infoString(parsed.info, 'destination');
+      if (!source || !destination) {
+        return [];
+      }
+
+      // `transferChecked` carries the mint and a token amount, `transfer` a raw amount
+      const checked = parsed.info['tokenAmount'];
+      const tokenAmount = typeof checked === 'object' && checked !== null ? checked as Record<string, unknown> : undefined;
+      const balance = tokenBalanceOf(context.tx, source) ?? tokenBalanceOf(context.tx, destination);
+      const mint = infoString(parsed.info, 'mint') ?? balance?.mint;
+      const decimals = (tokenAmount && infoNumber(tokenAmount, 'decimals')) ?? balance?.uiTokenAmount.decimals;
+      const amount = tokenAmount ? infoNumber(tokenAmount, 'amount') : infoNumber(parsed.info, 'amount');
+
+      if (!mint || decimals === undefined || amount === undefined) {
+        return [];
+      }
+
+      const event: TransferEvent = {
+        type: 'transfer',
+        program: name,
+        mint,
+        amount: amount / 10 ** decimals,
+        source,
+        destination,
+      };
+      return [event];
+    },
+  };
+}
+
+export const transferDecoders: InstructionDecoder[] = [
+  systemDecoder,
+  tokenDecoder('Token', TOKEN_PROGRAM_ID),
+  tokenDecoder('Token-2022', TOKEN_2022_PROGRAM_ID),
+];
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+
+/** How long a signed wallet message is accepted (5 minutes) */
+const WALLET_AUTH_MAX_AGE_SECONDS = 300;
+
+/** DER prefix of an Ed25519 SubjectPublicKeyInfo, followed by the 32-byte public key */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/** Result of verifying a signed wallet message */
+export interface WalletAuthResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Build the message a wallet signs to prove ownership
+ * The action and timestamp are part of the message so a signature can't be reused
+ * for other purposes or after it expires.
+ * @param action What the signature authorizes (e.g. "payment-history")
+ * @param wallet Wallet address
+ * @param timestamp Unix seconds when the message was signed
+ */
+export function buildWalletAuthMessage(action: string, wallet: string, timestamp: number): string {
+  return `ChainScope ${action}\nWallet: ${wallet}\nTimestamp: ${timestamp}`;
+}
+
+/**
+ * Verify an Ed25519 signature made by a Solana wallet
+ * @param wallet Wallet address (base58 public key)
+ * @param message Signed message
+ * @param signature Base58-encoded signature
+ */
+export function verifyWalletSignature(wallet: string, message: string, signature: string): boolean {
+  try {
+    const publicKey = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(wallet).toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    });
+
+    return crypto.verify(null, Buffer.from(message, 'utf-8'), publicKey, bs58.decode(signature));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a signed wallet message for an action
+ * @param action What the signature authorizes
+ * @param wallet Wallet address
+ * @param timestamp Unix seconds from the request
+ * @param signature Base58-encoded signature of `buildWalletAuthMessage(action, wallet, timestamp)`
+ */
+export function verifyWalletAuth(
+  action: string,
+  wallet: string,
+  timestamp: number,
+  signature: string
+): WalletAuthResult {
+  const age = Math.floor(Date.now() / 1000) - timestamp;
+
+  if (!Number.isInteger(timestamp) || age > WALLET_AUTH_MAX_AGE_SECONDS || age < -60) {
+    return {
+      valid: false,
+      reason: `Signed message timestamp must be within ${WALLET_AUTH_MAX_AGE_SECONDS} seconds of now`,
+    };
+  }
+
+  if (!verifyWalletSignature(wallet, buildWalletAuthMessage(action, wallet, timestamp), signature)) {
+    return { valid: false, reason: 'Signature does not match wallet' };
+  }
+
+  return { valid: true };
+}
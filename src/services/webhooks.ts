@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { resolvesToPublicAddresses } from '../utils/network.js';
+
+/** Delivery attempts per webhook */
+const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/** Delay before the first redelivery, doubled on every further attempt */
+const WEBHOOK_RETRY_BASE_DELAY_MS = 1000;
+
+/** How long a receiver has to answer */
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Signatures older than this are rejected by {@link WebhookService.verify} */
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/** Outcome of delivering a webhook */
+export interface WebhookDelivery {
+  delivered: boolean;
+  attempts: number;
+  /** Last HTTP status received, if any */
+  statusCode?: number;
+}
+
+/**
+ * Signed webhook delivery
+ *
+ * Payloads are POSTed as JSON with `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`, where
+ * `v1` is the HMAC-SHA256 of `<t>.<body>` keyed with `JOBS_WEBHOOK_SECRET`. Receivers should
+ * recompute it over the raw body and reject stale timestamps. Non-2xx answers and network
+ * errors are retried with exponential backoff. Receivers must resolve to public addresses,
+ * checked before every attempt, so job results can't be sent to internal services.
+ */
+export class WebhookService {
+  /** Whether webhooks can be sent (requires a signing secret) */
+  get available(): boolean {
+    return Boolean(config.jobs.webhookSecret);
+  }
+
+  /** Signature header value for a body */
+  sign(body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const secret = config.jobs.webhookSecret;
+    if (!secret) {
+      throw new Error('JOBS_WEBHOOK_SECRET is not configured');
+    }
+
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  /** Check a signature header against a raw body, as a receiver would */
+  verify(body: string, header: string, now: number = Math.floor(Date.now() / 1000)): boolean {
+    const parts = Object.fromEntries(header.split(',').map((part) => part.split('=', 2) as [string, string]));
+    const timestamp = Number(parts['t']);
+
+    if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS || !parts['v1']) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(body, timestamp).split('v1=')[1]!, 'hex');
+    const received = Buffer.from(parts['v1'], 'hex');
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  /**
+   * POST a payload, retrying until it is acknowledged with a 2xx
+   * @param url Receiver URL
+   * @param id Delivery ID, sent as `X-Webhook-Id` so receivers can drop duplicates
+   * @param payload JSON payload
+   */
+  async deliver(url: string, id: string, payload: unknown): Promise<WebhookDelivery> {
+    const body = JSON.stringify(payload);
+    let statusCode: number | undefined;
+
+    for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      if (!(await resolvesToPublicAddresses(new URL(url).hostname))) {
+        logger.warn({ url, id, attempt }, 'Webhook URL does not resolve to a public address, not delivering');
+        return { delivered: false, attempts: attempt - 1, statusCode };
+      }
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': id,
+            'X-Webhook-Signature': this.sign(body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        statusCode = response.status;
+
+        if (response.ok) {
+          return { delivered: true, attempts: attempt, statusCode };
+        }
+
+        logger.warn({ url, id, attempt, statusCode }, 'Webhook rejected by receiver');
+      } catch (error) {
+        logger.warn({ url, id, attempt, error: error instanceof Error ? error.message : String(error) }, 'Webhook delivery failed');
+      }
+
+      if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+
+    return { delivered: false, attempts: WEBHOOK_MAX_ATTEMPTS, statusCode };
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -1,21 +1,47 @@
+import crypto from 'crypto';
 import { config } from '../config/index.js';
-
-/** USDC token address on Solana mainnet */
-const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+import {
+  evmUsdcContracts,
+  getPaymentAsset,
+  getSolanaX402Network,
+  type PaymentAsset,
+} from '../config/assets.js';
+import type { PaymentCurrency, X402Network } from '../types/payment.js';
+import { cacheService } from './cache.js';
+import { databaseService } from './database.js';
+import type { PriceAdjustment, PriceQuote } from './pricing.js';
+import { quoteAssetAmount, toAtomicUnits } from './priceOracle.js';
+import { logger } from '../utils/logger.js';
 
 /** x402 protocol version */
 const X402_VERSION = 1;
 
+/** How long a client has to pay an issued challenge (5 minutes) */
+export const PAYMENT_TIMEOUT_SECONDS = 300;
+
+/** Extra time an issued challenge is kept after it expires, to allow for confirmation lag */
+const ISSUED_REQUIREMENT_GRACE_SECONDS = 300;
+
 /** Payment requirement for x402 protocol */
 export interface X402PaymentRequirement {
   scheme: 'exact';
-  network: 'solana-mainnet';
+  network: X402Network;
   maxAmountRequired: string; // Amount in atomic units (smallest denomination)
   resource: string;
   payTo: string;
-  asset: string; // USDC SPL token address
+  asset: string; // SPL token mint (wrapped SOL mint for native SOL) or EVM token contract
   maxTimeoutSeconds: number;
   memo: string; // Unique memo to prevent replay attacks
+  extra?: {
+    currency: PaymentCurrency;
+    decimals: number;
+    /** How the price was computed, when it differs from the base price */
+    pricing?: {
+      basePriceUSD: number;
+      priceUSD: number;
+      adjustments: PriceAdjustment[];
+    };
+  };
 }
 
 /** x402 payment required response */
@@ -33,9 +59,17 @@ export interface X402Payment {
   payload: {
     signature: string;
     fromAddress: string;
+    memo?: string; // Memo of the 402 challenge this payment answers
   };
 }
 
+/** Payment requirement as issued to a client, stored for memo binding */
+export interface IssuedPaymentRequirement extends X402PaymentRequirement {
+  priceUSD: number; // Endpoint price the amount was quoted from
+  issuedAt: number; // Unix seconds
+  expiresAt: number; // Unix seconds, payment must land on-chain before this
+}
+
 /** x402 payment response after settlement */
 export interface X402PaymentResponse {
   success: boolean;
@@ -45,12 +79,12 @@ export interface X402PaymentResponse {
 
 /**
  * Convert USDC amount to atomic units (6 decimals for USDC)
+ * Rounds up like `quoteAssetAmount`, so adjusted prices are never undercharged.
  * @param usdcAmount Amount in USDC (e.g., 0.01)
  * @returns Amount in atomic units as string
  */
 export function usdcToAtomicUnits(usdcAmount: number): string {
-  const atomicUnits = Math.floor(usdcAmount * 1_000_000); // USDC has 6 decimals
-  return atomicUnits.toString();
+  return toAtomicUnits(usdcAmount, 6);
 }
 
 /**
@@ -60,133 +94,232 @@ export function usdcToAtomicUnits(usdcAmount: number): string {
  */
 export function generatePaymentMemo(): string {
   const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 15);
+  const random = crypto.randomBytes(8).toString('hex');
   return `pay_${timestamp}_${random}`;
 }
 
 /**
- * Create x402 payment requirement
+ * Create x402 payment requirement on the configured Solana cluster
  * @param resource The requested resource path
  * @param usdcAmount Amount in USDC
+ * @param asset Asset to pay with (defaults to the cluster's USDC)
+ * @param atomicAmount Amount in the asset's atomic units (defaults to the USDC amount)
  * @returns x402 payment requirement object
  */
 export function createPaymentRequirement(
   resource: string,
-  usdcAmount: number
+  usdcAmount: number,
+  asset: PaymentAsset | undefined = getPaymentAsset('USDC'),
+  atomicAmount: string = usdcToAtomicUnits(usdcAmount)
 ): X402PaymentRequirement {
+  const network = getSolanaX402Network();
+
+  if (!asset) {
+    throw new Error(`USDC is not available on ${network}, set PAYMENT_USDC_MINT`);
+  }
+
   return {
     scheme: 'exact',
-    network: 'solana-mainnet',
-    maxAmountRequired: usdcToAtomicUnits(usdcAmount),
+    network,
+    maxAmountRequired: atomicAmount,
     resource,
     payTo: config.payment.recipientAddress || '',
-    asset: USDC_MINT,
-    maxTimeoutSeconds: 300, // 5 minutes
+    asset: asset.mint,
+    maxTimeoutSeconds: PAYMENT_TIMEOUT_SECONDS,
     memo: generatePaymentMemo(), // Unique memo for each payment challenge
+    extra: {
+      currency: asset.currency,
+      decimals: asset.decimals,
+    },
   };
 }
 
 /**
- * Create x402 payment required response
+ * Create x402 `exact` USDC payment requirement on the configured EVM network
+ * Not offered in 402 responses yet: a Base transfer carries nothing from the challenge, so
+ * anyone watching the chain could claim someone else's payment with their own challenge.
  * @param resource The requested resource path
  * @param usdcAmount Amount in USDC
- * @returns x402 payment required response
+ * @returns x402 payment requirement object, or null if EVM payments aren't configured
  */
-export function createPaymentRequiredResponse(
+export function createEvmPaymentRequirement(
   resource: string,
   usdcAmount: number
-): X402PaymentRequired {
+): X402PaymentRequirement | null {
+  const { network, recipientAddress, rpcUrl } = config.payment.evm;
+
+  if (!recipientAddress || !rpcUrl) {
+    return null;
+  }
+
   return {
-    x402Version: X402_VERSION,
-    accepts: [createPaymentRequirement(resource, usdcAmount)],
-    error: 'Payment Required',
+    scheme: 'exact',
+    network,
+    maxAmountRequired: usdcToAtomicUnits(usdcAmount),
+    resource,
+    payTo: recipientAddress,
+    asset: evmUsdcContracts[network],
+    maxTimeoutSeconds: PAYMENT_TIMEOUT_SECONDS,
+    memo: generatePaymentMemo(),
+    extra: {
+      currency: 'USDC',
+      decimals: 6,
+    },
   };
 }
 
 /**
- * Verify x402 payment via PayAI facilitator
- * @param payment Payment payload from X-PAYMENT header
- * @param requirement Payment requirement that was sent
- * @returns True if payment is valid
+ * Store an issued payment requirement so a later payment can be bound to its memo
+ * Kept in Postgres, so a client that paid can still redeem it when Redis is down, and in
+ * Redis as the fast path.
+ * @param requirement Payment requirement sent to the client
+ * @param priceUSD Endpoint price the requirement was quoted from
+ * @returns The stored requirement with issue and expiry times
  */
-export async function verifyPayment(
-  payment: X402Payment,
-  requirement: X402PaymentRequirement
-): Promise<boolean> {
-  try {
-    // Call PayAI facilitator verify endpoint
-    const response = await fetch(`${config.payment.facilitatorUrl}/verify`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        x402Version: payment.x402Version,
-        paymentHeader: payment,
-        paymentRequirements: requirement,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Payment verification failed:', response.statusText);
-      return false;
+export async function storeIssuedRequirement(
+  requirement: X402PaymentRequirement,
+  priceUSD: number
+): Promise<IssuedPaymentRequirement> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const issued: IssuedPaymentRequirement = {
+    ...requirement,
+    priceUSD,
+    issuedAt,
+    expiresAt: issuedAt + requirement.maxTimeoutSeconds,
+  };
+
+  await saveIssuedRequirement(issued, requirement.maxTimeoutSeconds + ISSUED_REQUIREMENT_GRACE_SECONDS);
+
+  return issued;
+}
+
+/**
+ * Put a redeemed requirement back, when the request its payment paid for could not be completed
+ * Keeps the original issue and expiry times, so the client can resend the same payment.
+ * @param issued Requirement as looked up before the payment redeemed it
+ */
+export async function restoreIssuedRequirement(issued: IssuedPaymentRequirement): Promise<void> {
+  const ttlSeconds = issued.expiresAt - Math.floor(Date.now() / 1000) + ISSUED_REQUIREMENT_GRACE_SECONDS;
+  if (ttlSeconds > 0) {
+    await saveIssuedRequirement(issued, ttlSeconds);
+  }
+}
+
+/** Write an issued requirement to Redis and Postgres */
+async function saveIssuedRequirement(issued: IssuedPaymentRequirement, ttlSeconds: number): Promise<void> {
+  await cacheService.set(`payment:challenge:${issued.memo}`, issued, ttlSeconds);
+
+  if (databaseService.connected) {
+    try {
+      // Expired challenges are pruned as new ones are issued
+      await databaseService.query(
+        `WITH pruned AS (DELETE FROM payment_challenges WHERE expires_at < NOW())
+         INSERT INTO payment_challenges (memo, requirement, expires_at)
+         VALUES ($1, $2, NOW() + make_interval(secs => $3))
+         ON CONFLICT (memo) DO NOTHING`,
+        [issued.memo, JSON.stringify(issued), ttlSeconds]
+      );
+    } catch (error) {
+      logger.error({ error, memo: issued.memo }, 'Failed to store issued payment challenge');
     }
+  }
+}
 
-    const result = await response.json() as { isValid: boolean; invalidReason?: string };
-    return result.isValid === true;
+/**
+ * Look up a previously issued payment requirement by its memo
+ * @param memo Memo from the payment payload
+ * @returns Issued requirement, or null if unknown or expired
+ */
+export async function getIssuedRequirement(memo: string): Promise<IssuedPaymentRequirement | null> {
+  const cached = await cacheService.get<IssuedPaymentRequirement>(`payment:challenge:${memo}`);
+  if (cached || !databaseService.connected) {
+    return cached;
+  }
+
+  try {
+    const result = await databaseService.query<{ requirement: IssuedPaymentRequirement }>(
+      'SELECT requirement FROM payment_challenges WHERE memo = $1 AND expires_at > NOW()',
+      [memo]
+    );
+    return result.rows[0]?.requirement ?? null;
   } catch (error) {
-    console.error('Error verifying payment:', error);
-    return false;
+    logger.error({ error, memo }, 'Failed to look up issued payment challenge');
+    return null;
   }
 }
 
 /**
- * Settle x402 payment via PayAI facilitator
- * @param payment Payment payload from X-PAYMENT header
- * @returns Payment response with transaction hash
+ * Remove an issued requirement once a payment has redeemed it
+ * @param memo Memo of the redeemed challenge
  */
-export async function settlePayment(
-  payment: X402Payment
-): Promise<X402PaymentResponse | null> {
-  try {
-    // Call PayAI facilitator settle endpoint
-    const response = await fetch(`${config.payment.facilitatorUrl}/settle`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        x402Version: payment.x402Version,
-        paymentHeader: payment,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Payment settlement failed:', response.statusText);
-      return null;
+export async function consumeIssuedRequirement(memo: string): Promise<void> {
+  await cacheService.delete(`payment:challenge:${memo}`);
+
+  if (databaseService.connected) {
+    try {
+      await databaseService.query('DELETE FROM payment_challenges WHERE memo = $1', [memo]);
+    } catch (error) {
+      logger.error({ error, memo }, 'Failed to remove redeemed payment challenge');
     }
+  }
+}
 
-    const result = await response.json() as {
-      success: boolean;
-      error?: string;
-      txHash?: string;
-      networkId?: string
-    };
+/**
+ * Create x402 payment required response
+ * Lists one requirement per accepted currency available on the Solana cluster, with non-USDC
+ * amounts converted through the price oracle. Every requirement is stored so the payment can
+ * be bound to its memo.
+ * @param resource The requested resource path
+ * @param usdcAmount Amount in USDC
+ * @param currencies Currencies to offer (defaults to the configured accepted currencies)
+ * @param pricing Price quote the amount was computed from, included in each requirement
+ * @returns x402 payment required response
+ */
+export async function createPaymentRequiredResponse(
+  resource: string,
+  usdcAmount: number,
+  currencies: readonly PaymentCurrency[] = config.payment.acceptedCurrencies,
+  pricing?: PriceQuote
+): Promise<X402PaymentRequired> {
+  const accepts: X402PaymentRequirement[] = [];
+  const withPricing = (requirement: X402PaymentRequirement): X402PaymentRequirement =>
+    pricing?.adjustments.length && requirement.extra
+      ? {
+          ...requirement,
+          extra: {
+            ...requirement.extra,
+            pricing: {
+              basePriceUSD: pricing.basePriceUSD,
+              priceUSD: pricing.priceUSD,
+              adjustments: pricing.adjustments,
+            },
+          },
+        }
+      : requirement;
 
-    if (!result.success) {
-      console.error('Settlement returned error:', result.error);
-      return null;
+  for (const currency of currencies) {
+    const asset = getPaymentAsset(currency);
+    if (!asset) {
+      logger.warn({ currency, resource }, 'Payment asset not available on this cluster, omitting');
+      continue;
     }
 
-    return {
-      success: true,
-      txHash: result.txHash || '',
-      networkId: result.networkId || '',
-    };
-  } catch (error) {
-    console.error('Error settling payment:', error);
-    return null;
+    const atomicAmount = await quoteAssetAmount(usdcAmount, asset);
+    if (!atomicAmount) {
+      logger.warn({ currency, resource }, 'Could not price payment asset, omitting from accepts');
+      continue;
+    }
+
+    const requirement = withPricing(createPaymentRequirement(resource, usdcAmount, asset, atomicAmount));
+    await storeIssuedRequirement(requirement, usdcAmount);
+    accepts.push(requirement);
   }
+
+  return {
+    x402Version: X402_VERSION,
+    accepts,
+    error: 'Payment Required',
+  };
 }
 
 /**
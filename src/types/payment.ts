@@ -1,11 +1,21 @@
 /** x402 Payment Protocol Types */
 
-/** Payment mode: mock, test (devnet), or production (mainnet) */
-export type PaymentMode = 'mock' | 'test' | 'payai';
+import type { X402Payment } from '../services/x402.js';
+
+/** Payment mode: mock, test (PayAI on devnet), payai (PayAI on mainnet), or direct on-chain */
+export type PaymentMode = 'mock' | 'test' | 'payai' | 'onchain';
 
 /** Payment network (blockchain) */
 export type PaymentNetwork = 'solana' | 'ethereum' | 'base' | 'polygon';
 
+/** x402 network identifier used in payment requirements */
+export type X402Network =
+  | 'solana-mainnet'
+  | 'solana-devnet'
+  | 'solana-testnet'
+  | 'base'
+  | 'base-sepolia';
+
 /** Payment currency/token */
 export type PaymentCurrency = 'USDC' | 'USDT' | 'SOL';
 
@@ -55,26 +65,32 @@ export interface PaymentProof {
   metadata?: Record<string, unknown>;
 }
 
-/** Validated payment proof */
+/** Validated x402 payment */
 export interface ValidatedPayment {
   /** Whether payment is valid */
   valid: boolean;
-  /** Payment proof data */
-  proof: PaymentProof;
+  /** Payment payload from the X-PAYMENT header */
+  payment: X402Payment;
   /** Wallet address that paid */
   wallet: string;
-  /** Amount paid */
+  /** Amount paid (USD price of the endpoint) */
   amount: number;
   /** Currency used */
   currency: PaymentCurrency;
+  /** Amount paid in the currency's atomic units, when a challenge was answered */
+  paidAmount?: string;
   /** Endpoint being accessed */
   endpoint: string;
+  /** Payment mode that validated the payment */
+  mode: PaymentMode;
   /** When payment was verified */
   verifiedAt: Date;
   /** When payment proof expires */
   expiresAt: Date;
   /** Optional error message if invalid */
   error?: string;
+  /** HTTP status to reject with if invalid (defaults to 402) */
+  statusCode?: number;
   /** On-chain transaction hash (if settled) */
   transactionHash?: string;
   /** Network ID where transaction was settled */
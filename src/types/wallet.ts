@@ -62,6 +62,82 @@ export interface WalletActivity {
   firstTransaction?: string;
   lastTransaction?: string;
   recentTransactions: Transaction[];
+  /** Cursor for the next (older) page, passed as `?before=` */
+  nextBefore?: string;
+}
+
+/** One page of a wallet's transaction history */
+export interface TransactionHistory {
+  address: string;
+  /** Transactions on this page that match the filters, newest first */
+  transactions: Transaction[];
+  /** Signatures scanned for this page */
+  scanned: number;
+  /** Cursor for the next (older) page, passed as `?before=`; absent once the history is exhausted */
+  nextBefore?: string;
+}
+
+/** Portfolio holdings and value at one point in time */
+export interface PortfolioHistoryPoint {
+  /** Unix seconds */
+  timestamp: number;
+  solBalance: number;
+  /** Priced token holdings at this point (unpriced tokens and NFTs are left out) */
+  tokens: { mint: string; amount: number; valueUSD: number }[];
+  valueUSD: number;
+}
+
+/** Portfolio value over time, reconstructed from the wallet's transactions */
+export interface PortfolioHistory {
+  address: string;
+  interval: string;
+  /** First and last point, Unix seconds */
+  from: number;
+  to: number;
+  /** Oldest first */
+  points: PortfolioHistoryPoint[];
+  /** Tokens held during the window that couldn't be valued (counted as 0) */
+  unpricedMints: string[];
+  /** Older points were dropped because the wallet has more transactions than can be replayed */
+  truncated: boolean;
+  transactionsReplayed: number;
+  priceSource: string;
+}
+
+/** Profit and loss of one token */
+export interface TokenPnl {
+  mint: string;
+  /** Quantity left in the lots */
+  quantity: number;
+  /** Cost of the remaining lots */
+  costBasisUSD: number;
+  averageCostUSD: number | null;
+  currentPriceUSD: number | null;
+  realizedPnlUSD: number;
+  /** Null when the token has no current price */
+  unrealizedPnlUSD: number | null;
+  /**
+   * False when some cost or proceeds are unknown (counted as 0): tokens acquired before the
+   * replayed history, or trades that couldn't be priced
+   */
+  costBasisComplete: boolean;
+}
+
+/** Wallet profit and loss, from cost basis lots built over its trade and transfer history */
+export interface WalletPnl {
+  address: string;
+  method: 'fifo' | 'lifo' | 'average';
+  tokens: TokenPnl[];
+  totals: {
+    realizedPnlUSD: number;
+    unrealizedPnlUSD: number;
+    costBasisUSD: number;
+    valueUSD: number;
+  };
+  transactionsReplayed: number;
+  /** The wallet has more transactions than can be replayed, the oldest were left out */
+  truncated: boolean;
+  priceSource: string;
 }
 
 /** Transaction info */
@@ -72,8 +148,76 @@ export interface Transaction {
   status: 'success' | 'failed';
   fee: number;
   description?: string;
+  /** What the transaction did, decoded from its top-level instructions */
+  events: TransactionEvent[];
+  /** What moved in and out of the wallet (absent if the transaction couldn't be fetched) */
+  balanceChanges?: BalanceChanges;
 }
 
+/** Net change of one token */
+export interface TokenBalanceChange {
+  mint: string;
+  decimals: number;
+  /** UI amount, negative when the balance went down */
+  amount: number;
+}
+
+/** How a transaction changed the wallet's balances */
+export interface BalanceChanges {
+  /** SOL change of the wallet account, fee included */
+  sol: number;
+  /** Change of each token the wallet holds (wrapped SOL included), unchanged tokens omitted */
+  tokens: TokenBalanceChange[];
+  /** Accounts on the other side: SOL accounts and token owners whose balance moved opposite to the wallet's */
+  counterparties: string[];
+}
+
+/** A token swapped for another, from the wallet's side (SOL is reported as the wrapped SOL mint) */
+export interface SwapEvent {
+  type: 'swap';
+  program: string;
+  inputMint: string;
+  inputAmount: number;
+  outputMint: string;
+  outputAmount: number;
+}
+
+/** SOL staked or unstaked, natively or through a liquid staking pool */
+export interface StakeEvent {
+  type: 'stake' | 'unstake';
+  program: string;
+  /** SOL staked, or received back (0 while a delayed unstake is pending) */
+  amount: number;
+  /** Stake account (native staking) */
+  stakeAccount?: string;
+  /** Liquid staking token minted or burned */
+  mint?: string;
+  tokenAmount?: number;
+}
+
+/** NFT bought or sold on a marketplace */
+export interface NftTradeEvent {
+  type: 'nft_buy' | 'nft_sell';
+  program: string;
+  mint: string;
+  /** SOL paid or received by the wallet */
+  price: number;
+}
+
+/** SOL or token transfer */
+export interface TransferEvent {
+  type: 'transfer';
+  program: string;
+  /** Token mint, absent for SOL */
+  mint?: string;
+  amount: number;
+  /** Source and destination accounts (token accounts for token transfers) */
+  source: string;
+  destination: string;
+}
+
+export type TransactionEvent = SwapEvent | StakeEvent | NftTradeEvent | TransferEvent;
+
 /** Risk assessment data */
 export interface WalletRisk {
   address: string;
@@ -0,0 +1,25 @@
+/**
+ * Map over items with at most `limit` calls in flight
+ * Results are in item order. Rejections propagate, so callers that want per-item
+ * errors should catch inside `fn`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+}
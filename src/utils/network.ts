@@ -0,0 +1,84 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+/** Addresses that aren't reachable on the public internet (private, loopback, link-local, ...) */
+const nonPublicAddresses = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local (cloud metadata endpoints)
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Hostname without the brackets URLs put around IPv6 addresses */
+function bareHostname(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/** Check an IP address is publicly routable (IPv4-mapped IPv6 addresses are checked as IPv4) */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPublicAddress(mapped[1]!);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !nonPublicAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check a hostname isn't a local name or a non-public IP address, without resolving it
+ * Names that resolve to internal addresses are caught by {@link resolvesToPublicAddresses}.
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = bareHostname(hostname).toLowerCase();
+
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  return host !== 'localhost' && !host.endsWith('.localhost');
+}
+
+/**
+ * Check every address a hostname resolves to is publicly routable
+ * @returns False for non-public addresses, and for names that don't resolve
+ */
+export async function resolvesToPublicAddresses(hostname: string): Promise<boolean> {
+  const host = bareHostname(hostname);
+
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+}
@@ -142,6 +142,250 @@ describe('Fastify App Integration', () => {
     });
   });
 
+  describe('Payment History', () => {
+    it('should require a wallet signature', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/payments/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK',
+      });
+
+      expect(response.statusCode).toBe(401);
+      const body = JSON.parse(response.body);
+      expect(body.message).toContain('X-WALLET-SIGNATURE');
+    });
+
+    it('should reject invalid signatures', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/payments/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK',
+        headers: {
+          'x-wallet-signature': '5'.repeat(88),
+          'x-wallet-timestamp': Math.floor(Date.now() / 1000).toString(),
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('GET /.well-known/x402', () => {
+    it('should describe every paid route', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/.well-known/x402',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.x402Version).toBe(1);
+      expect(body.maxTimeoutSeconds).toBeGreaterThan(0);
+      expect(body.accepts.length).toBeGreaterThan(0);
+
+      const overview = body.resources.find((r: any) => r.resource === '/api/v1/wallet/:address/overview');
+      expect(overview.priceUSD).toBe(0.01);
+      expect(overview.inputSchema.params.required).toContain('address');
+      expect(overview.outputSchema.properties.data).toBeDefined();
+
+      const activity = body.resources.find((r: any) => r.resource === '/api/v1/wallet/:address/activity');
+      expect(activity.depthPricing.param).toBe('limit');
+      expect(activity.inputSchema.querystring.properties.limit).toBeDefined();
+    });
+  });
+
+  describe('GET /openapi.json', () => {
+    it('should document the paid routes and the 402 response', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/openapi.json',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.openapi).toBe('3.1.0');
+      expect(body.components.securitySchemes.x402Payment.name).toBe('X-PAYMENT');
+      expect(body.components.schemas.X402PaymentRequired).toBeDefined();
+
+      const activity = body.paths['/api/v1/wallet/{address}/activity'].get;
+      expect(activity.responses['402'].content['application/json'].schema.$ref).toBe(
+        '#/components/schemas/X402PaymentRequired'
+      );
+      expect(activity.parameters.map((p: any) => p.name)).toEqual(['address', 'limit', 'before']);
+    });
+
+    it('should serve the interactive docs', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/docs',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/html');
+    });
+  });
+
+  describe('Query Parameters', () => {
+    const activityUrl = '/api/v1/wallet/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK/activity';
+
+    it('should reject unknown query parameters before charging', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${activityUrl}?foo=bar`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.message).toBe('Invalid query parameter: foo');
+    });
+
+    it('should reject out of range limits before charging', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${activityUrl}?limit=5000`,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should scale the price with the requested depth', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${activityUrl}?limit=500`,
+      });
+
+      expect(response.statusCode).toBe(402);
+      const body = JSON.parse(response.body);
+      // 0.10 USDC base + 4 steps of 100 transactions at 0.05 USDC
+      expect(body.accepts[0].maxAmountRequired).toBe('300000');
+      expect(body.accepts[0].extra.pricing.basePriceUSD).toBe(0.1);
+    });
+  });
+
+  describe('GET /api/v1/wallet/:address/transactions', () => {
+    const transactionsUrl = '/api/v1/wallet/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK/transactions';
+
+    it('should price every page the same', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${transactionsUrl}?limit=100&status=success&from=1700000000`,
+      });
+
+      expect(response.statusCode).toBe(402);
+      const body = JSON.parse(response.body);
+      expect(body.accepts[0].maxAmountRequired).toBe('20000');
+    });
+
+    it('should reject invalid filters before charging', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${transactionsUrl}?status=pending`,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/wallet/:address/history', () => {
+    const historyUrl = '/api/v1/wallet/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK/history';
+
+    it('should require payment for a series', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${historyUrl}?interval=1w`,
+      });
+
+      expect(response.statusCode).toBe(402);
+      const body = JSON.parse(response.body);
+      expect(body.accepts[0].maxAmountRequired).toBe('250000');
+    });
+
+    it('should reject windows with too many points before charging', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${historyUrl}?interval=1h&from=0`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.details[0]).toContain('from: At most 365 points per series');
+    });
+  });
+
+  describe('GET /api/v1/wallet/:address/pnl', () => {
+    const pnlUrl = '/api/v1/wallet/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK/pnl';
+
+    it('should require the premium price', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${pnlUrl}?method=lifo`,
+      });
+
+      expect(response.statusCode).toBe(402);
+      const body = JSON.parse(response.body);
+      expect(body.accepts[0].maxAmountRequired).toBe('500000');
+    });
+
+    it('should reject unknown cost basis methods before charging', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `${pnlUrl}?method=hifo`,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/wallets/batch', () => {
+    const addresses = ['DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK', '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM'];
+
+    it('should quote one combined price for the batch', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/wallets/batch',
+        payload: { addresses, analyses: ['overview', 'risk'] },
+      });
+
+      expect(response.statusCode).toBe(402);
+      const body = JSON.parse(response.body);
+      // (0.01 overview + 0.10 risk) x 2 addresses
+      expect(body.accepts[0].maxAmountRequired).toBe('220000');
+      expect(body.accepts[0].resource).toBe('/api/v1/wallets/batch');
+    });
+
+    it('should reject invalid batches before charging', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/wallets/batch',
+        payload: { addresses: [addresses[0], 'not-a-wallet'], analyses: ['overview'] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.details).toEqual(['addresses.1: Invalid Solana wallet address']);
+    });
+  });
+
+  describe('Jobs', () => {
+    it('should not charge for jobs that cannot be stored', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/jobs',
+        payload: { addresses: ['DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'], analyses: ['risk'] },
+      });
+
+      // Without a database jobs are unavailable, otherwise the job is priced like a batch
+      expect([402, 503]).toContain(response.statusCode);
+    });
+
+    it('should not require payment to poll a job', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/jobs/00000000-0000-4000-8000-000000000000',
+      });
+
+      expect([404, 503]).toContain(response.statusCode);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle internal errors gracefully', async () => {
       // Route registered in beforeAll()
@@ -1,14 +1,34 @@
-import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
 import { createApp } from '../../src/app.js';
-import { MockPaymentValidator } from '../../src/services/payment/mock.js';
+import { MockPaymentProvider } from '../../src/services/payment/mock.js';
+import { solanaService } from '../../src/services/solana.js';
 import { cacheService } from '../../src/services/cache.js';
 import { databaseService } from '../../src/services/database.js';
+import type { X402Payment, X402PaymentRequired } from '../../src/services/x402.js';
+import type { WalletOverview } from '../../src/types/wallet.js';
 import type { FastifyInstance } from 'fastify';
 
 describe('x402 Payment Middleware Integration', () => {
   let app: FastifyInstance;
-  const testEndpoint = '/api/v1/wallet/test-address/overview';
-  const testNonces: string[] = [];
+  const address = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+  const otherAddress = 'So11111111111111111111111111111111111111112';
+  const testEndpoint = `/api/v1/wallet/${address}/overview`;
+  const testMemos: string[] = [];
+  const testSignatures: string[] = [];
+
+  /** Ask for a 402 challenge and keep its memo for cleanup */
+  async function challenge(url = testEndpoint): Promise<X402PaymentRequired> {
+    const response = await app.inject({ method: 'GET', url });
+    const body = JSON.parse(response.body) as X402PaymentRequired;
+    testMemos.push(...body.accepts.map((requirement) => requirement.memo));
+    return body;
+  }
+
+  /** Mock payment answering a challenge, encoded as an X-PAYMENT header */
+  function paymentHeader(payment: X402Payment): string {
+    testSignatures.push(payment.payload.signature);
+    return Buffer.from(JSON.stringify(payment)).toString('base64');
+  }
 
   beforeAll(async () => {
     app = await createApp();
@@ -19,392 +39,187 @@ describe('x402 Payment Middleware Integration', () => {
     await app.close();
   });
 
+  beforeEach(() => {
+    vi.spyOn(solanaService, 'getWalletOverview').mockResolvedValue({ address } as unknown as WalletOverview);
+  });
+
   afterEach(async () => {
-    // Clean up test nonces from cache and database
-    for (const nonce of testNonces) {
-      await cacheService.delete(`payment:nonce:${nonce}`);
-      await cacheService.delete(`payment:validated:${nonce}`);
-      await databaseService.query('DELETE FROM payment_proofs WHERE nonce = $1', [nonce]);
+    vi.restoreAllMocks();
+
+    for (const memo of testMemos) {
+      await cacheService.delete(`payment:challenge:${memo}`);
+      await databaseService.query('DELETE FROM payment_challenges WHERE memo = $1', [memo]);
+    }
+    for (const signature of testSignatures) {
+      await databaseService.query('DELETE FROM payment_settlements WHERE signature = $1', [signature]);
+      await databaseService.query('DELETE FROM payment_proofs WHERE nonce = $1', [signature]);
     }
-    testNonces.length = 0;
+    testMemos.length = 0;
+    testSignatures.length = 0;
   });
 
   describe('402 Payment Required', () => {
-    it('should return 402 when no payment proof provided', async () => {
-      const response = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      expect(response.statusCode).toBe(402);
-      expect(response.headers['x-payment-required']).toBe('x402');
-      expect(response.headers['x-payment-amount']).toBeDefined();
-      expect(response.headers['x-payment-currency']).toBe('USDC');
-      expect(response.headers['x-payment-network']).toBe('solana');
-      expect(response.headers['x-payment-challenge']).toBeDefined();
-
-      const body = JSON.parse(response.body);
-      expect(body.error).toBe('Payment Required');
-      expect(body.payment).toBeDefined();
-      expect(body.payment.protocol).toBe('x402');
-      expect(body.payment.amount).toBeGreaterThan(0);
-      expect(body.payment.challenge).toBeDefined();
-    });
-
-    it('should include valid payment challenge in 402 response', async () => {
-      const response = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
+    it('should return payment requirements when no X-PAYMENT is provided', async () => {
+      const response = await app.inject({ method: 'GET', url: testEndpoint });
 
       expect(response.statusCode).toBe(402);
 
-      const body = JSON.parse(response.body);
-      const challenge = body.payment.challenge;
+      const body = JSON.parse(response.body) as X402PaymentRequired;
+      testMemos.push(...body.accepts.map((requirement) => requirement.memo));
 
-      // Decode base64 challenge
-      const decodedChallenge = JSON.parse(Buffer.from(challenge, 'base64').toString('utf-8'));
+      expect(body.x402Version).toBe(1);
+      expect(body.accepts.length).toBeGreaterThan(0);
+      expect(body.accepts[0]?.scheme).toBe('exact');
+      expect(body.accepts[0]?.resource).toBe(testEndpoint);
+      expect(Number(body.accepts[0]?.maxAmountRequired)).toBeGreaterThan(0);
+      expect(body.accepts[0]?.memo).toMatch(/^pay_\d+_[a-f0-9]{16}$/);
+    });
 
-      expect(decodedChallenge.protocol).toBe('x402');
-      expect(decodedChallenge.nonce).toMatch(/^nonce-/);
-      expect(decodedChallenge.amount).toBeGreaterThan(0);
-      expect(decodedChallenge.currency).toBe('USDC');
-      expect(decodedChallenge.network).toBe('solana');
-      expect(decodedChallenge.timestamp).toBeDefined();
-      expect(decodedChallenge.expiresAt).toBeDefined();
+    it('should issue a new memo for each challenge', async () => {
+      const first = await challenge();
+      const second = await challenge();
 
-      testNonces.push(decodedChallenge.nonce);
+      expect(first.accepts[0]?.memo).not.toBe(second.accepts[0]?.memo);
     });
   });
 
   describe('400 Bad Request', () => {
-    it('should return 400 for invalid payment proof format', async () => {
+    it('should return 400 for an X-PAYMENT header that is not a payment', async () => {
       const response = await app.inject({
         method: 'GET',
         url: testEndpoint,
-        headers: {
-          'x-payment-proof': 'invalid-base64-!@#$',
-        },
+        headers: { 'x-payment': Buffer.from('{"invalid": "json"').toString('base64') },
       });
 
       expect(response.statusCode).toBe(400);
-
-      const body = JSON.parse(response.body);
-      expect(body.error).toBe('Bad Request');
-      expect(body.message).toContain('Invalid payment proof');
+      expect(JSON.parse(response.body).x402Version).toBe(1);
     });
 
-    it('should return 400 for malformed payment proof JSON', async () => {
-      const invalidProof = Buffer.from('{"invalid": "json"').toString('base64');
+    it('should return 400 for an unsupported x402 version', async () => {
+      const payment = { ...MockPaymentProvider.generateMockPayment(address), x402Version: 2 };
 
       const response = await app.inject({
         method: 'GET',
         url: testEndpoint,
-        headers: {
-          'x-payment-proof': invalidProof,
-        },
+        headers: { 'x-payment': paymentHeader(payment) },
       });
 
       expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain('Unsupported x402 version');
     });
   });
 
-  describe('403 Payment Invalid', () => {
-    it('should return 403 for payment with wrong amount', async () => {
-      // First get a challenge to get the nonce
-      const challengeResponse = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      const challengeBody = JSON.parse(challengeResponse.body);
-      const decodedChallenge = JSON.parse(
-        Buffer.from(challengeBody.payment.challenge, 'base64').toString('utf-8')
-      );
-      testNonces.push(decodedChallenge.nonce);
-
-      // Create payment proof with wrong amount
-      const wrongProof = MockPaymentValidator.generateMockProof(0.001, 'TestWallet1234567890123456789012'); // Wrong amount (32 char wallet)
-      wrongProof.nonce = decodedChallenge.nonce; // Use valid nonce
-
-      const proofHeader = Buffer.from(JSON.stringify(wrongProof)).toString('base64');
+  describe('Payment rejected', () => {
+    it('should answer an invalid payment with a new challenge and the reason', async () => {
+      const { accepts } = await challenge();
+      const payment = MockPaymentProvider.generateMockPayment(address, accepts[0]?.memo);
+      payment.payload.signature = 'short';
 
       const response = await app.inject({
         method: 'GET',
         url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
+        headers: { 'x-payment': paymentHeader(payment) },
       });
 
-      expect(response.statusCode).toBe(403);
-
-      const body = JSON.parse(response.body);
-      expect(body.error).toBe('Payment Invalid');
-      expect(body.message).toContain('Amount mismatch');
-    });
-
-    it('should return 403 for expired payment proof', async () => {
-      // Get challenge
-      const challengeResponse = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      const challengeBody = JSON.parse(challengeResponse.body);
-      const decodedChallenge = JSON.parse(
-        Buffer.from(challengeBody.payment.challenge, 'base64').toString('utf-8')
-      );
-      testNonces.push(decodedChallenge.nonce);
-
-      // Create expired proof (10 minutes old)
-      const expiredProof = MockPaymentValidator.generateMockProof(
-        decodedChallenge.amount,
-        'TestWallet1234567890123456789012' // 32 char wallet
-      );
-      expiredProof.nonce = decodedChallenge.nonce;
-      expiredProof.timestamp = new Date(Date.now() - 10 * 60 * 1000).toISOString();
-
-      const proofHeader = Buffer.from(JSON.stringify(expiredProof)).toString('base64');
-
-      const response = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
-      });
-
-      expect(response.statusCode).toBe(403);
+      expect(response.statusCode).toBe(402);
 
-      const body = JSON.parse(response.body);
-      expect(body.message).toContain('expired');
+      const body = JSON.parse(response.body) as X402PaymentRequired & { error: string };
+      testMemos.push(...body.accepts.map((requirement) => requirement.memo));
+      expect(body.error).toContain('Invalid signature format');
+      expect(body.accepts.length).toBeGreaterThan(0);
     });
 
-    it('should return 403 for unknown nonce', async () => {
-      // Create proof with nonce that was never issued
-      const unknownProof = MockPaymentValidator.generateMockProof(0.05, 'TestWallet1234567890123456789012');
-      unknownProof.nonce = 'nonce-unknown-12345';
-
-      const proofHeader = Buffer.from(JSON.stringify(unknownProof)).toString('base64');
+    it('should reject a challenge issued for another resource', async () => {
+      const { accepts } = await challenge(`/api/v1/wallet/${otherAddress}/overview`);
+      const payment = MockPaymentProvider.generateMockPayment(address, accepts[0]?.memo);
 
       const response = await app.inject({
         method: 'GET',
         url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
+        headers: { 'x-payment': paymentHeader(payment) },
       });
 
-      expect(response.statusCode).toBe(403);
-
-      const body = JSON.parse(response.body);
-      expect(body.message).toContain('nonce');
+      expect(response.statusCode).toBe(402);
+      expect(solanaService.getWalletOverview).not.toHaveBeenCalled();
     });
   });
 
   describe('200 Success with Valid Payment', () => {
-    it('should grant access with valid payment proof', async () => {
-      // Step 1: Get payment challenge
-      const challengeResponse = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      expect(challengeResponse.statusCode).toBe(402);
-
-      const challengeBody = JSON.parse(challengeResponse.body);
-      const decodedChallenge = JSON.parse(
-        Buffer.from(challengeBody.payment.challenge, 'base64').toString('utf-8')
-      );
-      testNonces.push(decodedChallenge.nonce);
+    it('should grant access with a payment answering the challenge', async () => {
+      const { accepts } = await challenge();
+      const payment = MockPaymentProvider.generateMockPayment(address, accepts[0]?.memo);
 
-      // Step 2: Create valid payment proof
-      const validProof = MockPaymentValidator.generateMockProof(
-        decodedChallenge.amount,
-        'TestWallet1234567890123456789012' // 32 char wallet
-      );
-      validProof.nonce = decodedChallenge.nonce;
-
-      const proofHeader = Buffer.from(JSON.stringify(validProof)).toString('base64');
-
-      // Step 3: Make request with payment proof
       const response = await app.inject({
         method: 'GET',
         url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
+        headers: { 'x-payment': paymentHeader(payment) },
       });
 
       expect(response.statusCode).toBe(200);
 
       const body = JSON.parse(response.body);
       expect(body.success).toBe(true);
-      expect(body.payment).toBeDefined();
-      expect(body.payment.wallet).toBe('TestWallet1234567890123456789012');
-      expect(body.payment.amount).toBe(decodedChallenge.amount);
-    });
-
-    it('should include payment info in request context', async () => {
-      // Get challenge
-      const challengeResponse = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      const challengeBody = JSON.parse(challengeResponse.body);
-      const decodedChallenge = JSON.parse(
-        Buffer.from(challengeBody.payment.challenge, 'base64').toString('utf-8')
-      );
-      testNonces.push(decodedChallenge.nonce);
-
-      // Create and send valid payment
-      const validProof = MockPaymentValidator.generateMockProof(
-        decodedChallenge.amount,
-        'PaymentWallet123456789012345678' // 32 char wallet
-      );
-      validProof.nonce = decodedChallenge.nonce;
-
-      const proofHeader = Buffer.from(JSON.stringify(validProof)).toString('base64');
-
-      const response = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
-      });
-
-      expect(response.statusCode).toBe(200);
-
-      const body = JSON.parse(response.body);
-      expect(body.payment.wallet).toBe('PaymentWallet123456789012345678');
-      expect(body.payment.currency).toBe('USDC');
+      expect(body.payment.wallet).toBe(address);
+      expect(body.payment.mode).toBe('mock');
       expect(body.payment.verifiedAt).toBeDefined();
+      expect(solanaService.getWalletOverview).toHaveBeenCalledWith(address);
     });
   });
 
   describe('Replay Attack Prevention', () => {
-    it('should prevent reuse of payment proof', async () => {
-      // Step 1: Get challenge
-      const challengeResponse = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      const challengeBody = JSON.parse(challengeResponse.body);
-      const decodedChallenge = JSON.parse(
-        Buffer.from(challengeBody.payment.challenge, 'base64').toString('utf-8')
-      );
-      testNonces.push(decodedChallenge.nonce);
-
-      // Step 2: Create valid payment proof
-      const validProof = MockPaymentValidator.generateMockProof(
-        decodedChallenge.amount,
-        'ReplayTestWallet12345678901234567' // 35 char wallet
-      );
-      validProof.nonce = decodedChallenge.nonce;
+    it('should replay the stored response when the same X-PAYMENT is resent', async () => {
+      const { accepts } = await challenge();
+      const header = paymentHeader(MockPaymentProvider.generateMockPayment(address, accepts[0]?.memo));
+
+      const first = await app.inject({ method: 'GET', url: testEndpoint, headers: { 'x-payment': header } });
+      const second = await app.inject({ method: 'GET', url: testEndpoint, headers: { 'x-payment': header } });
+
+      expect(first.statusCode).toBe(200);
+      expect(second.statusCode).toBe(200);
+      expect(second.headers['idempotent-replayed']).toBe('true');
+      expect(second.body).toBe(first.body);
+      expect(solanaService.getWalletOverview).toHaveBeenCalledTimes(1);
+    });
 
-      const proofHeader = Buffer.from(JSON.stringify(validProof)).toString('base64');
+    it('should not let a payment unlock another resource', async () => {
+      const { accepts } = await challenge();
+      const payment = MockPaymentProvider.generateMockPayment(address, accepts[0]?.memo);
 
-      // Step 3: First request should succeed
-      const response1 = await app.inject({
+      const first = await app.inject({
         method: 'GET',
         url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
+        headers: { 'x-payment': paymentHeader(payment) },
       });
+      expect(first.statusCode).toBe(200);
 
-      expect(response1.statusCode).toBe(200);
+      const other = await challenge(`/api/v1/wallet/${otherAddress}/overview`);
+      const reused: X402Payment = { ...payment, payload: { ...payment.payload, memo: other.accepts[0]?.memo } };
 
-      // Step 4: Second request with same proof should fail (replay attack)
-      const response2 = await app.inject({
+      const response = await app.inject({
         method: 'GET',
-        url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
+        url: `/api/v1/wallet/${otherAddress}/overview`,
+        headers: { 'x-payment': paymentHeader(reused) },
       });
 
-      expect(response2.statusCode).toBe(403);
+      expect(response.statusCode).toBe(402);
 
-      const body = JSON.parse(response2.body);
-      expect(body.message).toContain('replay attack');
+      const body = JSON.parse(response.body) as X402PaymentRequired & { error: string };
+      testMemos.push(...body.accepts.map((requirement) => requirement.memo));
+      expect(body.error).toContain('replay attack');
     });
   });
 
   describe('Free Endpoints', () => {
     it('should not require payment for health endpoint', async () => {
-      const response = await app.inject({
-        method: 'GET',
-        url: '/health',
-      });
+      const response = await app.inject({ method: 'GET', url: '/health' });
 
       expect(response.statusCode).toBe(200);
-      expect(response.headers['x-payment-required']).toBeUndefined();
     });
 
     it('should not require payment for root endpoint', async () => {
-      const response = await app.inject({
-        method: 'GET',
-        url: '/',
-      });
+      const response = await app.inject({ method: 'GET', url: '/' });
 
       expect(response.statusCode).toBe(200);
-      expect(response.headers['x-payment-required']).toBeUndefined();
-    });
-  });
-
-  describe('Payment Caching', () => {
-    it('should use cached validation for retry requests', async () => {
-      // Get challenge
-      const challengeResponse = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-      });
-
-      const challengeBody = JSON.parse(challengeResponse.body);
-      const decodedChallenge = JSON.parse(
-        Buffer.from(challengeBody.payment.challenge, 'base64').toString('utf-8')
-      );
-      testNonces.push(decodedChallenge.nonce);
-
-      // Create valid payment
-      const validProof = MockPaymentValidator.generateMockProof(
-        decodedChallenge.amount,
-        'CacheTestWallet12345678901234567' // 35 char wallet
-      );
-      validProof.nonce = decodedChallenge.nonce;
-
-      const proofHeader = Buffer.from(JSON.stringify(validProof)).toString('base64');
-
-      // First request - validates and caches
-      const response1 = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
-      });
-
-      expect(response1.statusCode).toBe(200);
-
-      // The payment should now be in cache for retries
-      // But it should also be marked as used in database
-      // So subsequent requests should fail with replay error
-
-      const response2 = await app.inject({
-        method: 'GET',
-        url: testEndpoint,
-        headers: {
-          'x-payment-proof': proofHeader,
-        },
-      });
-
-      // Should fail because payment was already used and stored in DB
-      expect(response2.statusCode).toBe(403);
     });
   });
 });
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  WalletAnalyticsClient,
+  PaymentRequiredError,
+  SpendCapError,
+  decodePaymentResponse,
+  type PaymentSigner,
+  type X402PaymentRequired,
+} from '../../../src/client/index.js';
+
+const address = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+
+const challenge: X402PaymentRequired = {
+  x402Version: 1,
+  error: 'Payment required',
+  accepts: [
+    {
+      scheme: 'exact',
+      network: 'solana-devnet',
+      maxAmountRequired: '10000',
+      resource: `/api/v1/wallet/${address}/overview`,
+      payTo: 'RecipientWallet111111111111111111111111111',
+      asset: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+      maxTimeoutSeconds: 300,
+      memo: 'pay_1_abc',
+      extra: { currency: 'USDC', decimals: 6 },
+    },
+  ],
+};
+
+const settlement = { success: true, txHash: 'tx-signature', networkId: 'solana-devnet' };
+
+/** Fetch answering 402 until a request carries X-PAYMENT */
+function paywalledFetch() {
+  return vi.fn(async (_url: URL, init?: RequestInit) => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    if (!headers['X-PAYMENT']) {
+      return new Response(JSON.stringify(challenge), { status: 402 });
+    }
+    return new Response(JSON.stringify({ success: true, wallet: address, data: { address } }), {
+      status: 200,
+      headers: { 'X-PAYMENT-RESPONSE': Buffer.from(JSON.stringify(settlement)).toString('base64') },
+    });
+  });
+}
+
+function fakeSigner(): PaymentSigner {
+  return {
+    networks: ['solana-devnet'],
+    pay: vi.fn(async () => ({ signature: 'tx-signature', fromAddress: 'PayerWallet' })),
+  };
+}
+
+describe('WalletAnalyticsClient', () => {
+  it('should pay the 402 challenge and retry with X-PAYMENT', async () => {
+    const fetch = paywalledFetch();
+    const signer = fakeSigner();
+    const client = new WalletAnalyticsClient({ baseUrl: 'https://api.test', signer, fetch });
+
+    const response = await client.getOverview(address);
+
+    expect(response.data).toEqual({ address });
+    expect(response.paidUSD).toBe(0.01);
+    expect(response.settlement).toEqual(settlement);
+    expect(client.spentUSD).toBe(0.01);
+    expect(signer.pay).toHaveBeenCalledWith(challenge.accepts[0]);
+
+    const retry = fetch.mock.calls[1]![1]!.headers as Record<string, string>;
+    const payment = JSON.parse(Buffer.from(retry['X-PAYMENT']!, 'base64').toString('utf8'));
+    expect(payment.payload).toEqual({ signature: 'tx-signature', fromAddress: 'PayerWallet', memo: 'pay_1_abc' });
+    // The retry reuses the first attempt's Idempotency-Key
+    const first = fetch.mock.calls[0]![1]!.headers as Record<string, string>;
+    expect(retry['Idempotency-Key']).toBe(first['Idempotency-Key']);
+  });
+
+  it('should refuse to pay above the per-call cap', async () => {
+    const signer = fakeSigner();
+    const client = new WalletAnalyticsClient({
+      baseUrl: 'https://api.test',
+      signer,
+      fetch: paywalledFetch(),
+      maxPaymentPerCallUSD: 0.005,
+    });
+
+    await expect(client.getOverview(address)).rejects.toBeInstanceOf(SpendCapError);
+    expect(signer.pay).not.toHaveBeenCalled();
+  });
+
+  it('should stop paying once the session cap is reached', async () => {
+    const client = new WalletAnalyticsClient({
+      baseUrl: 'https://api.test',
+      signer: fakeSigner(),
+      fetch: paywalledFetch(),
+      maxSessionSpendUSD: 0.015,
+    });
+
+    await client.getOverview(address);
+    await expect(client.getOverview(address)).rejects.toBeInstanceOf(SpendCapError);
+    expect(client.spentUSD).toBe(0.01);
+  });
+
+  it('should surface the challenge without a signer', async () => {
+    const client = new WalletAnalyticsClient({ baseUrl: 'https://api.test', fetch: paywalledFetch() });
+
+    const error = await client.getOverview(address).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PaymentRequiredError);
+    expect(error.challenge).toEqual(challenge);
+  });
+
+  it('should send query parameters', async () => {
+    const fetch = paywalledFetch();
+    const client = new WalletAnalyticsClient({ baseUrl: 'https://api.test/', signer: fakeSigner(), fetch });
+
+    await client.getActivity(address, { limit: 250 });
+
+    expect(String(fetch.mock.calls[0]![0])).toBe(`https://api.test/api/v1/wallet/${address}/activity?limit=250`);
+  });
+
+  it('should decode X-PAYMENT-RESPONSE headers', () => {
+    expect(decodePaymentResponse(Buffer.from(JSON.stringify(settlement)).toString('base64'))).toEqual(settlement);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAssetByMint,
+  getPaymentAsset,
+  getSolanaX402Network,
+} from '../../../src/config/assets.js';
+
+describe('Payment assets', () => {
+  it('should map Solana clusters to x402 networks', () => {
+    expect(getSolanaX402Network('mainnet-beta')).toBe('solana-mainnet');
+    expect(getSolanaX402Network('devnet')).toBe('solana-devnet');
+    expect(getSolanaX402Network('testnet')).toBe('solana-testnet');
+  });
+
+  it('should use the USDC mint of each cluster', () => {
+    expect(getPaymentAsset('USDC', 'mainnet-beta')?.mint).toBe(
+      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+    );
+    expect(getPaymentAsset('USDC', 'devnet')?.mint).toBe(
+      '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'
+    );
+  });
+
+  it('should not offer assets a cluster does not have', () => {
+    expect(getPaymentAsset('USDT', 'devnet')).toBeUndefined();
+    expect(getPaymentAsset('SOL', 'testnet')?.native).toBe(true);
+  });
+
+  it('should look up assets by mint', () => {
+    expect(getAssetByMint('Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', 'mainnet-beta')?.currency).toBe(
+      'USDT'
+    );
+    expect(getAssetByMint('Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', 'devnet')).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { apiKeyService } from '../../../src/services/apiKeys.js';
+import { databaseService } from '../../../src/services/database.js';
+
+describe('ApiKeyService', () => {
+  const testName = `test-key-${Date.now()}`;
+
+  afterEach(async () => {
+    await databaseService.query(
+      'DELETE FROM api_key_usage WHERE api_key_id IN (SELECT id FROM api_keys WHERE name = $1)',
+      [testName]
+    );
+    await databaseService.query('DELETE FROM api_keys WHERE name = $1', [testName]);
+  });
+
+  it('should issue a key with its plan defaults', async () => {
+    const { apiKey, key } = await apiKeyService.createKey({ name: testName, plan: 'starter' });
+
+    expect(key).toMatch(/^wak_/);
+    expect(apiKey.keyPrefix).toBe(key.slice(0, 12));
+    expect(apiKey.monthlyQuota).toBe(10_000);
+    expect(apiKey.rateLimitMax).toBe(60);
+
+    const authenticated = await apiKeyService.authenticate(key);
+    expect(authenticated?.id).toBe(apiKey.id);
+  });
+
+  it('should not authenticate unknown keys', async () => {
+    const authenticated = await apiKeyService.authenticate('wak_unknown');
+    expect(authenticated).toBeNull();
+  });
+
+  it('should reject unknown plans', async () => {
+    await expect(apiKeyService.createKey({ name: testName, plan: 'platinum' })).rejects.toThrow(
+      'Unknown subscription plan'
+    );
+  });
+
+  it('should stop counting requests at the quota', async () => {
+    const { apiKey } = await apiKeyService.createKey({
+      name: testName,
+      plan: 'starter',
+      monthlyQuota: 2,
+    });
+
+    const first = await apiKeyService.recordUsage(apiKey);
+    const second = await apiKeyService.recordUsage(apiKey);
+    const third = await apiKeyService.recordUsage(apiKey);
+
+    expect(first.allowed).toBe(true);
+    expect(second).toMatchObject({ allowed: true, used: 2 });
+    expect(third).toMatchObject({ allowed: false, used: 2, quota: 2 });
+
+    const usage = await apiKeyService.getUsage(apiKey);
+    expect(usage.used).toBe(2);
+  });
+
+  it('should not authenticate revoked keys', async () => {
+    const { apiKey, key } = await apiKeyService.createKey({ name: testName, plan: 'growth' });
+
+    expect(await apiKeyService.revokeKey(apiKey.id)).toBe(true);
+    expect(await apiKeyService.authenticate(key)).toBeNull();
+  });
+});
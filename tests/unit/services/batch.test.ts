@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { batchService } from '../../../src/services/batch.js';
+import { solanaService } from '../../../src/services/solana.js';
+import { batchRequestSchema } from '../../../src/schemas/batch.js';
+import type { WalletOverview, WalletRisk } from '../../../src/types/wallet.js';
+
+const walletA = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+const walletB = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+describe('BatchService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report failed analyses per address', async () => {
+    vi.spyOn(solanaService, 'getWalletOverview').mockImplementation(
+      async (address) => ({ address } as WalletOverview)
+    );
+    vi.spyOn(solanaService, 'getWalletRisk').mockImplementation(async (address) => {
+      if (address === walletB) {
+        throw new Error('RPC unavailable');
+      }
+      return { address, riskScore: 10 } as WalletRisk;
+    });
+
+    const result = await batchService.run(
+      batchRequestSchema.parse({ addresses: [walletA, walletB], analyses: ['overview', 'risk'] })
+    );
+
+    expect(result.analysisCount).toBe(4);
+    expect(result.failedCount).toBe(1);
+    expect(result.results.map((r) => r.address)).toEqual([walletA, walletB]);
+    expect(result.results[0]!.data.risk?.riskScore).toBe(10);
+    expect(result.results[0]!.errors).toBeUndefined();
+    expect(result.results[1]!.data.overview?.address).toBe(walletB);
+    expect(result.results[1]!.errors).toEqual({ risk: 'Failed to fetch wallet risk' });
+  });
+
+  it('should bound concurrent lookups', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.spyOn(solanaService, 'getWalletOverview').mockImplementation(async (address) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return { address } as WalletOverview;
+    });
+
+    const addresses = Array.from({ length: 12 }, () => Keypair.generate().publicKey.toBase58());
+    await batchService.run(batchRequestSchema.parse({ addresses, analyses: ['overview'] }));
+
+    expect(maxInFlight).toBeLessThanOrEqual(5);
+    expect(maxInFlight).toBeGreaterThan(1);
+  });
+
+  it('should analyze duplicate addresses once', () => {
+    const batch = batchRequestSchema.parse({ addresses: [walletA, walletB, walletA], analyses: ['risk', 'risk'] });
+
+    expect(batch.addresses).toEqual([walletA, walletB]);
+    expect(batchService.countAnalyses(batch)).toBe(2);
+  });
+
+  it('should reject invalid addresses and analyses', () => {
+    expect(batchRequestSchema.safeParse({ addresses: ['not-a-wallet'], analyses: ['overview'] }).success).toBe(false);
+    expect(batchRequestSchema.safeParse({ addresses: [walletA], analyses: ['balances'] }).success).toBe(false);
+    expect(batchRequestSchema.safeParse({ addresses: [], analyses: ['overview'] }).success).toBe(false);
+  });
+});
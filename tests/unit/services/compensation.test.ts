@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { compensationService, hashRequestBody, type FailedPaidRequest } from '../../../src/services/compensation.js';
+import { databaseService } from '../../../src/services/database.js';
+
+describe('CompensationService', () => {
+  const testSignature = `test-compensation-${Date.now()}`;
+  const endpoint = '/api/v1/wallet/test/overview';
+
+  afterEach(async () => {
+    await databaseService.query('DELETE FROM payment_compensations WHERE payment_reference = $1', [testSignature]);
+  });
+
+  const failedRequest: FailedPaidRequest = {
+    mode: 'payai',
+    signature: testSignature,
+    endpoint,
+    wallet: 'TestWallet123',
+    amountUsdc: 0.01,
+    requestId: 'req-1',
+    statusCode: 500,
+  };
+
+  it('should issue a retry token for a failed on-chain payment', async () => {
+    const compensation = await compensationService.compensate(failedRequest);
+
+    expect(compensation?.kind).toBe('retry_token');
+    expect(compensation?.retryToken).toMatch(/^rt_/);
+    expect(compensation?.expiresAt).toBeDefined();
+  });
+
+  it('should redeem a retry token once for the same resource', async () => {
+    const compensation = await compensationService.compensate(failedRequest);
+    const token = compensation?.retryToken as string;
+
+    const redeemed = await compensationService.redeemRetryToken(token, endpoint);
+    expect(redeemed?.signature).toBe(testSignature);
+    expect(redeemed?.amountUsdc).toBe(0.01);
+
+    const again = await compensationService.redeemRetryToken(token, endpoint);
+    expect(again).toBeNull();
+  });
+
+  it('should not redeem a retry token for a different resource', async () => {
+    const compensation = await compensationService.compensate(failedRequest);
+
+    const redeemed = await compensationService.redeemRetryToken(
+      compensation?.retryToken as string,
+      '/api/v1/wallet/other/overview'
+    );
+
+    expect(redeemed).toBeNull();
+  });
+
+  it('should not redeem a batch retry token for a different body', async () => {
+    const batchEndpoint = '/api/v1/wallets/batch';
+    const addresses = ['DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'];
+    const body = { addresses, analyses: ['overview'] };
+    const larger = { addresses: [...addresses, 'So11111111111111111111111111111111111111112'], analyses: ['overview'] };
+
+    const compensation = await compensationService.compensate({
+      ...failedRequest,
+      endpoint: batchEndpoint,
+      bodyHash: hashRequestBody(body),
+    });
+    const token = compensation?.retryToken as string;
+
+    expect(await compensationService.redeemRetryToken(token, batchEndpoint, hashRequestBody(larger))).toBeNull();
+    expect(await compensationService.redeemRetryToken(token, batchEndpoint)).toBeNull();
+    expect(await compensationService.redeemRetryToken(token, batchEndpoint, hashRequestBody(body))).not.toBeNull();
+  });
+
+  it('should issue one retry token per payment', async () => {
+    await compensationService.compensate(failedRequest);
+
+    expect(await compensationService.compensate({ ...failedRequest, requestId: 'req-2' })).toBeNull();
+  });
+
+  it('should restore the retry token when the retried request fails', async () => {
+    const compensation = await compensationService.compensate(failedRequest);
+    const token = compensation?.retryToken as string;
+    const redeemed = await compensationService.redeemRetryToken(token, endpoint);
+
+    const restored = await compensationService.compensate({
+      ...failedRequest,
+      mode: 'retry',
+      compensationId: redeemed?.id,
+      requestId: 'req-2',
+    });
+
+    expect(restored).toMatchObject({ id: compensation?.id, kind: 'retry_token' });
+    expect(restored?.retryToken).toBeUndefined();
+    expect(await compensationService.redeemRetryToken(token, endpoint)).not.toBeNull();
+  });
+
+  it('should not redeem unknown retry tokens', async () => {
+    const redeemed = await compensationService.redeemRetryToken('rt_unknown', endpoint);
+    expect(redeemed).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { creditService } from '../../../src/services/credits.js';
+import { databaseService } from '../../../src/services/database.js';
+
+describe('CreditService', () => {
+  const testWallet = `TestCreditWallet${Date.now()}`;
+
+  afterEach(async () => {
+    await databaseService.query(
+      'DELETE FROM credit_transactions WHERE account_id IN (SELECT id FROM credit_accounts WHERE wallet_address = $1)',
+      [testWallet]
+    );
+    await databaseService.query('DELETE FROM credit_accounts WHERE wallet_address = $1', [testWallet]);
+  });
+
+  it('should open an account with a token on first deposit', async () => {
+    const result = await creditService.deposit({
+      wallet: testWallet,
+      amountUsdc: 5,
+      signature: `deposit-${Date.now()}`,
+    });
+
+    expect(result?.token).toMatch(/^cr_/);
+    expect(result?.account.balanceUsdc).toBe(5);
+
+    const account = await creditService.getAccount(result!.token!);
+    expect(account?.wallet).toBe(testWallet);
+  });
+
+  it('should top up an existing account', async () => {
+    const opened = await creditService.deposit({
+      wallet: testWallet,
+      amountUsdc: 1,
+      signature: `deposit-1-${Date.now()}`,
+    });
+
+    const topUp = await creditService.deposit({
+      token: opened!.token,
+      wallet: testWallet,
+      amountUsdc: 2.5,
+      signature: `deposit-2-${Date.now()}`,
+    });
+
+    expect(topUp?.token).toBeUndefined();
+    expect(topUp?.account.balanceUsdc).toBe(3.5);
+  });
+
+  it('should debit requests and record transactions', async () => {
+    const opened = await creditService.deposit({
+      wallet: testWallet,
+      amountUsdc: 1,
+      signature: `deposit-${Date.now()}`,
+    });
+
+    const debit = await creditService.debit(opened!.token!, 0.1, '/api/v1/wallet/test/risk', 'req-1');
+
+    expect(debit.status).toBe('debited');
+    if (debit.status === 'debited') {
+      expect(debit.account.balanceUsdc).toBeCloseTo(0.9);
+    }
+
+    const transactions = await creditService.getTransactions(opened!.account.id);
+    expect(transactions.map((t) => t.kind)).toEqual(['debit', 'deposit']);
+    expect(transactions[0]?.amountUsdc).toBeCloseTo(-0.1);
+  });
+
+  it('should not debit more than the balance', async () => {
+    const opened = await creditService.deposit({
+      wallet: testWallet,
+      amountUsdc: 1,
+      signature: `deposit-${Date.now()}`,
+    });
+
+    const debit = await creditService.debit(opened!.token!, 1.5, '/api/v1/wallet/test/risk', 'req-1');
+
+    expect(debit.status).toBe('insufficient');
+
+    const account = await creditService.getAccount(opened!.token!);
+    expect(account?.balanceUsdc).toBe(1);
+  });
+
+  it('should reject unknown tokens', async () => {
+    const debit = await creditService.debit('cr_unknown', 0.01, '/api/v1/wallet/test/overview', 'req-1');
+    expect(debit.status).toBe('not_found');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { sumErc20Transfers, type EvmLog } from '../../../src/services/evmVerification.js';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const MERCHANT = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+/** Build an ERC-20 Transfer log */
+function transferLog(token: string, to: string, amount: number): EvmLog {
+  return {
+    address: token,
+    topics: [
+      TRANSFER_TOPIC,
+      `0x${'0'.repeat(24)}${OTHER.slice(2)}`,
+      `0x${'0'.repeat(24)}${to.slice(2)}`,
+    ],
+    data: `0x${amount.toString(16).padStart(64, '0')}`,
+  };
+}
+
+describe('EVM verification', () => {
+  describe('sumErc20Transfers', () => {
+    it('should sum USDC transfers to the recipient', () => {
+      const logs = [
+        transferLog(BASE_USDC.toLowerCase(), MERCHANT, 7000),
+        transferLog(BASE_USDC, MERCHANT, 3000),
+      ];
+
+      expect(sumErc20Transfers(logs, BASE_USDC, MERCHANT)).toBe(10000n);
+    });
+
+    it('should ignore other tokens and recipients', () => {
+      const logs = [
+        transferLog('0x3333333333333333333333333333333333333333', MERCHANT, 5000),
+        transferLog(BASE_USDC, OTHER, 5000),
+      ];
+
+      expect(sumErc20Transfers(logs, BASE_USDC, MERCHANT)).toBe(0n);
+    });
+
+    it('should only count transfers from the payer when given', () => {
+      const logs = [transferLog(BASE_USDC, MERCHANT, 5000)];
+
+      expect(sumErc20Transfers(logs, BASE_USDC, MERCHANT, OTHER)).toBe(5000n);
+      expect(sumErc20Transfers(logs, BASE_USDC, MERCHANT, MERCHANT)).toBe(0n);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { idempotencyService } from '../../../src/services/idempotency.js';
+import { cacheService } from '../../../src/services/cache.js';
+
+describe('IdempotencyService', () => {
+  const resource = '/api/v1/wallet/test/overview';
+
+  describe('keysFor', () => {
+    it('should key responses by payment header and resource', () => {
+      const keys = idempotencyService.keysFor({ resource, paymentHeader: 'payment-a' });
+
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).toContain(resource);
+      expect(keys[0]).not.toContain('payment-a');
+      expect(idempotencyService.keysFor({ resource, paymentHeader: 'payment-b' })).not.toEqual(keys);
+    });
+
+    it('should scope idempotency keys to the paying credential', () => {
+      const first = idempotencyService.keysFor({ resource, idempotencyKey: 'retry-1', scope: 'api-key:1' });
+      const second = idempotencyService.keysFor({ resource, idempotencyKey: 'retry-1', scope: 'api-key:2' });
+
+      expect(first).toHaveLength(1);
+      expect(first).not.toEqual(second);
+    });
+
+    it('should ignore idempotency keys without a scope', () => {
+      expect(idempotencyService.keysFor({ resource, idempotencyKey: 'retry-1' })).toEqual([]);
+    });
+  });
+
+  describe('isValidKey', () => {
+    it('should accept keys up to 255 characters', () => {
+      expect(idempotencyService.isValidKey('5f2b7c0e-7f3a-4c1e-9d55-1a2b3c4d5e6f')).toBe(true);
+      expect(idempotencyService.isValidKey('')).toBe(false);
+      expect(idempotencyService.isValidKey('x'.repeat(256))).toBe(false);
+    });
+  });
+
+  describe('storeResponse and getResponse', () => {
+    const keys = idempotencyService.keysFor({ resource, paymentHeader: `test-payment-${Date.now()}` });
+
+    afterEach(async () => {
+      await Promise.all(keys.map((key) => cacheService.delete(key)));
+    });
+
+    it('should replay the identical body with its headers', async () => {
+      const body = JSON.stringify({ success: true, data: { balance: 1.5 } });
+
+      await idempotencyService.storeResponse(keys, {
+        statusCode: 200,
+        headers: { 'content-type': 'application/json; charset=utf-8', 'x-request-id': 'not-replayed' },
+        body,
+      });
+
+      const stored = await idempotencyService.getResponse(keys);
+
+      expect(stored?.body).toBe(body);
+      expect(stored?.statusCode).toBe(200);
+      expect(stored?.headers['content-type']).toContain('application/json');
+      expect(stored?.headers['x-request-id']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { jobService, type JobPayment } from '../../../src/services/jobs.js';
+import { jobWorkerPool } from '../../../src/services/jobWorker.js';
+import { batchService } from '../../../src/services/batch.js';
+import { compensationService } from '../../../src/services/compensation.js';
+import { databaseService } from '../../../src/services/database.js';
+import { config } from '../../../src/config/index.js';
+
+const request = { addresses: ['DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'], analyses: ['overview' as const] };
+
+describe('JobService', () => {
+  const created: string[] = [];
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await databaseService.query('DELETE FROM analytics_jobs WHERE id = ANY($1)', [created.splice(0)]);
+  });
+
+  /** Queue a job and claim it, as a worker would */
+  async function claimNewJob(payment?: JobPayment) {
+    const job = await jobService.create({ request, payment });
+    created.push(job.id);
+    await databaseService.query("UPDATE analytics_jobs SET run_after = NOW() - INTERVAL '1 day' WHERE id = $1", [job.id]);
+
+    const claimed = await jobService.claim();
+    expect(claimed?.id).toBe(job.id);
+    return claimed!;
+  }
+
+  it('should queue jobs and look them up by ID', async () => {
+    const job = await jobService.create({ request });
+    created.push(job.id);
+
+    expect(job.status).toBe('queued');
+    expect((await jobService.get(job.id))?.request).toEqual(request);
+    expect(await jobService.get('not-a-uuid')).toBeNull();
+  });
+
+  it('should store the result of a successful job', async () => {
+    const job = await claimNewJob();
+    const result = { results: [], analysisCount: 1, failedCount: 0 };
+    vi.spyOn(batchService, 'run').mockResolvedValue(result);
+
+    const finished = await jobWorkerPool.process(job);
+
+    expect(finished.status).toBe('succeeded');
+    expect(jobService.toView(finished).result).toEqual(result);
+  });
+
+  it('should retry failed jobs until they run out of attempts', async () => {
+    vi.spyOn(batchService, 'run').mockRejectedValue(new Error('RPC unavailable'));
+
+    let job = await claimNewJob();
+    job = await jobWorkerPool.process(job);
+    expect(job.status).toBe('queued');
+    expect(jobService.toView(job).error).toBeUndefined();
+
+    job = await jobWorkerPool.process({ ...job, attempts: config.jobs.maxAttempts });
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('RPC unavailable');
+    expect(job.completedAt).not.toBeNull();
+  });
+
+  it('should give back the retry token of a retry-paid job that fails for good', async () => {
+    vi.spyOn(batchService, 'run').mockRejectedValue(new Error('RPC unavailable'));
+    const compensate = vi.spyOn(compensationService, 'compensate')
+      .mockResolvedValue({ id: 7, kind: 'retry_token', expiresAt: new Date().toISOString() });
+
+    const job = await claimNewJob({ mode: 'retry', signature: 'sig-retry', compensationId: 7, wallet: null, amountUsdc: 0.05 });
+    const failed = await jobWorkerPool.process({ ...job, attempts: config.jobs.maxAttempts });
+
+    expect(failed.status).toBe('failed');
+    expect(compensate).toHaveBeenCalledWith(expect.objectContaining({ mode: 'retry', compensationId: 7, requestId: job.id }));
+    expect(failed.compensation).toMatchObject({ id: 7, kind: 'retry_token' });
+  });
+});
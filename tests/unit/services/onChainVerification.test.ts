@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  computeNetTokenDelta,
+  extractMemos,
+  extractTokenTransfers,
+  isRecipientTokenAccount,
+  resolveOwnerFromTokenBalances,
+  sumNativeTransfers,
+} from '../../../src/services/onChainVerification.js';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const MERCHANT = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+const MERCHANT_TOKEN_ACCOUNT = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const TOKEN_PROGRAM = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+/** Build a parsed SPL token transfer instruction */
+function transferInstruction(amount: string, destination = MERCHANT_TOKEN_ACCOUNT) {
+  return {
+    program: 'spl-token',
+    programId: TOKEN_PROGRAM,
+    parsed: {
+      type: 'transfer',
+      info: { source: 'SenderTokenAccount', destination, authority: 'SenderWallet', amount },
+    },
+  };
+}
+
+/** Build a token balance entry */
+function tokenBalance(accountIndex: number, owner: string, amount: string) {
+  return {
+    accountIndex,
+    mint: USDC_MINT,
+    owner,
+    uiTokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: '' },
+  };
+}
+
+/** Build a minimal parsed transaction with the given top-level instructions */
+function buildTransaction(
+  instructions: unknown[],
+  accountKeys: string[] = [],
+  meta: unknown = null
+): ParsedTransactionWithMeta {
+  return {
+    slot: 1,
+    blockTime: Math.floor(Date.now() / 1000),
+    meta,
+    transaction: {
+      signatures: ['test-signature'],
+      message: {
+        accountKeys: accountKeys.map((key) => ({
+          pubkey: new PublicKey(key),
+          signer: false,
+          writable: true,
+        })),
+        instructions,
+        recentBlockhash: '11111111111111111111111111111111',
+      },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+describe('On-chain verification', () => {
+  describe('extractMemos', () => {
+    it('should extract memos from SPL Memo instructions', () => {
+      const transaction = buildTransaction([
+        {
+          program: 'spl-memo',
+          programId: new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr'),
+          parsed: 'pay_1730912345_abc123',
+        },
+      ]);
+
+      expect(extractMemos(transaction)).toEqual(['pay_1730912345_abc123']);
+    });
+
+    it('should support the legacy memo program', () => {
+      const transaction = buildTransaction([
+        {
+          program: 'spl-memo',
+          programId: new PublicKey('Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo'),
+          parsed: ' pay_legacy ',
+        },
+      ]);
+
+      expect(extractMemos(transaction)).toEqual(['pay_legacy']);
+    });
+
+    it('should ignore non-memo instructions', () => {
+      const transaction = buildTransaction([
+        {
+          program: 'system',
+          programId: new PublicKey('11111111111111111111111111111111'),
+          parsed: { type: 'transfer', info: {} },
+        },
+      ]);
+
+      expect(extractMemos(transaction)).toEqual([]);
+    });
+  });
+
+  describe('resolveOwnerFromTokenBalances', () => {
+    it('should resolve owner and mint from post token balances', () => {
+      const transaction = buildTransaction([], [MERCHANT, MERCHANT_TOKEN_ACCOUNT], {
+        err: null,
+        fee: 5000,
+        preBalances: [],
+        postBalances: [],
+        preTokenBalances: [],
+        postTokenBalances: [
+          {
+            accountIndex: 1,
+            mint: USDC_MINT,
+            owner: MERCHANT,
+            uiTokenAmount: { amount: '10000', decimals: 6, uiAmount: 0.01, uiAmountString: '0.01' },
+          },
+        ],
+      });
+
+      expect(resolveOwnerFromTokenBalances(transaction, MERCHANT_TOKEN_ACCOUNT)).toEqual({
+        owner: MERCHANT,
+        mint: USDC_MINT,
+      });
+    });
+
+    it('should return null when the account is not in the transaction', () => {
+      const transaction = buildTransaction([], [MERCHANT]);
+
+      expect(resolveOwnerFromTokenBalances(transaction, MERCHANT_TOKEN_ACCOUNT)).toBeNull();
+    });
+  });
+
+  describe('extractTokenTransfers', () => {
+    it('should include transfers made through inner instructions', () => {
+      const transaction = buildTransaction(
+        [
+          {
+            programId: new PublicKey('11111111111111111111111111111111'),
+            accounts: [],
+            data: '',
+          },
+          transferInstruction('4000'),
+        ],
+        [],
+        {
+          err: null,
+          fee: 5000,
+          preBalances: [],
+          postBalances: [],
+          innerInstructions: [{ index: 0, instructions: [transferInstruction('6000')] }],
+        }
+      );
+
+      const transfers = extractTokenTransfers(transaction);
+
+      expect(transfers.map((t) => t.amount)).toEqual([6000, 4000]);
+      expect(transfers[0]?.destination).toBe(MERCHANT_TOKEN_ACCOUNT);
+    });
+
+    it('should include Token-2022 transfers', () => {
+      const transaction = buildTransaction([
+        {
+          program: 'spl-token-2022',
+          programId: new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'),
+          parsed: {
+            type: 'transferChecked',
+            info: {
+              source: 'SenderTokenAccount',
+              destination: MERCHANT_TOKEN_ACCOUNT,
+              authority: 'SenderWallet',
+              mint: USDC_MINT,
+              tokenAmount: { amount: '2500', decimals: 6 },
+            },
+          },
+        },
+      ]);
+
+      expect(extractTokenTransfers(transaction)).toEqual([{
+        source: 'SenderTokenAccount',
+        destination: MERCHANT_TOKEN_ACCOUNT,
+        authority: 'SenderWallet',
+        amount: 2500,
+        mint: USDC_MINT,
+      }]);
+    });
+  });
+
+  describe('isRecipientTokenAccount', () => {
+    const merchantAta = getAssociatedTokenAddressSync(new PublicKey(USDC_MINT), new PublicKey(MERCHANT), true).toBase58();
+
+    it('should require the recorded owner to be the recipient', () => {
+      expect(isRecipientTokenAccount(MERCHANT_TOKEN_ACCOUNT, { owner: MERCHANT, mint: USDC_MINT }, MERCHANT, USDC_MINT)).toBe(true);
+      // The merchant's ATA whose owner was reassigned no longer pays the merchant
+      expect(isRecipientTokenAccount(merchantAta, { owner: 'Attacker', mint: USDC_MINT }, MERCHANT, USDC_MINT)).toBe(false);
+    });
+
+    it('should only fall back to the associated token account when no owner is recorded', () => {
+      expect(isRecipientTokenAccount(merchantAta, null, MERCHANT, USDC_MINT)).toBe(true);
+      expect(isRecipientTokenAccount(MERCHANT_TOKEN_ACCOUNT, null, MERCHANT, USDC_MINT)).toBe(false);
+    });
+  });
+
+  describe('computeNetTokenDelta', () => {
+    it('should compute the net change across the owner\'s accounts', () => {
+      const transaction = buildTransaction([], [MERCHANT, MERCHANT_TOKEN_ACCOUNT], {
+        err: null,
+        fee: 5000,
+        preBalances: [],
+        postBalances: [],
+        preTokenBalances: [tokenBalance(1, MERCHANT, '1000')],
+        postTokenBalances: [tokenBalance(1, MERCHANT, '11000')],
+      });
+
+      expect(computeNetTokenDelta(transaction, MERCHANT, USDC_MINT)).toBe(10000);
+    });
+
+    it('should return null when owners are not recorded', () => {
+      const transaction = buildTransaction([], [], {
+        err: null,
+        fee: 5000,
+        preBalances: [],
+        postBalances: [],
+        preTokenBalances: [],
+        postTokenBalances: [],
+      });
+
+      expect(computeNetTokenDelta(transaction, MERCHANT, USDC_MINT)).toBeNull();
+    });
+  });
+
+  describe('sumNativeTransfers', () => {
+    it('should sum system transfers to the recipient only', () => {
+      const systemTransfer = (destination: string, lamports: number) => ({
+        program: 'system',
+        programId: new PublicKey('11111111111111111111111111111111'),
+        parsed: { type: 'transfer', info: { source: 'SenderWallet', destination, lamports } },
+      });
+
+      const transaction = buildTransaction([
+        systemTransfer(MERCHANT, 40_000),
+        systemTransfer(MERCHANT_TOKEN_ACCOUNT, 99_000),
+        systemTransfer(MERCHANT, 10_000),
+      ]);
+
+      expect(sumNativeTransfers(transaction, MERCHANT)).toEqual({
+        lamports: 50_000,
+        sender: 'SenderWallet',
+      });
+    });
+  });
+});
@@ -1,278 +1,234 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { paymentValidator } from '../../../src/services/payment/validator.js';
-import { MockPaymentValidator, mockPaymentValidator } from '../../../src/services/payment/mock.js';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  PaymentValidator,
+  createPaymentProvider,
+  paymentValidator,
+} from '../../../src/services/payment/validator.js';
+import { MockPaymentProvider, mockPaymentProvider } from '../../../src/services/payment/mock.js';
+import { OnChainPaymentProvider } from '../../../src/services/payment/onchain.js';
+import { PayAIPaymentProvider } from '../../../src/services/payment/payai.js';
+import type { PaymentProvider, PaymentRequest } from '../../../src/services/payment/provider.js';
 import { cacheService } from '../../../src/services/cache.js';
 import { databaseService } from '../../../src/services/database.js';
-import type { PaymentProof } from '../../../src/schemas/payment.js';
+import type { ValidatedPayment } from '../../../src/types/payment.js';
+
+/** Build a paid request for a resource */
+function paymentRequest(resource: string, priceUSD: number): PaymentRequest {
+  return { resource, priceUSD, currencies: ['USDC'], requestId: `req-${Date.now()}` };
+}
+
+/** Mock provider that requires issued challenges, like the production providers */
+const strictMockProvider: PaymentProvider = {
+  mode: 'mock',
+  strict: true,
+  describeRequirements: (request) => mockPaymentProvider.describeRequirements(request),
+  verify: (payment, request, requirement) => mockPaymentProvider.verify(payment, request, requirement),
+  settle: (payment, request, requirement, verification) =>
+    mockPaymentProvider.settle(payment, request, requirement, verification),
+};
 
 describe('Payment System', () => {
-  describe('PaymentValidator', () => {
-    describe('nonce generation', () => {
-      it('should generate unique nonces', () => {
-        const nonce1 = paymentValidator.generateNonce();
-        const nonce2 = paymentValidator.generateNonce();
-
-        expect(nonce1).toBeTruthy();
-        expect(nonce2).toBeTruthy();
-        expect(nonce1).not.toBe(nonce2);
-        expect(nonce1).toMatch(/^nonce-\d+-[a-f0-9]{32}$/);
-      });
+  describe('createPaymentProvider', () => {
+    it('should select a provider for each payment mode', () => {
+      expect(createPaymentProvider('mock')).toBeInstanceOf(MockPaymentProvider);
+      expect(createPaymentProvider('onchain')).toBeInstanceOf(OnChainPaymentProvider);
+      expect(createPaymentProvider('payai')).toBeInstanceOf(PayAIPaymentProvider);
+      expect(createPaymentProvider('test')).toBeInstanceOf(PayAIPaymentProvider);
+      expect(createPaymentProvider('test').mode).toBe('test');
     });
 
+    it('should only relax challenge binding in mock mode', () => {
+      expect(createPaymentProvider('mock').strict).toBe(false);
+      expect(createPaymentProvider('onchain').strict).toBe(true);
+      expect(createPaymentProvider('payai').strict).toBe(true);
+    });
+  });
+
+  describe('PaymentValidator', () => {
     describe('challenge creation', () => {
-      let nonce: string;
+      let memo: string | undefined;
 
       afterEach(async () => {
-        if (nonce) {
-          await cacheService.delete(`payment:nonce:${nonce}`);
+        if (memo) {
+          await cacheService.delete(`payment:challenge:${memo}`);
         }
       });
 
       it('should create a payment challenge', async () => {
         const endpoint = '/api/v1/wallet/test/overview';
-        const amount = 0.05;
-
-        const challenge = await paymentValidator.createChallenge(endpoint, amount);
 
-        expect(challenge).toBeDefined();
-        expect(challenge.protocol).toBe('x402');
-        expect(challenge.amount).toBe(amount);
-        expect(challenge.currency).toBe('USDC');
-        expect(challenge.network).toBe('solana');
-        expect(challenge.nonce).toMatch(/^nonce-\d+-[a-f0-9]{32}$/);
-        expect(challenge.timestamp).toBeDefined();
-        expect(challenge.expiresAt).toBeDefined();
+        const challenge = await paymentValidator.createChallenge(paymentRequest(endpoint, 0.05));
 
-        nonce = challenge.nonce;
-
-        // Verify nonce is stored in cache
-        const cachedNonce = await cacheService.get(`payment:nonce:${nonce}`);
-        expect(cachedNonce).toBeDefined();
-      });
+        expect(challenge.x402Version).toBe(1);
+        expect(challenge.accepts.length).toBeGreaterThan(0);
+        expect(challenge.accepts[0]?.resource).toBe(endpoint);
+        expect(challenge.accepts[0]?.memo).toMatch(/^pay_\d+_[a-f0-9]{16}$/);
 
-      it('should set TTL on cached nonce', async () => {
-        const challenge = await paymentValidator.createChallenge('/test', 0.01);
-        nonce = challenge.nonce;
+        memo = challenge.accepts[0]?.memo;
 
-        const exists = await cacheService.exists(`payment:nonce:${nonce}`);
+        // Verify challenge is stored in cache
+        const exists = await cacheService.exists(`payment:challenge:${memo}`);
         expect(exists).toBe(true);
       });
     });
 
     describe('payment caching', () => {
-      const testNonce = `test-cache-${Date.now()}`;
+      const testSignature = `test-cache-${Date.now()}`;
 
       afterEach(async () => {
-        await cacheService.delete(`payment:validated:${testNonce}`);
+        await cacheService.delete(`payment:validated:${testSignature}:/test`);
       });
 
       it('should cache validated payment', async () => {
-        const validatedPayment = {
+        const validatedPayment: ValidatedPayment = {
           valid: true,
-          proof: {
-            protocol: 'x402' as const,
-            nonce: testNonce,
-            signature: 'test-sig',
-            wallet: 'TestWallet123',
-            amount: 0.05,
-            currency: 'USDC' as const,
-            network: 'solana' as const,
-            timestamp: new Date().toISOString(),
-          },
+          payment: MockPaymentProvider.generateMockPayment('TestWallet123'),
           wallet: 'TestWallet123',
           amount: 0.05,
-          currency: 'USDC' as const,
+          currency: 'USDC',
           endpoint: '/test',
+          mode: 'mock',
           verifiedAt: new Date(),
           expiresAt: new Date(Date.now() + 5 * 60 * 1000),
         };
+        validatedPayment.payment.payload.signature = testSignature;
 
         await paymentValidator.cachePayment(validatedPayment);
 
-        const cached = await paymentValidator.getCachedPayment(testNonce);
+        const cached = await paymentValidator.getCachedPayment(testSignature, '/test');
         expect(cached).toBeDefined();
         expect(cached?.valid).toBe(true);
         expect(cached?.wallet).toBe('TestWallet123');
       });
 
-      it('should return null for non-existent cached payment', async () => {
-        const cached = await paymentValidator.getCachedPayment('nonexistent-nonce');
-        expect(cached).toBeNull();
-      });
-    });
-  });
+      it('should only reuse a validation for the client that paid, until it is forgotten', async () => {
+        const payment = MockPaymentProvider.generateMockPayment('TestWallet123');
+        payment.payload.signature = testSignature;
+        const validatedPayment: ValidatedPayment = {
+          valid: true,
+          payment,
+          wallet: 'TestWallet123',
+          amount: 0.05,
+          currency: 'USDC',
+          endpoint: '/test',
+          mode: 'mock',
+          verifiedAt: new Date(),
+          expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+        };
+
+        await paymentValidator.cachePayment(validatedPayment, '203.0.113.7');
+
+        expect(await paymentValidator.getCachedPayment(testSignature, '/test', '198.51.100.1')).toBeNull();
+        expect(await paymentValidator.getCachedPayment(testSignature, '/test', '203.0.113.7')).not.toBeNull();
 
-  describe('MockPaymentValidator', () => {
-    describe('mock proof generation', () => {
-      it('should generate valid mock proof', () => {
-        const amount = 0.05;
-        const wallet = 'TestWallet123';
-
-        const proof = MockPaymentValidator.generateMockProof(amount, wallet);
-
-        expect(proof.protocol).toBe('x402');
-        expect(proof.amount).toBe(amount);
-        expect(proof.wallet).toBe(wallet);
-        expect(proof.currency).toBe('USDC');
-        expect(proof.network).toBe('solana');
-        expect(proof.nonce).toMatch(/^mock-nonce-/);
-        expect(proof.signature).toMatch(/^mock-signature-/);
-        expect(proof.timestamp).toBeDefined();
+        await paymentValidator.forgetPayment(testSignature, '/test', '203.0.113.7');
+        expect(await paymentValidator.getCachedPayment(testSignature, '/test', '203.0.113.7')).toBeNull();
       });
 
-      it('should use default wallet if not provided', () => {
-        const proof = MockPaymentValidator.generateMockProof(0.01);
-        expect(proof.wallet).toBe('MockWallet123');
+      it('should return null for non-existent cached payment', async () => {
+        const cached = await paymentValidator.getCachedPayment('nonexistent-signature', '/test');
+        expect(cached).toBeNull();
       });
     });
 
-    describe('payment validation', () => {
-      it('should validate correct payment', async () => {
-        const proof: PaymentProof = {
-          protocol: 'x402',
-          nonce: `test-nonce-${Date.now()}`,
-          signature: 'valid-signature-longer-than-10-chars',
-          wallet: 'TestWallet123',
-          amount: 0.05,
-          currency: 'USDC',
-          network: 'solana',
-          timestamp: new Date().toISOString(),
-        };
+    describe('challenge binding', () => {
+      it('should require a challenge memo for strict providers', async () => {
+        const validator = new PaymentValidator(strictMockProvider);
+        const payment = MockPaymentProvider.generateMockPayment();
 
-        const result = await mockPaymentValidator.validatePayment(
-          proof,
-          0.05,
-          '/api/v1/wallet/test/overview'
-        );
+        const result = await validator.validatePayment(payment, paymentRequest('/test', 0.01));
 
-        expect(result.valid).toBe(true);
-        expect(result.wallet).toBe('TestWallet123');
-        expect(result.amount).toBe(0.05);
-        expect(result.verifiedAt).toBeDefined();
-        expect(result.expiresAt).toBeDefined();
+        expect(result.valid).toBe(false);
+        expect(result.statusCode).toBe(402);
+        expect(result.error).toContain('memo');
       });
 
-      it('should reject payment with amount mismatch', async () => {
-        const proof: PaymentProof = {
-          protocol: 'x402',
-          nonce: `test-nonce-${Date.now()}`,
-          signature: 'valid-signature',
-          wallet: 'TestWallet123',
-          amount: 0.01, // Different from expected
-          currency: 'USDC',
-          network: 'solana',
-          timestamp: new Date().toISOString(),
-        };
+      it('should reject payments without a signature', async () => {
+        const payment = MockPaymentProvider.generateMockPayment();
+        payment.payload.signature = '';
 
-        const result = await mockPaymentValidator.validatePayment(
-          proof,
-          0.05, // Expected amount
-          '/test'
-        );
+        const result = await paymentValidator.validatePayment(payment, paymentRequest('/test', 0.01));
 
         expect(result.valid).toBe(false);
-        expect(result.error).toContain('Amount mismatch');
+        expect(result.error).toContain('signature');
       });
+    });
+  });
 
-      it('should reject payment with expired timestamp', async () => {
-        const oldTimestamp = new Date(Date.now() - 10 * 60 * 1000); // 10 minutes ago
-
-        const proof: PaymentProof = {
-          protocol: 'x402',
-          nonce: `test-nonce-${Date.now()}`,
-          signature: 'valid-signature',
-          wallet: 'TestWallet123',
-          amount: 0.05,
-          currency: 'USDC',
-          network: 'solana',
-          timestamp: oldTimestamp.toISOString(),
-        };
+  describe('MockPaymentProvider', () => {
+    describe('mock payment generation', () => {
+      it('should generate valid mock payment', () => {
+        const payment = MockPaymentProvider.generateMockPayment('TestWallet123', 'pay_1_abc');
 
-        const result = await mockPaymentValidator.validatePayment(proof, 0.05, '/test');
+        expect(payment.x402Version).toBe(1);
+        expect(payment.scheme).toBe('exact');
+        expect(payment.payload.fromAddress).toBe('TestWallet123');
+        expect(payment.payload.memo).toBe('pay_1_abc');
+        expect(payment.payload.signature).toMatch(/^mock-signature-/);
+      });
 
-        expect(result.valid).toBe(false);
-        expect(result.error).toContain('expired');
+      it('should use default wallet if not provided', () => {
+        const payment = MockPaymentProvider.generateMockPayment();
+        expect(payment.payload.fromAddress).toBe('MockWallet123');
       });
+    });
 
-      it('should reject payment with invalid signature', async () => {
-        const proof: PaymentProof = {
-          protocol: 'x402',
-          nonce: `test-nonce-${Date.now()}`,
-          signature: 'short', // Too short
-          wallet: 'TestWallet123',
-          amount: 0.05,
-          currency: 'USDC',
-          network: 'solana',
-          timestamp: new Date().toISOString(),
-        };
+    describe('payment verification', () => {
+      it('should accept a well-formed payment', async () => {
+        const payment = MockPaymentProvider.generateMockPayment('TestWallet123');
 
-        const result = await mockPaymentValidator.validatePayment(proof, 0.05, '/test');
+        const result = await mockPaymentProvider.verify(payment, paymentRequest('/test', 0.05), null);
 
-        expect(result.valid).toBe(false);
-        expect(result.error).toContain('Invalid signature');
+        expect(result.isValid).toBe(true);
+        expect(result.wallet).toBe('TestWallet123');
       });
 
-      it('should allow small variance for fees', async () => {
-        const proof: PaymentProof = {
-          protocol: 'x402',
-          nonce: `test-nonce-${Date.now()}`,
-          signature: 'valid-signature',
-          wallet: 'TestWallet123',
-          amount: 0.0499, // 0.0001 difference (within variance)
-          currency: 'USDC',
-          network: 'solana',
-          timestamp: new Date().toISOString(),
-        };
+      it('should reject payment with invalid signature', async () => {
+        const payment = MockPaymentProvider.generateMockPayment();
+        payment.payload.signature = 'short'; // Too short
 
-        const result = await mockPaymentValidator.validatePayment(proof, 0.05, '/test');
+        const result = await mockPaymentProvider.verify(payment, paymentRequest('/test', 0.05), null);
 
-        expect(result.valid).toBe(true);
+        expect(result.isValid).toBe(false);
+        expect(result.reason).toContain('Invalid signature');
       });
     });
   });
 
   describe('Integration - Full Payment Flow', () => {
-    let challengeNonce: string;
-    let paymentNonce: string;
+    let memo: string | undefined;
+    let signature: string | undefined;
 
     afterEach(async () => {
       // Clean up cache
-      if (challengeNonce) {
-        await cacheService.delete(`payment:nonce:${challengeNonce}`);
+      if (memo) {
+        await cacheService.delete(`payment:challenge:${memo}`);
       }
-      if (paymentNonce) {
-        await cacheService.delete(`payment:nonce:${paymentNonce}`);
-        await cacheService.delete(`payment:validated:${paymentNonce}`);
+      if (signature) {
+        await cacheService.delete(`payment:consumed:${signature}`);
 
         // Clean up database
-        await databaseService.query('DELETE FROM payment_proofs WHERE nonce = $1', [paymentNonce]);
+        await databaseService.query('DELETE FROM payment_proofs WHERE nonce = $1', [signature]);
       }
     });
 
     it('should complete full payment flow', async () => {
+      const validator = new PaymentValidator(strictMockProvider);
+
       // Step 1: Create challenge
       const endpoint = '/api/v1/wallet/test/overview';
-      const amount = 0.05;
-      const challenge = await paymentValidator.createChallenge(endpoint, amount);
-      challengeNonce = challenge.nonce;
-
-      expect(challenge.nonce).toBeDefined();
-
-      // Step 2: Client creates payment proof using challenge nonce
-      const paymentProof: PaymentProof = {
-        protocol: 'x402',
-        nonce: challenge.nonce,
-        signature: 'client-signature-would-be-here',
-        wallet: 'ClientWallet123',
-        amount: challenge.amount,
-        currency: challenge.currency,
-        network: challenge.network,
-        timestamp: new Date().toISOString(),
-      };
-      paymentNonce = paymentProof.nonce;
-
-      // Step 3: Validate payment proof
-      const validation = await paymentValidator.validatePayment(paymentProof, amount, endpoint);
+      const request = paymentRequest(endpoint, 0.05);
+      const challenge = await validator.createChallenge(request);
+      memo = challenge.accepts[0]?.memo;
+
+      expect(memo).toBeDefined();
+
+      // Step 2: Client pays, answering the challenge memo
+      const payment = MockPaymentProvider.generateMockPayment('ClientWallet123', memo);
+      signature = payment.payload.signature;
+
+      // Step 3: Validate payment
+      const validation = await validator.validatePayment(payment, request);
 
       expect(validation.valid).toBe(true);
       expect(validation.wallet).toBe('ClientWallet123');
@@ -280,41 +236,31 @@ describe('Payment System', () => {
       // Step 4: Verify payment is stored in database
       const stored = await databaseService.query(
         'SELECT * FROM payment_proofs WHERE nonce = $1',
-        [paymentProof.nonce]
+        [signature]
       );
 
       expect(stored.rows).toHaveLength(1);
       expect(stored.rows[0]?.wallet_address).toBe('ClientWallet123');
 
-      // Step 5: Verify nonce is removed from cache (replay protection)
-      const nonceExists = await cacheService.exists(`payment:nonce:${paymentProof.nonce}`);
-      expect(nonceExists).toBe(false);
+      // Step 5: Verify challenge is removed from cache (replay protection)
+      const challengeExists = await cacheService.exists(`payment:challenge:${memo}`);
+      expect(challengeExists).toBe(false);
     });
 
     it('should prevent replay attacks', async () => {
       // Step 1: Create and validate first payment
-      const endpoint = '/test';
-      const amount = 0.01;
-      const challenge = await paymentValidator.createChallenge(endpoint, amount);
-      challengeNonce = challenge.nonce;
-
-      const proof: PaymentProof = {
-        protocol: 'x402',
-        nonce: challenge.nonce,
-        signature: 'test-signature',
-        wallet: 'TestWallet',
-        amount,
-        currency: 'USDC',
-        network: 'solana',
-        timestamp: new Date().toISOString(),
-      };
-      paymentNonce = proof.nonce;
-
-      const validation1 = await paymentValidator.validatePayment(proof, amount, endpoint);
+      const request = paymentRequest('/test', 0.01);
+      const challenge = await paymentValidator.createChallenge(request);
+      memo = challenge.accepts[0]?.memo;
+
+      const payment = MockPaymentProvider.generateMockPayment('TestWallet', memo);
+      signature = payment.payload.signature;
+
+      const validation1 = await paymentValidator.validatePayment(payment, request);
       expect(validation1.valid).toBe(true);
 
-      // Step 2: Try to reuse the same nonce (replay attack)
-      const validation2 = await paymentValidator.validatePayment(proof, amount, endpoint);
+      // Step 2: Try to reuse the same signature (replay attack)
+      const validation2 = await paymentValidator.validatePayment(payment, request);
       expect(validation2.valid).toBe(false);
       expect(validation2.error).toContain('replay attack');
     });
@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { paymentLedger } from '../../../src/services/paymentLedger.js';
+import { cacheService } from '../../../src/services/cache.js';
+import { databaseService } from '../../../src/services/database.js';
+
+describe('PaymentLedger', () => {
+  const testSignature = `test-signature-${Date.now()}`;
+
+  afterEach(async () => {
+    await cacheService.delete(`payment:consumed:${testSignature}`);
+    await databaseService.query('DELETE FROM payment_proofs WHERE nonce = $1', [testSignature]);
+  });
+
+  it('should consume an unused signature', async () => {
+    const result = await paymentLedger.consume({
+      signature: testSignature,
+      resource: '/api/v1/wallet/test/overview',
+      requestId: 'req-1',
+      wallet: 'TestWallet123',
+      amountUsdc: 0.01,
+    });
+
+    expect(result.consumed).toBe(true);
+
+    const consumed = await paymentLedger.getConsumed(testSignature);
+    expect(consumed?.resource).toBe('/api/v1/wallet/test/overview');
+    expect(consumed?.wallet).toBe('TestWallet123');
+  });
+
+  it('should reject a signature that was already consumed', async () => {
+    await paymentLedger.consume({
+      signature: testSignature,
+      resource: '/api/v1/wallet/test/overview',
+      requestId: 'req-1',
+      wallet: 'TestWallet123',
+      amountUsdc: 0.01,
+    });
+
+    const replay = await paymentLedger.consume({
+      signature: testSignature,
+      resource: '/api/v1/wallet/test/risk',
+      requestId: 'req-2',
+      wallet: 'TestWallet123',
+      amountUsdc: 0.1,
+    });
+
+    expect(replay.consumed).toBe(false);
+    expect(replay.existing?.resource).toBe('/api/v1/wallet/test/overview');
+  });
+
+  it('should survive cache eviction by falling back to the database', async () => {
+    await paymentLedger.consume({
+      signature: testSignature,
+      resource: '/api/v1/wallet/test/overview',
+      requestId: 'req-1',
+      wallet: 'TestWallet123',
+      amountUsdc: 0.01,
+    });
+
+    await cacheService.delete(`payment:consumed:${testSignature}`);
+
+    const consumed = await paymentLedger.getConsumed(testSignature);
+    expect(consumed).not.toBeNull();
+    expect(consumed?.requestId).toBe('req-1');
+  });
+
+  it('should return null for unknown signatures', async () => {
+    const consumed = await paymentLedger.getConsumed('unknown-signature');
+    expect(consumed).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { pnlService } from '../../../src/services/pnl.js';
+import { coinGeckoPriceHistoryProvider, setPriceHistoryProvider } from '../../../src/services/priceHistory.js';
+import { solanaService } from '../../../src/services/solana.js';
+
+const wallet = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+const usdc = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const wsol = 'So11111111111111111111111111111111111111112';
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const t0 = 1_700_000_000;
+
+/**
+ * Transaction paid by the wallet (fee 5000 lamports) moving its SOL and USDC
+ * Through Jupiter it decodes as a swap, otherwise the changes are transfers.
+ */
+function transaction(blockTime: number, lamports: number, usdcBefore: number, usdcAfter: number, swap = true): ParsedTransactionWithMeta {
+  const usdcBalance = (amount: number) => ({
+    accountIndex: 2,
+    mint: usdc,
+    owner: wallet,
+    uiTokenAmount: { amount: String(amount * 1_000_000), decimals: 6 },
+  });
+
+  return {
+    blockTime,
+    transaction: {
+      message: {
+        accountKeys: [wallet, 'pool', 'usdcAta'].map((pubkey) => ({ pubkey })),
+        instructions: swap ? [{ programId: JUPITER, accounts: [], data: '' }] : [],
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10_000_005_000, 0, 0],
+      postBalances: [10_000_000_000 + lamports, 0, 0],
+      preTokenBalances: [usdcBalance(usdcBefore)],
+      postTokenBalances: [usdcBalance(usdcAfter)],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+// Receive 100 USDC, buy 1 SOL at $50 and 0.2 SOL at $100, then sell 0.5 SOL for 60 USDC
+const history = [
+  transaction(t0, 0, 0, 100, false),
+  transaction(t0 + 100, 1_000_000_000, 100, 50),
+  transaction(t0 + 200, 200_000_000, 50, 30),
+  transaction(t0 + 300, -500_000_000, 30, 90),
+].reverse();
+
+describe('PnlService', () => {
+  beforeEach(() => {
+    vi.spyOn(solanaService, 'getTokenPrices').mockResolvedValue(new Map([[wsol, 120]]));
+    setPriceHistoryProvider({
+      name: 'test',
+      getPriceHistory: async (mint) => mint === wsol
+        ? [{ timestamp: t0 + 100, priceUSD: 50 }, { timestamp: t0 + 200, priceUSD: 100 }]
+        : [],
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setPriceHistoryProvider(coinGeckoPriceHistoryProvider);
+  });
+
+  it('should realize sales against the oldest lots with FIFO', async () => {
+    vi.spyOn(solanaService, 'getParsedTransactionsSince').mockResolvedValue({ transactions: history, complete: true });
+
+    const pnl = await pnlService.compute(wallet, 'fifo');
+    const sol = pnl.tokens.find((token) => token.mint === wsol)!;
+
+    expect(sol).toEqual({
+      mint: wsol,
+      quantity: 0.7,
+      costBasisUSD: 45,
+      averageCostUSD: 64.285714286,
+      currentPriceUSD: 120,
+      realizedPnlUSD: 35,
+      unrealizedPnlUSD: 39,
+      costBasisComplete: true,
+    });
+    expect(pnl.tokens.find((token) => token.mint === usdc)).toMatchObject({ quantity: 90, costBasisUSD: 90, realizedPnlUSD: 0 });
+    expect(pnl.totals).toEqual({ realizedPnlUSD: 35, unrealizedPnlUSD: 39, costBasisUSD: 135, valueUSD: 174 });
+    expect(pnl.transactionsReplayed).toBe(4);
+    expect(pnl.truncated).toBe(false);
+    expect(pnl.priceSource).toBe('test');
+  });
+
+  it('should consume the newest lots with LIFO and a pooled lot with average cost', async () => {
+    vi.spyOn(solanaService, 'getParsedTransactionsSince').mockResolvedValue({ transactions: history, complete: true });
+
+    const lifo = (await pnlService.compute(wallet, 'lifo')).tokens.find((token) => token.mint === wsol)!;
+    const average = (await pnlService.compute(wallet, 'average')).tokens.find((token) => token.mint === wsol)!;
+
+    expect([lifo.realizedPnlUSD, lifo.costBasisUSD, lifo.unrealizedPnlUSD]).toEqual([25, 35, 49]);
+    expect([average.realizedPnlUSD, average.costBasisUSD, average.unrealizedPnlUSD]).toEqual([30.83, 40.83, 43.17]);
+  });
+
+  it('should flag sales of tokens acquired before the replayed history', async () => {
+    vi.spyOn(solanaService, 'getParsedTransactionsSince').mockResolvedValue({ transactions: history.slice(0, 1), complete: false });
+
+    const pnl = await pnlService.compute(wallet, 'fifo');
+    const sol = pnl.tokens.find((token) => token.mint === wsol)!;
+
+    expect(sol).toMatchObject({ quantity: 0, realizedPnlUSD: 60, costBasisComplete: false });
+    expect(pnl.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { portfolioHistoryService } from '../../../src/services/portfolioHistory.js';
+import {
+  coinGeckoPriceHistoryProvider,
+  priceAt,
+  setPriceHistoryProvider,
+} from '../../../src/services/priceHistory.js';
+import { solanaService } from '../../../src/services/solana.js';
+import { historyQuerySchema } from '../../../src/schemas/wallet.js';
+import type { TokenAccount } from '../../../src/types/wallet.js';
+
+const wallet = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+const usdc = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const day = 86_400;
+const day0 = 1_700_006_400; // a UTC midnight
+
+/** The wallet sells 50 USDC for ~1 SOL, a few hours after `day0 + day` */
+const swap = {
+  blockTime: day0 + day + 3_600,
+  transaction: {
+    message: {
+      accountKeys: [wallet, 'pool', 'usdcAta'].map((pubkey) => ({ pubkey })),
+      instructions: [],
+    },
+  },
+  meta: {
+    err: null,
+    fee: 5000,
+    preBalances: [1_000_005_000, 0, 0],
+    postBalances: [2_000_000_000, 0, 0],
+    preTokenBalances: [{ accountIndex: 2, mint: usdc, owner: wallet, uiTokenAmount: { amount: '150000000', decimals: 6 } }],
+    postTokenBalances: [{ accountIndex: 2, mint: usdc, owner: wallet, uiTokenAmount: { amount: '100000000', decimals: 6 } }],
+  },
+} as unknown as ParsedTransactionWithMeta;
+
+describe('PortfolioHistoryService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setPriceHistoryProvider(coinGeckoPriceHistoryProvider);
+  });
+
+  it('should replay balance changes backward from current holdings', async () => {
+    vi.spyOn(solanaService, 'getSOLBalance').mockResolvedValue(2);
+    vi.spyOn(solanaService, 'getTokenAccounts').mockResolvedValue([
+      { mint: usdc, address: 'usdcAta', owner: wallet, amount: '100000000', decimals: 6, uiAmount: 100 } as TokenAccount,
+    ]);
+    vi.spyOn(solanaService, 'getTokenPrices').mockResolvedValue(new Map([[usdc, 1]]));
+    const since = vi.spyOn(solanaService, 'getParsedTransactionsSince').mockResolvedValue({ transactions: [swap], complete: true });
+    setPriceHistoryProvider({
+      name: 'test',
+      getPriceHistory: async (mint, from) => [{ timestamp: from, priceUSD: mint === usdc ? 1 : 100 }],
+    });
+
+    const history = await portfolioHistoryService.getHistory(
+      wallet,
+      historyQuerySchema.parse({ interval: '1d', from: day0, to: day0 + 2 * day })
+    );
+
+    expect(since).toHaveBeenCalledWith(wallet, day0, expect.any(Number));
+    expect(history.points.map((p) => [p.timestamp, p.solBalance, p.valueUSD])).toEqual([
+      [day0, 1.000005, 250],
+      [day0 + day, 1.000005, 250],
+      [day0 + 2 * day, 2, 300],
+    ]);
+    expect(history.points[0]!.tokens).toEqual([{ mint: usdc, amount: 150, valueUSD: 150 }]);
+    expect(history.truncated).toBe(false);
+    expect(history.priceSource).toBe('test');
+  });
+
+  it('should drop points older than the replayed transactions when the history is cut off', async () => {
+    vi.spyOn(solanaService, 'getSOLBalance').mockResolvedValue(2);
+    vi.spyOn(solanaService, 'getTokenAccounts').mockResolvedValue([]);
+    vi.spyOn(solanaService, 'getTokenPrices').mockResolvedValue(new Map());
+    vi.spyOn(solanaService, 'getParsedTransactionsSince').mockResolvedValue({ transactions: [swap], complete: false });
+    setPriceHistoryProvider({ name: 'test', getPriceHistory: async () => [] });
+
+    const history = await portfolioHistoryService.getHistory(
+      wallet,
+      historyQuerySchema.parse({ interval: '1d', from: day0, to: day0 + 2 * day })
+    );
+
+    expect(history.points.map((p) => p.timestamp)).toEqual([day0 + 2 * day]);
+    expect(history.from).toBe(day0 + 2 * day);
+    expect(history.truncated).toBe(true);
+  });
+
+  it('should reject windows with too many points', () => {
+    const result = historyQuerySchema.safeParse({ interval: '1h', from: '0' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('priceAt', () => {
+  const series = [
+    { timestamp: 100, priceUSD: 1 },
+    { timestamp: 200, priceUSD: 2 },
+  ];
+
+  it('should use the latest price at or before the point', () => {
+    expect(priceAt(series, 150)).toBe(1);
+    expect(priceAt(series, 200)).toBe(2);
+    expect(priceAt(series, 500)).toBe(2);
+  });
+
+  it('should fall back to the first price for points before the series', () => {
+    expect(priceAt(series, 50)).toBe(1);
+    expect(priceAt([], 50)).toBeUndefined();
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getPaymentAsset, type PaymentAsset } from '../../../src/config/assets.js';
+import { getAssetPriceUSD, quoteAssetAmount } from '../../../src/services/priceOracle.js';
+import { usdcToAtomicUnits } from '../../../src/services/x402.js';
+
+describe('Price oracle', () => {
+  const usdc = getPaymentAsset('USDC', 'mainnet-beta') as PaymentAsset;
+
+  it('should price USDC at 1 USD without an oracle lookup', async () => {
+    expect(await getAssetPriceUSD(usdc)).toBe(1);
+  });
+
+  it('should convert USD prices to USDC atomic units', async () => {
+    expect(await quoteAssetAmount(0.01, usdc)).toBe('10000');
+    expect(await quoteAssetAmount(0.1, usdc)).toBe('100000');
+  });
+
+  it('should not round up floating point noise', async () => {
+    expect(await quoteAssetAmount(0.07, usdc)).toBe('70000');
+  });
+
+  it('should round fixed USDC amounts up like quoted ones', () => {
+    expect(usdcToAtomicUnits(0.0123456)).toBe('12346');
+    expect(usdcToAtomicUnits(0.07)).toBe('70000');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { PricingEngine } from '../../../src/services/pricing.js';
+import { pricingRulesSchema } from '../../../src/schemas/pricing.js';
+
+const overviewPath = '/api/v1/wallet/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK/overview';
+
+/** Engine with fixed rules instead of the configured file or database */
+function engineWith(rules: unknown): PricingEngine {
+  return new PricingEngine(async () => ({ rules: pricingRulesSchema.parse(rules), source: 'file' }));
+}
+
+describe('PricingEngine', () => {
+  it('should charge the base price without rules', async () => {
+    const quote = await new PricingEngine(async () => null).quote(overviewPath);
+
+    expect(quote.priceUSD).toBe(0.01);
+    expect(quote.basePriceUSD).toBe(0.01);
+    expect(quote.adjustments).toEqual([]);
+  });
+
+  it('should apply base price overrides', async () => {
+    const engine = engineWith({ basePrices: { '/api/v1/wallet/:address/overview': 0.02 } });
+    const quote = await engine.quote(overviewPath);
+
+    expect(quote.priceUSD).toBe(0.02);
+  });
+
+  it('should apply the best running promotion for the endpoint', async () => {
+    const hour = 60 * 60 * 1000;
+    const engine = engineWith({
+      promotions: [
+        {
+          name: 'launch-week',
+          discountPercent: 20,
+          startsAt: new Date(Date.now() - hour).toISOString(),
+          endsAt: new Date(Date.now() + hour).toISOString(),
+        },
+        {
+          name: 'overview-sale',
+          discountPercent: 50,
+          startsAt: new Date(Date.now() - hour).toISOString(),
+          endsAt: new Date(Date.now() + hour).toISOString(),
+          endpoints: ['/api/v1/wallet/:address/overview'],
+        },
+        {
+          name: 'expired',
+          discountPercent: 90,
+          startsAt: new Date(Date.now() - 2 * hour).toISOString(),
+          endsAt: new Date(Date.now() - hour).toISOString(),
+        },
+      ],
+    });
+
+    const quote = await engine.quote(overviewPath);
+
+    expect(quote.priceUSD).toBe(0.005);
+    expect(quote.adjustments).toEqual([{ type: 'promotion', name: 'overview-sale', percent: -50 }]);
+  });
+
+  it('should apply volume discounts only for a known payer', async () => {
+    const engine = engineWith({ volumeTiers: [{ minSpendUsdc: 0, discountPercent: 10 }] });
+
+    const anonymous = await engine.quote(overviewPath);
+    const payer = await engine.quote(overviewPath, 'PayerWallet123');
+
+    expect(anonymous.priceUSD).toBe(0.01);
+    expect(payer.priceUSD).toBe(0.009);
+    expect(payer.payer).toBe('PayerWallet123');
+  });
+
+  it('should charge for requests deeper than the endpoint includes', async () => {
+    const engine = new PricingEngine(async () => null);
+    const activityPath = '/api/v1/wallet/DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK/activity?limit=250';
+
+    const included = await engine.quote(activityPath, undefined, { limit: 100 });
+    const deeper = await engine.quote(activityPath, undefined, { limit: 250 });
+
+    expect(included.priceUSD).toBe(0.1);
+    expect(deeper.priceUSD).toBe(0.2);
+    expect(deeper.adjustments).toEqual([{ type: 'depth', name: 'limit=250', percent: 100 }]);
+  });
+
+  it('should price a batch as every endpoint for every address', async () => {
+    const engine = engineWith({ volumeTiers: [{ minSpendUsdc: 0, discountPercent: 10 }] });
+
+    const quote = await engine.quoteBatch(
+      ['/api/v1/wallet/:address/overview', '/api/v1/wallet/:address/risk'],
+      3,
+      'PayerWallet123'
+    );
+
+    expect(quote.basePriceUSD).toBe(0.33);
+    expect(quote.priceUSD).toBe(0.297);
+    expect(quote.adjustments).toEqual([{ type: 'volume', percent: -10 }]);
+    expect(quote.payer).toBe('PayerWallet123');
+  });
+
+  it('should reject unknown endpoints', async () => {
+    await expect(new PricingEngine(async () => null).quote('/api/v1/unknown')).rejects.toThrow('No pricing configured');
+  });
+
+  it('should reject discounts of 100% or more', () => {
+    expect(pricingRulesSchema.safeParse({ volumeTiers: [{ minSpendUsdc: 0, discountPercent: 100 }] }).success).toBe(false);
+  });
+});
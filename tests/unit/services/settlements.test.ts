@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { settlementService } from '../../../src/services/settlements.js';
+import { databaseService } from '../../../src/services/database.js';
+
+describe('SettlementService', () => {
+  const testSignature = `test-settlement-${Date.now()}`;
+
+  afterEach(async () => {
+    await databaseService.query('DELETE FROM payment_settlements WHERE signature = $1', [testSignature]);
+  });
+
+  const recordPending = () =>
+    settlementService.recordPending({
+      signature: testSignature,
+      mode: 'payai',
+      network: 'solana-mainnet',
+      endpoint: '/api/v1/wallet/test/overview',
+      wallet: 'TestWallet123',
+      amountUsdc: 0.01,
+    });
+
+  it('should record a pending settlement', async () => {
+    const id = await recordPending();
+
+    expect(id).toBeGreaterThan(0);
+
+    const pending = await settlementService.list({ status: 'pending', limit: 10 });
+    expect(pending.some((record) => record.id === id)).toBe(true);
+  });
+
+  it('should mark a settlement as settled with its transaction', async () => {
+    const id = await recordPending();
+    await settlementService.markSettled(id, { txHash: 'settled-tx-hash' });
+
+    const settled = await settlementService.list({ status: 'settled', limit: 10 });
+    const record = settled.find((r) => r.id === id);
+
+    expect(record?.txHash).toBe('settled-tx-hash');
+    expect(record?.network).toBe('solana-mainnet');
+  });
+
+  it('should mark a settlement as failed with the error', async () => {
+    const id = await recordPending();
+    await settlementService.markFailed(id, 'Facilitator error: 502 Bad Gateway');
+
+    const failed = await settlementService.list({ status: 'failed', limit: 10 });
+    const record = failed.find((r) => r.id === id);
+
+    expect(record?.error).toContain('502');
+  });
+
+  it('should mark the settled records of a released payment as failed', async () => {
+    const id = await recordPending();
+    await settlementService.markSettled(id, { txHash: 'settled-tx-hash' });
+
+    await settlementService.markFailedBySignature(testSignature, 'Deposit could not be credited');
+
+    const failed = await settlementService.list({ status: 'failed', limit: 10 });
+    expect(failed.find((r) => r.id === id)?.error).toBe('Deposit could not be credited');
+  });
+
+  it('should summarize settlements by mode and status', async () => {
+    const id = await recordPending();
+    await settlementService.markFailed(id, 'Settlement failed');
+
+    const summary = await settlementService.summarize(new Date(Date.now() - 60_000), new Date(Date.now() + 60_000));
+    const failedPayAI = summary.find((row) => row.mode === 'payai' && row.status === 'failed');
+
+    expect(failedPayAI?.count).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should ignore updates for settlements that were never recorded', async () => {
+    await expect(settlementService.markSettled(null, { txHash: 'tx' })).resolves.toBeUndefined();
+  });
+});
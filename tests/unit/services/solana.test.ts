@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import type { ConfirmedSignatureInfo, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { SolanaService } from '../../../src/services/solana.js';
+import { config } from '../../../src/config/index.js';
+import { transactionsQuerySchema } from '../../../src/schemas/wallet.js';
+
+const wallet = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+const systemProgram = '11111111111111111111111111111111';
+const tokenProgram = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function signature(index: number, blockTime: number, failed = false): ConfirmedSignatureInfo {
+  return {
+    signature: `sig${index}`,
+    slot: index,
+    blockTime,
+    err: failed ? { InstructionError: [0, 'Custom'] } : null,
+    memo: null,
+  };
+}
+
+function parsed(programId: string): ParsedTransactionWithMeta {
+  const info = programId === systemProgram
+    ? { source: wallet, destination: wallet, lamports: 1_000_000 }
+    : { source: 'sourceAta', destination: 'destinationAta', mint: 'mint', tokenAmount: { amount: '1000', decimals: 3 } };
+
+  return {
+    meta: { fee: 5000, err: null },
+    transaction: {
+      message: {
+        accountKeys: [],
+        instructions: [{ programId: { toString: () => programId }, parsed: { type: programId === systemProgram ? 'transfer' : 'transferChecked', info } }],
+      },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+describe('SolanaService.getWalletTransactions', () => {
+  const solana = config.solana as { heliusRpcUrlMainnet?: string; heliusRpcUrlDevnet?: string };
+  const configured = { ...solana };
+  let service: SolanaService;
+
+  // The RPC is never reached: every call the tests make is stubbed on the connection
+  beforeAll(() => {
+    solana.heliusRpcUrlMainnet = 'https://rpc.test/?api-key=test';
+    solana.heliusRpcUrlDevnet = 'https://rpc.test/?api-key=test';
+    service = new SolanaService();
+  });
+
+  afterAll(() => {
+    solana.heliusRpcUrlMainnet = configured.heliusRpcUrlMainnet;
+    solana.heliusRpcUrlDevnet = configured.heliusRpcUrlDevnet;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should filter a page and only fetch matching transactions', async () => {
+    const connection = service.getConnection();
+    const signatures = [
+      signature(3, 1_700_000_300),
+      signature(2, 1_700_000_200, true),
+      signature(1, 1_700_000_100),
+    ];
+    const getSignatures = vi.spyOn(connection, 'getSignaturesForAddress').mockResolvedValue(signatures);
+    const getParsed = vi.spyOn(connection, 'getParsedTransactions').mockImplementation(
+      async (sigs) => (sigs as string[]).map((sig) => parsed(sig === 'sig3' ? systemProgram : tokenProgram))
+    );
+
+    const history = await service.getWalletTransactions(
+      wallet,
+      transactionsQuerySchema.parse({ limit: '3', before: undefined, status: 'success', type: 'Token Transfer' })
+    );
+
+    expect(getSignatures.mock.calls[0]![1]).toEqual({ limit: 3, before: undefined, until: undefined });
+    expect(getParsed.mock.calls[0]![0]).toEqual(['sig3', 'sig1']);
+    expect(history.transactions.map((tx) => tx.signature)).toEqual(['sig1']);
+    expect(history.transactions[0]!.fee).toBe(0.000005);
+    expect(history.scanned).toBe(3);
+    expect(history.nextBefore).toBe('sig1');
+  });
+
+  it('should end pagination once the page reaches past the time range', async () => {
+    const connection = service.getConnection();
+    vi.spyOn(connection, 'getSignaturesForAddress').mockResolvedValue([
+      signature(2, 1_700_000_200),
+      signature(1, 1_700_000_100),
+    ]);
+    const getParsed = vi.spyOn(connection, 'getParsedTransactions').mockResolvedValue([parsed(systemProgram)]);
+
+    const history = await service.getWalletTransactions(
+      wallet,
+      transactionsQuerySchema.parse({ limit: 2, from: 1_700_000_150 })
+    );
+
+    expect(getParsed.mock.calls[0]![0]).toEqual(['sig2']);
+    expect(history.transactions.map((tx) => tx.type)).toEqual(['SOL Transfer']);
+    expect(history.nextBefore).toBeUndefined();
+  });
+
+  it('should end pagination on a short page', async () => {
+    const connection = service.getConnection();
+    vi.spyOn(connection, 'getSignaturesForAddress').mockResolvedValue([signature(1, 1_700_000_100)]);
+    vi.spyOn(connection, 'getParsedTransactions').mockResolvedValue([parsed(systemProgram)]);
+
+    const history = await service.getWalletTransactions(wallet, transactionsQuerySchema.parse({}));
+
+    expect(history.scanned).toBe(1);
+    expect(history.nextBefore).toBeUndefined();
+  });
+});
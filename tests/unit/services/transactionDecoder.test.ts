@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedTransactionWithMeta, TokenBalance } from '@solana/web3.js';
+import {
+  decodeTransaction,
+  getInstructionDecoder,
+  registerInstructionDecoder,
+} from '../../../src/services/transactions/decoder.js';
+import { balanceChanges } from '../../../src/services/transactions/balances.js';
+
+const wallet = 'DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK';
+const pool = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const usdc = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const wsol = 'So11111111111111111111111111111111111111112';
+const msol = 'mSoLzYCxHdYgdzU2g5xdEUN8ybrJnDbiFRWHvCjjfZ3';
+const nftMint = '7EYnhQoR9YM3N7UoaKRoA44Uy8JeaZV3qyouov87awMs';
+
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const RAYDIUM = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+
+interface Fixture {
+  accounts?: string[];
+  instructions: unknown[];
+  preBalances?: number[];
+  postBalances?: number[];
+  preTokenBalances?: Partial<TokenBalance>[];
+  postTokenBalances?: Partial<TokenBalance>[];
+  err?: unknown;
+}
+
+/** Parsed transaction with the wallet as fee payer (fee 5000 lamports) */
+function transaction(fixture: Fixture): ParsedTransactionWithMeta {
+  const accounts = fixture.accounts ?? [wallet, pool];
+  return {
+    slot: 1,
+    blockTime: 1_700_000_000,
+    transaction: {
+      signatures: ['sig'],
+      message: {
+        accountKeys: accounts.map((pubkey) => ({ pubkey, signer: pubkey === wallet, writable: true })),
+        instructions: fixture.instructions,
+        recentBlockhash: '',
+      },
+    },
+    meta: {
+      err: fixture.err ?? null,
+      fee: 5000,
+      preBalances: fixture.preBalances ?? accounts.map(() => 0),
+      postBalances: fixture.postBalances ?? accounts.map(() => 0),
+      preTokenBalances: fixture.preTokenBalances ?? [],
+      postTokenBalances: fixture.postTokenBalances ?? [],
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function tokenBalance(accountIndex: number, mint: string, amount: string, decimals: number, owner = wallet): Partial<TokenBalance> {
+  return { accountIndex, mint, owner, uiTokenAmount: { amount, decimals, uiAmount: null } };
+}
+
+describe('decodeTransaction', () => {
+  it('should decode an aggregator route as one swap', () => {
+    // SOL -> USDC through Jupiter, with a top-level Raydium instruction in the same transaction
+    const tx = transaction({
+      accounts: [wallet, pool, 'usdcAta'],
+      instructions: [{ programId: JUPITER, accounts: [], data: '' }, { programId: RAYDIUM, accounts: [], data: '' }],
+      preBalances: [2_000_000_000, 0, 0],
+      postBalances: [999_995_000, 0, 0],
+      preTokenBalances: [tokenBalance(2, usdc, '0', 6)],
+      postTokenBalances: [tokenBalance(2, usdc, '150250000', 6)],
+    });
+
+    expect(decodeTransaction(tx, wallet)).toEqual([{
+      type: 'swap',
+      program: 'Jupiter',
+      inputMint: wsol,
+      inputAmount: 1,
+      outputMint: usdc,
+      outputAmount: 150.25,
+    }]);
+  });
+
+  it('should decode native staking and liquid staking', () => {
+    const delegate = transaction({
+      accounts: [wallet, 'stakeAccount'],
+      instructions: [{
+        programId: 'Stake11111111111111111111111111111111111111',
+        program: 'stake',
+        parsed: { type: 'delegate', info: { stakeAccount: 'stakeAccount', voteAccount: pool } },
+      }],
+      postBalances: [0, 5_000_000_000],
+    });
+    const marinade = transaction({
+      accounts: [wallet, pool, 'msolAta'],
+      instructions: [{ programId: 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD', accounts: [], data: '' }],
+      preBalances: [3_000_000_000, 0, 0],
+      postBalances: [999_995_000, 0, 0],
+      postTokenBalances: [tokenBalance(2, msol, '1800000000', 9)],
+    });
+
+    expect(decodeTransaction(delegate, wallet)).toEqual([
+      { type: 'stake', program: 'Stake', amount: 5, stakeAccount: 'stakeAccount' },
+    ]);
+    expect(decodeTransaction(marinade, wallet)).toEqual([
+      { type: 'stake', program: 'Marinade', amount: 2, mint: msol, tokenAmount: 1.8 },
+    ]);
+  });
+
+  it('should decode NFT sales but not listings', () => {
+    const sale = transaction({
+      accounts: [wallet, pool, 'nftAta'],
+      instructions: [{ programId: 'TSWAPaqyCSx2KABk68Shruf4rp7CxcNi8hAsbdwmHbN', accounts: [], data: '' }],
+      preBalances: [1_000_000_000, 0, 0],
+      postBalances: [3_499_995_000, 0, 0],
+      preTokenBalances: [tokenBalance(2, nftMint, '1', 0)],
+      postTokenBalances: [tokenBalance(2, nftMint, '0', 0)],
+    });
+    const listing = transaction({
+      accounts: [wallet, pool, 'nftAta'],
+      instructions: [{ programId: 'M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K', accounts: [], data: '' }],
+      preBalances: [1_000_000_000, 0, 0],
+      postBalances: [999_995_000, 0, 0],
+      preTokenBalances: [tokenBalance(2, nftMint, '1', 0)],
+      postTokenBalances: [tokenBalance(2, nftMint, '0', 0)],
+    });
+
+    expect(decodeTransaction(sale, wallet)).toEqual([
+      { type: 'nft_sell', program: 'Tensor', mint: nftMint, price: 2.5 },
+    ]);
+    expect(decodeTransaction(listing, wallet)).toEqual([]);
+  });
+
+  it('should decode Token-2022 transfers, looking up the mint of plain transfers', () => {
+    const tx = transaction({
+      accounts: [wallet, 'sourceAta', 'destinationAta'],
+      instructions: [{
+        programId: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+        program: 'spl-token',
+        parsed: { type: 'transfer', info: { source: 'sourceAta', destination: 'destinationAta', authority: wallet, amount: '2500000' } },
+      }],
+      preTokenBalances: [tokenBalance(1, usdc, '2500000', 6)],
+      postTokenBalances: [tokenBalance(1, usdc, '0', 6)],
+    });
+
+    expect(decodeTransaction(tx, wallet)).toEqual([{
+      type: 'transfer',
+      program: 'Token-2022',
+      mint: usdc,
+      amount: 2.5,
+      source: 'sourceAta',
+      destination: 'destinationAta',
+    }]);
+  });
+
+  it('should not decode failed transactions', () => {
+    const tx = transaction({
+      instructions: [{
+        programId: '11111111111111111111111111111111',
+        program: 'system',
+        parsed: { type: 'transfer', info: { source: wallet, destination: pool, lamports: 1_000_000_000 } },
+      }],
+      err: { InstructionError: [0, 'Custom'] },
+    });
+
+    expect(decodeTransaction(tx, wallet)).toEqual([]);
+  });
+
+  it('should use registered decoders', () => {
+    const programId = 'Custom1111111111111111111111111111111111111';
+    registerInstructionDecoder({
+      name: 'Custom',
+      programIds: [programId],
+      decode: () => [{ type: 'transfer', program: 'Custom', amount: 1, source: wallet, destination: pool }],
+    });
+
+    const tx = transaction({ instructions: [{ programId, accounts: [], data: '' }] });
+
+    expect(getInstructionDecoder(programId)?.name).toBe('Custom');
+    expect(decodeTransaction(tx, wallet)).toHaveLength(1);
+  });
+});
+
+describe('balanceChanges', () => {
+  it('should report SOL moved, fee included, and who received it', () => {
+    const tx = transaction({
+      instructions: [{
+        programId: '11111111111111111111111111111111',
+        program: 'system',
+        parsed: { type: 'transfer', info: { source: wallet, destination: pool, lamports: 1_000_000_000 } },
+      }],
+      preBalances: [2_000_000_000, 0],
+      postBalances: [999_995_000, 1_000_000_000],
+    });
+
+    expect(balanceChanges(tx, wallet)).toEqual({ sol: -1.000005, tokens: [], counterparties: [pool] });
+  });
+
+  it('should report token deltas and token owners on the other side, not the wallet own accounts', () => {
+    const bonk = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+    // USDC -> BONK against a pool, creating the wallet's BONK account (rent paid to it)
+    const tx = transaction({
+      accounts: [wallet, RAYDIUM, 'usdcAta', 'poolUsdc', 'bonkAta', 'poolBonk'],
+      instructions: [{ programId: RAYDIUM, accounts: [], data: '' }],
+      preBalances: [1_000_000_000, 0, 2_039_280, 2_039_280, 0, 2_039_280],
+      postBalances: [997_955_720, 0, 2_039_280, 2_039_280, 2_039_280, 2_039_280],
+      preTokenBalances: [
+        tokenBalance(2, usdc, '10000000', 6),
+        tokenBalance(3, usdc, '500000000', 6, pool),
+        tokenBalance(5, bonk, '900000000', 5, pool),
+      ],
+      postTokenBalances: [
+        tokenBalance(2, usdc, '0', 6),
+        tokenBalance(3, usdc, '510000000', 6, pool),
+        tokenBalance(4, bonk, '45000000', 5),
+        tokenBalance(5, bonk, '855000000', 5, pool),
+      ],
+    });
+
+    expect(balanceChanges(tx, wallet)).toEqual({
+      sol: -0.00204428,
+      tokens: [
+        { mint: usdc, decimals: 6, amount: -10 },
+        { mint: bonk, decimals: 5, amount: 450 },
+      ],
+      counterparties: [pool],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import {
+  buildWalletAuthMessage,
+  verifyWalletAuth,
+  verifyWalletSignature,
+} from '../../../src/services/walletAuth.js';
+
+/** Generate a wallet (base58 address) with a signing function */
+function generateWallet() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+
+  return {
+    address: bs58.encode(rawPublicKey),
+    sign: (message: string) => bs58.encode(crypto.sign(null, Buffer.from(message), privateKey)),
+  };
+}
+
+describe('Wallet authentication', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('should build a message bound to action, wallet and time', () => {
+    expect(buildWalletAuthMessage('payment-history', 'Wallet123', 1730000000)).toBe(
+      'ChainScope payment-history\nWallet: Wallet123\nTimestamp: 1730000000'
+    );
+  });
+
+  it('should verify a signature made by the wallet', () => {
+    const wallet = generateWallet();
+    const message = buildWalletAuthMessage('payment-history', wallet.address, now());
+
+    expect(verifyWalletSignature(wallet.address, message, wallet.sign(message))).toBe(true);
+  });
+
+  it('should reject a signature made by another wallet', () => {
+    const wallet = generateWallet();
+    const other = generateWallet();
+    const message = buildWalletAuthMessage('payment-history', wallet.address, now());
+
+    expect(verifyWalletSignature(wallet.address, message, other.sign(message))).toBe(false);
+  });
+
+  it('should reject malformed signatures', () => {
+    const wallet = generateWallet();
+    expect(verifyWalletSignature(wallet.address, 'message', 'not-base58!')).toBe(false);
+  });
+
+  it('should accept a fresh signed message for the action', () => {
+    const wallet = generateWallet();
+    const timestamp = now();
+    const signature = wallet.sign(buildWalletAuthMessage('payment-history', wallet.address, timestamp));
+
+    expect(verifyWalletAuth('payment-history', wallet.address, timestamp, signature)).toEqual({ valid: true });
+  });
+
+  it('should reject expired signed messages', () => {
+    const wallet = generateWallet();
+    const timestamp = now() - 600;
+    const signature = wallet.sign(buildWalletAuthMessage('payment-history', wallet.address, timestamp));
+
+    const result = verifyWalletAuth('payment-history', wallet.address, timestamp, signature);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain('timestamp');
+  });
+
+  it('should reject signatures for a different action', () => {
+    const wallet = generateWallet();
+    const timestamp = now();
+    const signature = wallet.sign(buildWalletAuthMessage('something-else', wallet.address, timestamp));
+
+    expect(verifyWalletAuth('payment-history', wallet.address, timestamp, signature).valid).toBe(false);
+  });
+});
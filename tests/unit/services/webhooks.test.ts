@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { webhookService } from '../../../src/services/webhooks.js';
+import { config } from '../../../src/config/index.js';
+import { jobRequestSchema } from '../../../src/schemas/jobs.js';
+import { isPublicAddress } from '../../../src/utils/network.js';
+
+// receiver.test is public, internal.test resolves to a private address
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async (hostname: string) => [
+    { address: hostname === 'internal.test' ? '10.0.0.5' : '93.184.216.34', family: 4 },
+  ]),
+}));
+
+describe('WebhookService', () => {
+  const jobs = config.jobs as { webhookSecret?: string };
+  const configuredSecret = jobs.webhookSecret;
+
+  beforeAll(() => {
+    jobs.webhookSecret = 'test-webhook-secret-with-at-least-32-chars';
+  });
+
+  afterAll(() => {
+    jobs.webhookSecret = configuredSecret;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should verify its own signatures', () => {
+    const body = JSON.stringify({ id: 'job-1', status: 'succeeded' });
+    const signature = webhookService.sign(body);
+
+    expect(signature).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(webhookService.verify(body, signature)).toBe(true);
+    expect(webhookService.verify(`${body} `, signature)).toBe(false);
+  });
+
+  it('should reject stale signatures', () => {
+    const body = '{}';
+    const signature = webhookService.sign(body, 1_000_000);
+
+    expect(webhookService.verify(body, signature, 1_000_000 + 60)).toBe(true);
+    expect(webhookService.verify(body, signature, 1_000_000 + 3600)).toBe(false);
+  });
+
+  it('should retry until the receiver acknowledges', async () => {
+    vi.useFakeTimers();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+
+    const delivery = webhookService.deliver('https://receiver.test/hook', 'job-1', { id: 'job-1' });
+    await vi.runAllTimersAsync();
+
+    expect(await delivery).toEqual({ delivered: true, attempts: 2, statusCode: 200 });
+    const [, init] = fetch.mock.calls[1]!;
+    expect(init.headers['X-Webhook-Id']).toBe('job-1');
+    expect(webhookService.verify(init.body, init.headers['X-Webhook-Signature'])).toBe(true);
+  });
+
+  it('should not deliver to hosts that resolve to internal addresses', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    const delivery = await webhookService.deliver('https://internal.test/hook', 'job-1', { id: 'job-1' });
+
+    expect(delivery).toEqual({ delivered: false, attempts: 0, statusCode: undefined });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('Webhook URLs', () => {
+  const job = { addresses: ['DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK'], analyses: ['overview'] };
+
+  it('should reject local and private hosts', () => {
+    for (const webhookUrl of ['https://localhost/hook', 'https://10.0.0.5/hook', 'https://169.254.169.254/', 'https://[::1]/hook']) {
+      expect(jobRequestSchema.safeParse({ ...job, webhookUrl }).success).toBe(false);
+    }
+    expect(jobRequestSchema.safeParse({ ...job, webhookUrl: 'https://receiver.test/hook' }).success).toBe(true);
+  });
+
+  it('should classify addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:4700::1111')).toBe(true);
+    expect(isPublicAddress('192.168.1.1')).toBe(false);
+    expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+    expect(isPublicAddress('fd00::1')).toBe(false);
+  });
+});